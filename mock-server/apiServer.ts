@@ -0,0 +1,285 @@
+import { createServer, type IncomingHttpHeaders, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { FeedServer } from './feedServer';
+import { MockTradingError, type TradingEngine } from './trading';
+import { delay, randomLatency, type FailurePatch, type FailureSettings } from './settings';
+
+// The REST half of the contract. Responses mirror the real backend's shapes, including the
+// error bodies useTradingAPI reads `message`/`error` from.
+
+interface ApiServerOptions {
+  port: number;
+  trading: TradingEngine;
+  feed: FeedServer;
+  scenarioName: string;
+  apiToken: string;
+  getFailures: () => FailureSettings;
+  patchFailures: (patch: FailurePatch) => FailureSettings;
+}
+
+type JsonBody = Record<string, unknown>;
+type Handler = (body: JsonBody, query: URLSearchParams, headers: IncomingHttpHeaders) => { status?: number; body: unknown };
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<JsonBody>((resolve, reject) => {
+    let raw = '';
+    req.on('data', chunk => {
+      raw += chunk;
+    });
+    req.on('end', () => {
+      if (!raw) {
+        resolve({});
+        return;
+      }
+      try {
+        const parsed = JSON.parse(raw);
+        resolve(typeof parsed === 'object' && parsed !== null ? parsed : {});
+      } catch {
+        reject(new MockTradingError(400, 'INVALID_JSON', 'Request body is not valid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const writeJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key'
+  });
+  res.end(JSON.stringify(body));
+};
+
+const idempotencyKey = (headers: IncomingHttpHeaders) => {
+  const value = headers['idempotency-key'];
+  return typeof value === 'string' && value.trim() ? value.trim() : null;
+};
+
+const readNumber = (value: unknown, fallback: number) => {
+  const parsed = typeof value === 'string' ? Number(value) : value;
+  return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+const hasText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+// Opens and closes honour an Idempotency-Key header: a repeated key gets the first response back
+// instead of trading again. Keys are remembered for a day, like the real backend.
+const IDEMPOTENT_PATHS = new Set(['/trading/open', '/trading/close']);
+// Successful requests here change positions or balances, so watchers get fresh ones
+const POSITION_PATHS = new Set([...IDEMPOTENT_PATHS, '/trading/leverage']);
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface IdempotentRequest {
+  route: string;
+  body: string;
+  at: number;
+  // null while the first request with this key is still being processed
+  response: { status: number; body: unknown } | null;
+}
+
+export function createApiServer({ port, trading, feed, scenarioName, apiToken, getFailures, patchFailures }: ApiServerOptions): Server {
+  const startedAt = Date.now();
+  // Only whether each exchange has credentials is kept; the secrets themselves are dropped and never logged
+  const configuredExchanges = { bybit: false, hyperliquid: false };
+  const idempotentRequests = new Map<string, IdempotentRequest>();
+
+  // Returns true when the request was answered from (or refused by) the idempotency cache
+  const replayIdempotent = (res: ServerResponse, key: string, route: string, body: JsonBody) => {
+    const now = Date.now();
+    idempotentRequests.forEach((entry, stored) => {
+      if (now - entry.at > IDEMPOTENCY_TTL_MS) idempotentRequests.delete(stored);
+    });
+
+    const existing = idempotentRequests.get(key);
+    if (!existing) {
+      idempotentRequests.set(key, { route, body: JSON.stringify(body), at: now, response: null });
+      return false;
+    }
+    if (existing.route !== route || existing.body !== JSON.stringify(body)) {
+      writeJson(res, 422, { success: false, error: 'IDEMPOTENCY_KEY_REUSED', message: 'Idempotency key was already used for a different request' });
+    } else if (!existing.response) {
+      writeJson(res, 409, { success: false, error: 'REQUEST_IN_PROGRESS', message: 'A request with this idempotency key is still being processed' });
+    } else {
+      console.log(`♻️ Mock API: Replaying ${route} for idempotency key ${key}`);
+      writeJson(res, existing.response.status, { ...(existing.response.body as JsonBody), idempotent_replay: true });
+    }
+    return true;
+  };
+
+  const requireToken = (headers: IncomingHttpHeaders) => {
+    if (headers.authorization !== `Bearer ${apiToken}`) {
+      throw new MockTradingError(401, 'UNAUTHORIZED', 'Missing or invalid backend access token');
+    }
+  };
+
+  const routes: Record<string, Handler> = {
+    'POST /trading/open': (body, _query, headers) => {
+      const pair = String(body.pair ?? '');
+      const position = trading.open(pair, readNumber(body.amount, NaN), getFailures(), idempotencyKey(headers));
+      console.log(`🟢 Mock API: Opened ${pair} for ${body.amount} USDT`);
+      return { body: { success: true, message: `Opened ${position.symbol} position`, position } };
+    },
+
+    'POST /trading/close': (body, _query, headers) => {
+      const pair = String(body.pair ?? '');
+      const { position, realizedPnl } = trading.close(pair, readNumber(body.percentage, 100), getFailures(), idempotencyKey(headers));
+      console.log(`🔴 Mock API: Closed ${body.percentage ?? 100}% of ${pair}, realized ${realizedPnl.toFixed(2)} USDT`);
+      return { body: { success: true, message: `Closed ${body.percentage ?? 100}% of ${pair}`, position, realized_pnl: realizedPnl } };
+    },
+
+    // Only the HyperLiquid leg is leveraged; the Bybit spot leg is fully paid
+    'POST /trading/leverage': (body) => {
+      const pair = String(body.pair ?? '');
+      const position = trading.setLeverage(pair, readNumber(body.leverage, NaN), getFailures());
+      console.log(`⚖️ Mock API: Set ${pair} leverage to ${body.leverage}x`);
+      return { body: { success: true, message: `Set ${position.symbol} leverage to ${position.hyperliquid.leverage}x`, position } };
+    },
+
+    'GET /trading/positions/active': () => ({
+      body: { active_positions: trading.activePositions() }
+    }),
+
+    'GET /trading/positions/closed': (_body, query) => ({
+      body: { closed_positions: trading.closedTrades(readNumber(query.get('days'), 7), readNumber(query.get('limit'), 50)) }
+    }),
+
+    'GET /trading/status': () => ({
+      body: {
+        status: 'running',
+        mode: 'mock',
+        scenario: scenarioName,
+        uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+        websocket_clients: feed.clientCount(),
+        active_positions: trading.activePositions().length,
+        exchanges: {
+          bybit: { connected: !getFailures().exchangesDown.includes('bybit'), credentials_configured: configuredExchanges.bybit },
+          hyperliquid: { connected: !getFailures().exchangesDown.includes('hyperliquid'), credentials_configured: configuredExchanges.hyperliquid }
+        }
+      }
+    }),
+
+    'POST /api/positions/fetch': (body) => ({
+      body: {
+        success: true,
+        data: {
+          active_positions: trading.activePositions(),
+          closed_positions: trading.closedTrades(readNumber(body.days, 7))
+        }
+      }
+    }),
+
+    'POST /credentials': (body, _query, headers) => {
+      requireToken(headers);
+      const bybit = (body.bybit ?? {}) as JsonBody;
+      const hyperliquid = (body.hyperliquid ?? {}) as JsonBody;
+      configuredExchanges.bybit = hasText(bybit.api_key) && hasText(bybit.secret);
+      configuredExchanges.hyperliquid = hasText(hyperliquid.secret_key) && hasText(hyperliquid.account_address);
+      console.log('🔑 Mock API: Credentials received', JSON.stringify(configuredExchanges));
+      return {
+        body: {
+          success: true,
+          exchanges: {
+            bybit: { configured: configuredExchanges.bybit },
+            hyperliquid: { configured: configuredExchanges.hyperliquid }
+          }
+        }
+      };
+    },
+
+    // Checks the submitted keys the way the real backend would call each exchange, without keeping them
+    'POST /credentials/verify': (body, _query, headers) => {
+      requireToken(headers);
+      const bybit = (body.bybit ?? {}) as JsonBody;
+      const hyperliquid = (body.hyperliquid ?? {}) as JsonBody;
+      const verify = (error: string | null) => ({
+        valid: error === null,
+        ...(error ? { error } : {}),
+        latency_ms: Math.round(randomLatency(getFailures()) + 40 + Math.random() * 60)
+      });
+
+      return {
+        body: {
+          success: true,
+          exchanges: {
+            bybit: verify(
+              !hasText(bybit.api_key) || !hasText(bybit.secret) ? 'API key and secret are required'
+                : String(bybit.api_key).trim().length < 18 ? 'API key is invalid (retCode 10003)'
+                : null
+            ),
+            hyperliquid: verify(
+              !hasText(hyperliquid.secret_key) ? 'Secret key is required'
+                : !/^0x[0-9a-fA-F]{40}$/.test(String(hyperliquid.account_address ?? '').trim()) ? 'Account address must be a 0x-prefixed 40 character hex address'
+                : null
+            )
+          }
+        }
+      };
+    },
+
+    // Mock-only controls for scripting failures by hand
+    'GET /mock/scenario': () => ({ body: { scenario: scenarioName, failures: getFailures() } }),
+
+    'POST /mock/scenario': (body) => {
+      const failures = patchFailures(body as FailurePatch);
+      console.log('🎛️ Mock API: Failure settings updated', JSON.stringify(failures));
+      return { body: { scenario: scenarioName, failures } };
+    },
+
+    'POST /mock/disconnect': (body) => {
+      feed.dropAll(readNumber(body.downtime_ms, getFailures().disconnect.downtimeMs));
+      return { body: { success: true } };
+    }
+  };
+
+  const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      writeJson(res, 204, null);
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+    const route = `${req.method} ${url.pathname}`;
+    const handler = routes[route];
+    if (!handler) {
+      writeJson(res, 404, { success: false, error: 'NOT_FOUND', message: `No route for ${route}` });
+      return;
+    }
+
+    const key = IDEMPOTENT_PATHS.has(url.pathname) ? idempotencyKey(req.headers) : null;
+    const respond = (status: number, body: unknown) => {
+      const cached = key ? idempotentRequests.get(key) : undefined;
+      if (cached) cached.response = { status, body };
+      writeJson(res, status, body);
+    };
+
+    try {
+      const body = await readBody(req);
+      if (key && replayIdempotent(res, key, route, body)) return;
+
+      await delay(randomLatency(getFailures()));
+      const result = handler(body, url.searchParams, req.headers);
+      respond(result.status ?? 200, result.body);
+
+      if (POSITION_PATHS.has(url.pathname)) {
+        feed.publishTrading(true);
+      }
+    } catch (err) {
+      if (err instanceof MockTradingError) {
+        console.warn(`⚠️ Mock API: ${route} failed with ${err.code}: ${err.message}`);
+        respond(err.status, { success: false, error: err.code, message: err.message, ...err.details });
+        // One-legged and partial fills still changed positions and balances
+        if (err.code === 'ONE_LEG_FAILED' || err.code === 'PARTIAL_FILL') {
+          feed.publishTrading(true);
+        }
+        return;
+      }
+      console.error(`❌ Mock API: ${route} crashed:`, err);
+      // Nothing is known about a crashed request, so the key may be used again
+      if (key) idempotentRequests.delete(key);
+      writeJson(res, 500, { success: false, error: 'INTERNAL', message: 'Mock backend error' });
+    }
+  });
+
+  server.listen(port);
+  return server;
+}
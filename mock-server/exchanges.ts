@@ -0,0 +1,59 @@
+import type { ExchangeStatus } from '../src/lib/websocket/protocol';
+import type { FailureSettings, Leg } from './settings';
+
+// What the backend knows about each venue's connections, for exchange_status. Quotes are counted
+// as received on every market tick while a venue is up, so a downed venue's last quote ages visibly.
+
+const VENUES: Leg[] = ['hyperliquid', 'bybit'];
+
+// Requests per window, roughly the real venues' default weight budgets
+const RATE_LIMITS: Record<Leg, number> = { hyperliquid: 1200, bybit: 600 };
+const RATE_WINDOW_MS = 60000;
+
+const VENUE_ERRORS: Record<Leg, string> = {
+  hyperliquid: 'HyperLiquid API unreachable (ECONNREFUSED api.hyperliquid.xyz:443)',
+  bybit: 'Bybit API unreachable (ETIMEDOUT api.bybit.com:443)'
+};
+
+export interface ExchangeMonitor {
+  // Called per market tick; records quotes for every venue that is up
+  recordQuotes: (failures: FailureSettings) => void;
+  statuses: (failures: FailureSettings) => ExchangeStatus[];
+}
+
+export function createExchangeMonitor(): ExchangeMonitor {
+  const lastQuoteAt: Record<Leg, number | null> = { hyperliquid: null, bybit: null };
+
+  return {
+    recordQuotes: (failures) => {
+      const now = Date.now();
+      VENUES.forEach(venue => {
+        if (!failures.exchangesDown.includes(venue)) {
+          lastQuoteAt[venue] = now;
+        }
+      });
+    },
+
+    statuses: (failures) => {
+      const now = Date.now();
+      const windowEnd = Math.ceil(now / RATE_WINDOW_MS) * RATE_WINDOW_MS;
+
+      return VENUES.map((venue): ExchangeStatus => {
+        const down = failures.exchangesDown.includes(venue);
+        const limit = RATE_LIMITS[venue];
+        // A little jitter so the headroom moves like real request traffic
+        const usage = Math.min(1, Math.max(0, failures.rateLimitUsage + (Math.random() - 0.5) * 0.05));
+        const quoteAt = lastQuoteAt[venue];
+
+        return {
+          exchange: venue,
+          rest: { connected: !down, latency_ms: down ? null : Math.round(40 + Math.random() * 60) },
+          websocket: { connected: !down },
+          last_quote_at: quoteAt ? new Date(quoteAt).toISOString() : null,
+          rate_limit: down ? null : { used: Math.round(usage * limit), limit, reset_at: new Date(windowEnd).toISOString() },
+          error: down ? VENUE_ERRORS[venue] : null
+        };
+      });
+    }
+  };
+}
@@ -0,0 +1,232 @@
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import type { ExecutionUpdate, ServerMessage } from '../src/lib/websocket/protocol';
+import type { Topic } from '../src/lib/websocket/topics';
+import type { ExchangeMonitor } from './exchanges';
+import type { Market, MarketTick } from './market';
+import type { TradingEngine } from './trading';
+import { delay, randomLatency, type FailureSettings } from './settings';
+
+// The WebSocket half of the contract: the same subscribe/unsubscribe frames, sequenced
+// arbitrage deltas and resync handling that the dashboard's provider speaks.
+
+interface Client {
+  socket: WebSocket;
+  topics: Set<Topic>;
+  closedDays: number;
+  // Clients that asked for deltas get arbitrage_delta per tick; others a full snapshot
+  deltas: boolean;
+  // Sends are chained so injected latency delays frames without reordering them
+  queue: Promise<void>;
+}
+
+export interface FeedServer {
+  publishTick: (tick: MarketTick) => void;
+  publishSnapshot: () => void;
+  // Push positions, balances and fills to whoever watches them
+  publishTrading: (includeClosed: boolean) => void;
+  publishExchangeStatus: () => void;
+  // Per-leg updates of one open or close; also kept so new subscribers get recent history
+  publishExecutions: (updates: ExecutionUpdate[]) => void;
+  dropAll: (downtimeMs: number) => void;
+  clientCount: () => number;
+  close: () => void;
+}
+
+interface FeedServerOptions {
+  port: number;
+  market: Market;
+  trading: TradingEngine;
+  exchanges: ExchangeMonitor;
+  getFailures: () => FailureSettings;
+}
+
+const timestamp = () => new Date().toISOString();
+
+const MAX_EXECUTION_HISTORY = 200;
+
+export function createFeedServer({ port, market, trading, exchanges, getFailures }: FeedServerOptions): FeedServer {
+  const server = new WebSocketServer({ port });
+  const clients = new Set<Client>();
+  let seq = 0;
+  let downUntil = 0;
+  let executionHistory: ExecutionUpdate[] = [];
+
+  const send = (client: Client, message: ServerMessage) => {
+    const latency = randomLatency(getFailures());
+    client.queue = client.queue
+      .then(() => delay(latency))
+      .then(() => {
+        if (client.socket.readyState === WebSocket.OPEN) {
+          client.socket.send(JSON.stringify(message));
+        }
+      });
+  };
+
+  const snapshotMessage = (): ServerMessage => ({ type: 'arbitrage_data', seq, data: market.snapshot(), timestamp: timestamp() });
+
+  const sendTopic = (client: Client, topic: Topic) => {
+    switch (topic) {
+      case 'arbitrage_data':
+        send(client, snapshotMessage());
+        break;
+      case 'active_positions':
+        send(client, { type: 'active_positions', data: { active_positions: trading.activePositions() }, timestamp: timestamp() });
+        break;
+      case 'closed_positions':
+        send(client, { type: 'closed_positions', data: { closed_positions: trading.closedTrades(client.closedDays) }, timestamp: timestamp() });
+        break;
+      case 'account_balances':
+        send(client, { type: 'account_balances', data: { balances: trading.balances() }, timestamp: timestamp() });
+        break;
+      case 'exchange_status':
+        exchanges.statuses(getFailures()).forEach(status => {
+          send(client, { type: 'exchange_status', data: status, timestamp: timestamp() });
+        });
+        break;
+      case 'executions':
+        send(client, { type: 'execution_updates', data: { updates: executionHistory }, timestamp: timestamp() });
+        break;
+    }
+  };
+
+  const handleFrame = (client: Client, raw: RawData) => {
+    let frame: Record<string, unknown>;
+    try {
+      frame = JSON.parse(raw.toString());
+    } catch {
+      send(client, { type: 'error', message: 'Frame is not valid JSON' });
+      return;
+    }
+
+    switch (frame.type) {
+      case 'ping':
+        send(client, { type: 'pong', timestamp: typeof frame.timestamp === 'string' ? frame.timestamp : timestamp() });
+        break;
+      case 'subscribe_arbitrage_data':
+        client.deltas = frame.deltas === true;
+        client.topics.add('arbitrage_data');
+        sendTopic(client, 'arbitrage_data');
+        break;
+      case 'resync_arbitrage_data':
+        console.log(`🔁 Mock feed: Resync requested (client last seq ${String(frame.last_seq)}, current ${seq})`);
+        sendTopic(client, 'arbitrage_data');
+        break;
+      case 'get_active_positions':
+        client.topics.add('active_positions');
+        sendTopic(client, 'active_positions');
+        break;
+      case 'get_closed_positions':
+        client.closedDays = typeof frame.days === 'number' && frame.days > 0 ? frame.days : 7;
+        client.topics.add('closed_positions');
+        sendTopic(client, 'closed_positions');
+        break;
+      case 'get_account_balances':
+        client.topics.add('account_balances');
+        sendTopic(client, 'account_balances');
+        break;
+      case 'subscribe_exchange_status':
+        client.topics.add('exchange_status');
+        sendTopic(client, 'exchange_status');
+        break;
+      case 'subscribe_executions':
+        client.topics.add('executions');
+        sendTopic(client, 'executions');
+        break;
+      case 'unsubscribe_arbitrage_data':
+      case 'unsubscribe_active_positions':
+      case 'unsubscribe_closed_positions':
+      case 'unsubscribe_account_balances':
+      case 'unsubscribe_exchange_status':
+      case 'unsubscribe_executions':
+        client.topics.delete(frame.type.replace('unsubscribe_', '') as Topic);
+        break;
+      default:
+        send(client, { type: 'error', message: `Unknown request type "${String(frame.type)}"` });
+    }
+  };
+
+  server.on('connection', (socket) => {
+    if (Date.now() < downUntil) {
+      // 1013 "try again later", like a backend that is still restarting
+      socket.close(1013, 'Mock backend restarting');
+      return;
+    }
+
+    const client: Client = { socket, topics: new Set(), closedDays: 7, deltas: false, queue: Promise.resolve() };
+    clients.add(client);
+    console.log(`🔌 Mock feed: Client connected (${clients.size} total)`);
+    send(client, { type: 'connection', message: 'Connected to mock arbitrage backend', timestamp: timestamp() });
+
+    socket.on('message', (raw) => handleFrame(client, raw));
+    socket.on('close', () => {
+      clients.delete(client);
+      console.log(`🔌 Mock feed: Client disconnected (${clients.size} total)`);
+    });
+  });
+
+  const publish = (topic: Topic) => {
+    clients.forEach(client => {
+      if (client.topics.has(topic)) {
+        sendTopic(client, topic);
+      }
+    });
+  };
+
+  return {
+    publishTick: (tick) => {
+      if (tick.upserts.length === 0 && tick.removals.length === 0) return;
+      seq++;
+      const snapshot = market.snapshot();
+      clients.forEach(client => {
+        if (!client.topics.has('arbitrage_data')) return;
+        if (!client.deltas) {
+          send(client, { type: 'arbitrage_data', seq, data: snapshot, timestamp: timestamp() });
+          return;
+        }
+        send(client, {
+          type: 'arbitrage_delta',
+          seq,
+          data: { upserts: tick.upserts, removals: tick.removals, metadata: snapshot.metadata },
+          timestamp: timestamp()
+        });
+      });
+    },
+
+    publishSnapshot: () => publish('arbitrage_data'),
+
+    publishTrading: (includeClosed) => {
+      publish('active_positions');
+      publish('account_balances');
+      if (includeClosed) {
+        publish('closed_positions');
+      }
+    },
+
+    publishExchangeStatus: () => publish('exchange_status'),
+
+    publishExecutions: (updates) => {
+      if (updates.length === 0) return;
+      executionHistory = [...executionHistory, ...updates].slice(-MAX_EXECUTION_HISTORY);
+      clients.forEach(client => {
+        if (client.topics.has('executions')) {
+          send(client, { type: 'execution_updates', data: { updates }, timestamp: timestamp() });
+        }
+      });
+    },
+
+    dropAll: (downtimeMs) => {
+      console.warn(`💥 Mock feed: Dropping ${clients.size} client(s), refusing connections for ${downtimeMs}ms`);
+      downUntil = Date.now() + downtimeMs;
+      // terminate() skips the close handshake, so clients see an abnormal closure like a crash
+      clients.forEach(client => client.socket.terminate());
+      clients.clear();
+    },
+
+    clientCount: () => clients.size,
+
+    close: () => {
+      clients.forEach(client => client.socket.terminate());
+      server.close();
+    }
+  };
+}
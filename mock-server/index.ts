@@ -0,0 +1,140 @@
+import { createApiServer } from './apiServer';
+import { createExchangeMonitor } from './exchanges';
+import { createFeedServer } from './feedServer';
+import { createMarket } from './market';
+import { createTradingEngine } from './trading';
+import {
+  applyFailurePatch,
+  defaultSettings,
+  loadScenario,
+  type FailurePatch,
+  type FailureSettings,
+  type Scenario
+} from './settings';
+
+// Local stand-in for the trading backend: REST on :8080 and the feed on :8765 by default.
+//
+//   npm run mock-server
+//   npm run mock-server -- --scenario mock-server/scenarios/one-leg-rejects.json
+//   npm run mock-server -- --http-port 9080 --ws-port 9765
+
+const readArg = (name: string) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const scenarioPath = readArg('scenario');
+const scenario: Scenario = scenarioPath ? loadScenario(scenarioPath) : { name: 'default' };
+const settings = {
+  ...defaultSettings,
+  httpPort: Number(readArg('http-port') ?? defaultSettings.httpPort),
+  wsPort: Number(readArg('ws-port') ?? defaultSettings.wsPort)
+};
+
+const initialFailures = applyFailurePatch(settings.failures, scenario.failures ?? {});
+let failures: FailureSettings = initialFailures;
+const getFailures = () => failures;
+const patchFailures = (patch: FailurePatch) => {
+  failures = applyFailurePatch(failures, patch);
+  return failures;
+};
+
+const market = createMarket();
+// Leg updates go out on the feed as they happen; trades only start once both servers are up
+const trading = createTradingEngine(market, updates => feed.publishExecutions(updates));
+const exchanges = createExchangeMonitor();
+const feed = createFeedServer({ port: settings.wsPort, market, trading, exchanges, getFailures });
+const api = createApiServer({ port: settings.httpPort, trading, feed, scenarioName: scenario.name, apiToken: settings.apiToken, getFailures, patchFailures });
+
+// Market ticks drive deltas, funding accrual and position marks
+let lastTick = Date.now();
+let lastSnapshot = Date.now();
+let lastTradingPush = Date.now();
+const tickInterval = setInterval(() => {
+  const now = Date.now();
+  const elapsed = now - lastTick;
+  lastTick = now;
+
+  feed.publishTick(market.tick(elapsed));
+  exchanges.recordQuotes(failures);
+  trading.accrueFunding(elapsed);
+
+  if (now - lastSnapshot >= settings.snapshotEveryMs) {
+    lastSnapshot = now;
+    feed.publishSnapshot();
+  }
+  // Positions and balances move with the marks; refresh them about as often as the real backend
+  if (now - lastTradingPush >= 15000) {
+    lastTradingPush = now;
+    feed.publishTrading(false);
+  }
+}, settings.tickMs);
+
+// Venue health goes out on a fixed cadence, and right away when a venue goes down or recovers
+let lastExchangesDown = failures.exchangesDown.join(',');
+const exchangeStatusInterval = setInterval(() => feed.publishExchangeStatus(), settings.exchangeStatusEveryMs);
+const exchangeChangeInterval = setInterval(() => {
+  const down = failures.exchangesDown.join(',');
+  if (down !== lastExchangesDown) {
+    lastExchangesDown = down;
+    feed.publishExchangeStatus();
+  }
+}, 1000);
+
+// Periodic disconnects are re-read every second so scenario changes apply without a restart
+let lastDisconnect = Date.now();
+const disconnectInterval = setInterval(() => {
+  const { everyMs, downtimeMs } = failures.disconnect;
+  if (everyMs > 0 && Date.now() - lastDisconnect >= everyMs) {
+    lastDisconnect = Date.now();
+    feed.dropAll(downtimeMs);
+  }
+}, 1000);
+
+// Scripted timeline from the scenario file
+const timelineTimers: NodeJS.Timeout[] = [];
+const runTimeline = () => {
+  const steps = scenario.timeline ?? [];
+  steps.forEach(step => {
+    timelineTimers.push(setTimeout(() => {
+      if (step.reset) {
+        failures = initialFailures;
+        console.log('🎬 Mock scenario: Reset failure settings');
+      }
+      if (step.failures) {
+        patchFailures(step.failures);
+        console.log(`🎬 Mock scenario: At ${step.atMs}ms applied`, JSON.stringify(step.failures));
+      }
+      if (step.disconnect) {
+        feed.dropAll(step.disconnect.downtimeMs);
+      }
+    }, step.atMs));
+  });
+
+  const lastStep = Math.max(0, ...steps.map(step => step.atMs));
+  if (scenario.loop && steps.length > 0) {
+    timelineTimers.push(setTimeout(runTimeline, lastStep + 1));
+  }
+};
+runTimeline();
+
+console.log(`🚀 Mock backend "${scenario.name}" running`);
+console.log(`   REST      http://localhost:${settings.httpPort}`);
+console.log(`   WebSocket ws://localhost:${settings.wsPort}`);
+if (scenario.description) {
+  console.log(`   ${scenario.description}`);
+}
+
+const shutdown = () => {
+  console.log('👋 Mock backend shutting down');
+  clearInterval(tickInterval);
+  clearInterval(disconnectInterval);
+  clearInterval(exchangeStatusInterval);
+  clearInterval(exchangeChangeInterval);
+  timelineTimers.forEach(clearTimeout);
+  feed.close();
+  api.close();
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
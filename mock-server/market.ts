@@ -0,0 +1,176 @@
+import type { ArbitrageData, ArbitragePair } from '../src/lib/websocket/protocol';
+
+// Simulated HyperLiquid perp and Bybit spot books. Mid prices follow a random walk, Bybit trades
+// at a small mean-reverting basis to HyperLiquid, and hourly funding rates drift around a per-pair
+// mean with occasional regime flips, which is what makes the dashboard interesting to watch.
+
+interface PairSeed {
+  base: string;
+  price: number;
+  // Mean hourly funding rate as a decimal (0.0000125 = 0.00125%/h = ~11% APY)
+  funding: number;
+  volume: number;
+  onBybit: boolean;
+  // Rotating pairs get listed and delisted now and then
+  rotating?: boolean;
+}
+
+const SEEDS: PairSeed[] = [
+  { base: 'BTC', price: 65000, funding: 0.0000125, volume: 1_200_000_000, onBybit: true },
+  { base: 'ETH', price: 3200, funding: 0.0000110, volume: 640_000_000, onBybit: true },
+  { base: 'SOL', price: 150, funding: 0.0000180, volume: 210_000_000, onBybit: true },
+  { base: 'DOGE', price: 0.15, funding: 0.0000250, volume: 95_000_000, onBybit: true },
+  { base: 'AVAX', price: 35, funding: 0.0000090, volume: 41_000_000, onBybit: true },
+  { base: 'LINK', price: 15, funding: 0.0000070, volume: 33_000_000, onBybit: true },
+  { base: 'ARB', price: 1.1, funding: 0.0000200, volume: 28_000_000, onBybit: true },
+  { base: 'OP', price: 2.3, funding: 0.0000150, volume: 22_000_000, onBybit: true },
+  { base: 'SUI', price: 1.2, funding: 0.0000300, volume: 57_000_000, onBybit: true },
+  { base: 'WIF', price: 2.5, funding: 0.0000450, volume: 64_000_000, onBybit: true },
+  { base: 'TIA', price: 9, funding: -0.0000050, volume: 18_000_000, onBybit: true },
+  { base: 'HYPE', price: 22, funding: 0.0000350, volume: 120_000_000, onBybit: false },
+  { base: 'kPEPE', price: 0.012, funding: 0.0000400, volume: 45_000_000, onBybit: false },
+  { base: 'JUP', price: 0.9, funding: 0.0000220, volume: 12_000_000, onBybit: true, rotating: true },
+  { base: 'ENA', price: 0.6, funding: 0.0000500, volume: 26_000_000, onBybit: true, rotating: true }
+];
+
+// Per-second volatility of the mid price
+const PRICE_VOLATILITY = 0.0004;
+const BASIS_VOLATILITY = 0.00005;
+const FUNDING_REVERSION = 0.02;
+const FUNDING_VOLATILITY = 0.0000003;
+// Chance per hour that a pair's funding flips sign, like a squeeze
+const REGIME_FLIP_PER_HOUR = 0.5;
+const ROTATION_PER_HOUR = 6;
+
+interface PairState {
+  seed: PairSeed;
+  mid: number;
+  basis: number;
+  funding: number;
+  fundingMean: number;
+  listed: boolean;
+  quote: ArbitragePair;
+}
+
+export interface MarketTick {
+  upserts: ArbitragePair[];
+  removals: string[];
+}
+
+export interface Market {
+  tick: (elapsedMs: number) => MarketTick;
+  snapshot: () => ArbitrageData;
+  getPair: (pair: string) => ArbitragePair | null;
+}
+
+// Standard normal sample (Box-Muller)
+const gaussian = () => {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+const round = (value: number) => Number(value.toPrecision(6));
+
+const nextFundingTime = () => {
+  const hour = 60 * 60 * 1000;
+  return Math.ceil(Date.now() / hour) * hour;
+};
+
+function quoteFor(state: PairState): ArbitragePair {
+  const { seed, mid, basis, funding } = state;
+  const hlHalfSpread = mid * 0.0001;
+  const bybitMid = mid * (1 + basis);
+  const bybitHalfSpread = bybitMid * 0.00015;
+  const volumeNoise = () => seed.volume * (0.9 + Math.random() * 0.2);
+
+  return {
+    pair: `${seed.base}/USDT`,
+    funding_rate: funding,
+    annual_funding_rate: funding * 24 * 365 * 100,
+    hyperliquid: {
+      bid: round(mid - hlHalfSpread),
+      ask: round(mid + hlHalfSpread),
+      volume: Math.round(volumeNoise()),
+      bid_size: round((20000 + Math.random() * 80000) / mid),
+      ask_size: round((20000 + Math.random() * 80000) / mid)
+    },
+    bybit: {
+      bid: round(bybitMid - bybitHalfSpread),
+      ask: round(bybitMid + bybitHalfSpread),
+      volume: seed.onBybit ? Math.round(volumeNoise() * 0.6) : 0,
+      available: seed.onBybit
+    },
+    next_funding_time: nextFundingTime()
+  };
+}
+
+export function createMarket(): Market {
+  const states: PairState[] = SEEDS.map(seed => {
+    const state: PairState = {
+      seed,
+      mid: seed.price,
+      basis: (Math.random() - 0.5) * 0.001,
+      funding: seed.funding,
+      fundingMean: seed.funding,
+      listed: true,
+      quote: null as unknown as ArbitragePair
+    };
+    state.quote = quoteFor(state);
+    return state;
+  });
+
+  const listed = () => states.filter(state => state.listed);
+
+  return {
+    tick: (elapsedMs) => {
+      const seconds = elapsedMs / 1000;
+      const hours = seconds / 3600;
+      const upserts: ArbitragePair[] = [];
+      const removals: string[] = [];
+
+      states.forEach(state => {
+        if (state.seed.rotating && Math.random() < (ROTATION_PER_HOUR / 2) * hours) {
+          state.listed = !state.listed;
+          if (!state.listed) {
+            removals.push(state.quote.pair);
+            return;
+          }
+        }
+        if (!state.listed) return;
+
+        state.mid *= Math.exp(PRICE_VOLATILITY * Math.sqrt(seconds) * gaussian());
+        state.basis += -0.05 * state.basis * seconds + BASIS_VOLATILITY * Math.sqrt(seconds) * gaussian();
+
+        if (Math.random() < REGIME_FLIP_PER_HOUR * hours) {
+          state.fundingMean = -state.fundingMean * (0.5 + Math.random());
+        }
+        state.funding += FUNDING_REVERSION * (state.fundingMean - state.funding) * seconds
+          + FUNDING_VOLATILITY * Math.sqrt(seconds) * gaussian();
+
+        // Not every pair changes every tick, so deltas stay small
+        if (Math.random() < 0.7) {
+          state.quote = quoteFor(state);
+          upserts.push(state.quote);
+        }
+      });
+
+      return { upserts, removals };
+    },
+
+    snapshot: () => {
+      const pairs = listed().map(state => state.quote);
+      return {
+        pairs,
+        metadata: {
+          last_update: new Date().toISOString(),
+          hyperliquid_pairs_count: pairs.length,
+          bybit_pairs_count: pairs.filter(pair => pair.bybit.available).length,
+          combined_pairs_count: pairs.length
+        }
+      };
+    },
+
+    getPair: (pair) => listed().find(state => state.quote.pair === pair)?.quote ?? null
+  };
+}
@@ -0,0 +1,131 @@
+import { readFileSync } from 'node:fs';
+
+// Failure knobs. All of them can be changed at runtime via POST /mock/scenario
+// or scripted over time with a scenario file (see mock-server/scenarios).
+
+export type Leg = 'bybit' | 'hyperliquid';
+
+export interface FailureSettings {
+  // Chance (0-1) that an open or close fills one leg and rejects the other
+  oneLegRejectRate: number;
+  rejectLeg: Leg | 'random';
+  // Chance (0-1) that an open fills only part of the requested size, on both legs
+  partialFillRate: number;
+  // Venues reported unreachable over REST and WebSocket: their last quote time stops advancing and their legs reject
+  exchangesDown: Leg[];
+  // Share (0-1) of each venue's rate-limit window reported as used
+  rateLimitUsage: number;
+  // Added before every HTTP response and WebSocket push
+  latency: {
+    baseMs: number;
+    jitterMs: number;
+    // Chance (0-1) that a single response is delayed by spikeMs on top
+    spikeRate: number;
+    spikeMs: number;
+  };
+  // Drop every WebSocket client each `everyMs` (0 = never) and refuse reconnects for `downtimeMs`
+  disconnect: {
+    everyMs: number;
+    downtimeMs: number;
+  };
+}
+
+export interface MockSettings {
+  httpPort: number;
+  wsPort: number;
+  // Bearer token required by POST /credentials
+  apiToken: string;
+  // How often quotes and funding rates move; every tick is pushed as an arbitrage_delta
+  tickMs: number;
+  // exchange_status reports per venue, on top of one whenever a venue goes down or recovers
+  exchangeStatusEveryMs: number;
+  // Full arbitrage_data snapshots on top of the deltas, like the real backend's minute refresh
+  snapshotEveryMs: number;
+  failures: FailureSettings;
+}
+
+export type FailurePatch = Partial<Omit<FailureSettings, 'latency' | 'disconnect'>> & {
+  latency?: Partial<FailureSettings['latency']>;
+  disconnect?: Partial<FailureSettings['disconnect']>;
+};
+
+export interface TimelineStep {
+  // Milliseconds after the server started
+  atMs: number;
+  failures?: FailurePatch;
+  // Drop all WebSocket clients right now, refusing reconnects for downtimeMs
+  disconnect?: { downtimeMs: number };
+  // Go back to the scenario's starting failures
+  reset?: boolean;
+}
+
+export interface Scenario {
+  name: string;
+  description?: string;
+  failures?: FailurePatch;
+  timeline?: TimelineStep[];
+  // Restart the timeline after its last step
+  loop?: boolean;
+}
+
+export const defaultFailures: FailureSettings = {
+  oneLegRejectRate: 0,
+  rejectLeg: 'random',
+  partialFillRate: 0,
+  exchangesDown: [],
+  rateLimitUsage: 0.2,
+  latency: {
+    baseMs: 20,
+    jitterMs: 30,
+    spikeRate: 0,
+    spikeMs: 3000
+  },
+  disconnect: {
+    everyMs: 0,
+    downtimeMs: 5000
+  }
+};
+
+const readPort = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 && parsed < 65536 ? parsed : fallback;
+};
+
+export const defaultSettings: MockSettings = {
+  httpPort: readPort(process.env.MOCK_HTTP_PORT, 8080),
+  wsPort: readPort(process.env.MOCK_WS_PORT, 8765),
+  apiToken: process.env.MOCK_API_TOKEN || 'mock-token',
+  tickMs: 2000,
+  exchangeStatusEveryMs: 5000,
+  snapshotEveryMs: 60000,
+  failures: defaultFailures
+};
+
+export function applyFailurePatch(current: FailureSettings, patch: FailurePatch): FailureSettings {
+  return {
+    ...current,
+    ...patch,
+    latency: { ...current.latency, ...patch.latency },
+    disconnect: { ...current.disconnect, ...patch.disconnect }
+  };
+}
+
+export function loadScenario(path: string): Scenario {
+  const scenario = JSON.parse(readFileSync(path, 'utf8')) as Scenario;
+  if (!scenario || typeof scenario.name !== 'string') {
+    throw new Error(`Scenario ${path} has no name`);
+  }
+  (scenario.timeline ?? []).forEach((step, i) => {
+    if (typeof step.atMs !== 'number' || step.atMs < 0) {
+      throw new Error(`Scenario ${path}: timeline[${i}].atMs must be a non-negative number`);
+    }
+  });
+  return scenario;
+}
+
+export const randomLatency = ({ latency }: FailureSettings) => {
+  const spike = Math.random() < latency.spikeRate ? latency.spikeMs : 0;
+  return latency.baseMs + Math.random() * latency.jitterMs + spike;
+};
+
+export const delay = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
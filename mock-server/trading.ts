@@ -0,0 +1,412 @@
+import type { AccountBalances, ClosedTrade, ExecutionUpdate, Position } from '../src/lib/websocket/protocol';
+import type { Market } from './market';
+import type { FailureSettings, Leg } from './settings';
+
+// Simulated execution for the delta-neutral pair trade: buy spot on Bybit, short the perp on
+// HyperLiquid. Legs fill at the current touch, pay taker/maker fees, and the short collects
+// (or pays) hourly funding while open.
+
+const BYBIT_FEE_RATE = 0.001;
+const HYPERLIQUID_FEE_RATE = 0.00015;
+const DEFAULT_LEVERAGE = 3;
+const MAX_LEVERAGE = 20;
+const MAINTENANCE_MARGIN = 0.005;
+const STARTING_BALANCE = 10000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export class MockTradingError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'MockTradingError';
+  }
+}
+
+interface SimPosition {
+  symbol: string;
+  pair: string;
+  openedAt: Date;
+  entryFundingRate: number;
+  bybit: { qty: number; entryPrice: number; exitPrice: number; realized: number; fees: number };
+  hyperliquid: { size: number; entryPrice: number; exitPrice: number; realized: number; fees: number; leverage: number };
+  fundingEarned: number;
+  // Idempotency keys of the opens and closes that filled on this position, newest last
+  clientOrderIds: string[];
+}
+
+// Receives the per-leg updates of one open or close: both legs submitted, then each filled or rejected
+export type ExecutionListener = (updates: ExecutionUpdate[]) => void;
+
+export interface TradingEngine {
+  open: (pair: string, amount: number, failures: FailureSettings, clientOrderId?: string | null) => Position;
+  close: (pair: string, percentage: number, failures: FailureSettings, clientOrderId?: string | null) => { position: Position | null; realizedPnl: number };
+  setLeverage: (pair: string, leverage: number, failures: FailureSettings) => Position;
+  accrueFunding: (elapsedMs: number) => void;
+  activePositions: () => Position[];
+  closedTrades: (days: number, limit?: number) => ClosedTrade[];
+  balances: () => AccountBalances;
+}
+
+const assertVenueReachable = (failures: FailureSettings) => {
+  if (failures.exchangesDown.length > 1) {
+    throw new MockTradingError(503, 'EXCHANGE_UNAVAILABLE', 'Neither exchange is reachable; nothing was sent', {
+      exchanges_down: failures.exchangesDown
+    });
+  }
+};
+
+const symbolOf = (pair: string) => pair.split('/')[0];
+
+const MAX_CLIENT_ORDER_IDS = 20;
+
+const recordClientOrderId = (position: SimPosition, clientOrderId: string | null | undefined) => {
+  if (!clientOrderId) return;
+  position.clientOrderIds = [...position.clientOrderIds, clientOrderId].slice(-MAX_CLIENT_ORDER_IDS);
+};
+
+const orderId = (exchange: Leg) => `${exchange === 'bybit' ? 'BB' : 'HL'}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const OPEN_SIDES: Record<Leg, ExecutionUpdate['side']> = { bybit: 'buy', hyperliquid: 'sell' };
+const CLOSE_SIDES: Record<Leg, ExecutionUpdate['side']> = { bybit: 'sell', hyperliquid: 'buy' };
+
+const rejectReason = (leg: Leg, failures: FailureSettings) =>
+  failures.exchangesDown.includes(leg) ? `${leg} is unreachable` : 'Rejected by exchange';
+
+// Collects one request's leg updates; requests sent without an idempotency key get a backend id
+const startExecution = (
+  action: ExecutionUpdate['action'],
+  symbol: string,
+  requested: number,
+  clientOrderId: string | null | undefined
+) => {
+  const id = clientOrderId || `srv-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  const sides = action === 'open' ? OPEN_SIDES : CLOSE_SIDES;
+  const updates: ExecutionUpdate[] = [];
+  const push = (leg: Leg, status: ExecutionUpdate['status'], fill: Partial<ExecutionUpdate> = {}) => {
+    updates.push({ client_order_id: id, action, symbol, requested, leg, side: sides[leg], status, time: new Date().toISOString(), ...fill });
+  };
+  return { updates, push };
+};
+
+const pickRejectedLeg = (failures: FailureSettings): Leg | null => {
+  // An unreachable venue rejects its leg every time
+  if (failures.exchangesDown.length > 0) return failures.exchangesDown[0];
+  if (Math.random() >= failures.oneLegRejectRate) return null;
+  if (failures.rejectLeg !== 'random') return failures.rejectLeg;
+  return Math.random() < 0.5 ? 'bybit' : 'hyperliquid';
+};
+
+export function createTradingEngine(market: Market, onExecution?: ExecutionListener): TradingEngine {
+  const positions = new Map<string, SimPosition>();
+  const fills: ClosedTrade[] = [];
+  let bybitCash = STARTING_BALANCE;
+  let hyperliquidCash = STARTING_BALANCE;
+
+  const quoteFor = (pair: string) => {
+    const quote = market.getPair(pair);
+    if (!quote) {
+      throw new MockTradingError(404, 'UNKNOWN_PAIR', `Pair ${pair} is not listed`);
+    }
+    return quote;
+  };
+
+  const recordFill = (fill: Omit<ClosedTrade, 'execution_time' | 'order_id'>) => {
+    fills.push({ ...fill, execution_time: new Date().toISOString(), order_id: orderId(fill.exchange as Leg) });
+  };
+
+  const toPosition = (position: SimPosition): Position => {
+    const quote = market.getPair(position.pair);
+    const { bybit, hyperliquid } = position;
+    const bybitMark = quote?.bybit.bid ?? bybit.entryPrice;
+    const hlMark = quote?.hyperliquid.ask ?? hyperliquid.entryPrice;
+
+    const bybitUnrealized = bybit.qty * (bybitMark - bybit.entryPrice);
+    const hlUnrealized = hyperliquid.size * (hyperliquid.entryPrice - hlMark);
+    const liquidationPrice = hyperliquid.size > 0
+      ? hyperliquid.entryPrice * (1 + 1 / hyperliquid.leverage - MAINTENANCE_MARGIN)
+      : 0;
+    const fees = bybit.fees + hyperliquid.fees;
+    const oneLegged = bybit.qty === 0 || hyperliquid.size === 0;
+
+    return {
+      symbol: position.symbol,
+      usdt_amount: bybit.qty * bybit.entryPrice || hyperliquid.size * hyperliquid.entryPrice,
+      status: oneLegged ? 'partial' : 'active',
+      entry_time: position.openedAt.toISOString(),
+      exit_time: null,
+      entry_funding_rate: position.entryFundingRate,
+      client_order_ids: position.clientOrderIds,
+      bybit: {
+        entry_price: bybit.entryPrice,
+        exit_price: bybit.exitPrice,
+        amount: bybit.qty,
+        unrealized_pnl: bybitUnrealized,
+        realized_pnl: bybit.realized,
+        total_fees: bybit.fees
+      },
+      hyperliquid: {
+        entry_price: hyperliquid.entryPrice,
+        exit_price: hyperliquid.exitPrice,
+        size: hyperliquid.size,
+        unrealized_pnl: hlUnrealized,
+        realized_pnl: hyperliquid.realized,
+        liquidation_price: liquidationPrice,
+        margin_used: (hyperliquid.size * hlMark) / hyperliquid.leverage,
+        leverage: hyperliquid.leverage,
+        total_fees: hyperliquid.fees,
+        liquidation_risk_pct: liquidationPrice > 0 ? ((liquidationPrice - hlMark) / hlMark) * 100 : 0
+      },
+      total: {
+        unrealized_pnl: bybitUnrealized + hlUnrealized,
+        realized_pnl: bybit.realized + hyperliquid.realized,
+        funding_earned: position.fundingEarned,
+        net_pnl: bybitUnrealized + hlUnrealized + bybit.realized + hyperliquid.realized + position.fundingEarned - fees
+      }
+    };
+  };
+
+  const balances = (): AccountBalances => {
+    let holdings = 0;
+    let hlUnrealized = 0;
+    let margin = 0;
+    positions.forEach(position => {
+      const view = toPosition(position);
+      holdings += position.bybit.qty * position.bybit.entryPrice + view.bybit.unrealized_pnl;
+      hlUnrealized += view.hyperliquid.unrealized_pnl;
+      margin += view.hyperliquid.margin_used;
+    });
+    const hlEquity = hyperliquidCash + hlUnrealized;
+
+    return {
+      bybit: { total: bybitCash + holdings, free: bybitCash, used: holdings },
+      hyperliquid: { total: hlEquity, free: Math.max(0, hlEquity - margin), used: margin }
+    };
+  };
+
+  return {
+    open: (pair, amount, failures, clientOrderId) => {
+      if (!Number.isFinite(amount) || amount <= 0) {
+        throw new MockTradingError(400, 'INVALID_AMOUNT', 'Amount must be a positive number');
+      }
+      const quote = quoteFor(pair);
+      if (!quote.bybit.available) {
+        throw new MockTradingError(400, 'PAIR_NOT_ON_BYBIT', `${pair} is not tradable on Bybit spot`);
+      }
+      assertVenueReachable(failures);
+
+      const requestedQty = amount / quote.bybit.ask;
+      const available = balances();
+      const bybitCost = amount * (1 + BYBIT_FEE_RATE);
+      const hlMargin = (requestedQty * quote.hyperliquid.bid) / DEFAULT_LEVERAGE;
+      if (bybitCost > available.bybit.free || hlMargin > available.hyperliquid.free) {
+        throw new MockTradingError(400, 'INSUFFICIENT_BALANCE', 'Insufficient free balance for both legs', {
+          required: { bybit: bybitCost, hyperliquid: hlMargin },
+          available: { bybit: available.bybit.free, hyperliquid: available.hyperliquid.free }
+        });
+      }
+
+      const symbol = symbolOf(pair);
+      const position = positions.get(symbol) ?? {
+        symbol,
+        pair,
+        openedAt: new Date(),
+        entryFundingRate: quote.funding_rate,
+        bybit: { qty: 0, entryPrice: 0, exitPrice: 0, realized: 0, fees: 0 },
+        hyperliquid: { size: 0, entryPrice: 0, exitPrice: 0, realized: 0, fees: 0, leverage: DEFAULT_LEVERAGE },
+        fundingEarned: 0,
+        clientOrderIds: []
+      };
+      const execution = startExecution('open', symbol, amount, clientOrderId);
+      execution.push('bybit', 'submitted');
+      execution.push('hyperliquid', 'submitted');
+      const rejected = pickRejectedLeg(failures);
+      // Thin books fill somewhere between 40% and 90% of the order
+      const filledFraction = Math.random() < failures.partialFillRate ? 0.4 + Math.random() * 0.5 : 1;
+      const qty = requestedQty * filledFraction;
+
+      if (rejected !== 'bybit') {
+        const price = quote.bybit.ask;
+        const fee = qty * price * BYBIT_FEE_RATE;
+        const leg = position.bybit;
+        leg.entryPrice = (leg.entryPrice * leg.qty + price * qty) / (leg.qty + qty);
+        leg.qty += qty;
+        leg.fees += fee;
+        bybitCash -= qty * price + fee;
+        recordFill({ symbol, side: 'buy', price, quantity: qty, fee, exchange: 'bybit' });
+        execution.push('bybit', 'filled', { price, quantity: qty, fee });
+      } else {
+        execution.push('bybit', 'rejected', { error: rejectReason('bybit', failures) });
+      }
+      if (rejected !== 'hyperliquid') {
+        const price = quote.hyperliquid.bid;
+        const fee = qty * price * HYPERLIQUID_FEE_RATE;
+        const leg = position.hyperliquid;
+        leg.entryPrice = (leg.entryPrice * leg.size + price * qty) / (leg.size + qty);
+        leg.size += qty;
+        leg.fees += fee;
+        hyperliquidCash -= fee;
+        recordFill({ symbol, side: 'sell', price, quantity: qty, fee, exchange: 'hyperliquid' });
+        execution.push('hyperliquid', 'filled', { price, quantity: qty, fee });
+      } else {
+        execution.push('hyperliquid', 'rejected', { error: rejectReason('hyperliquid', failures) });
+      }
+
+      if (position.bybit.qty > 0 || position.hyperliquid.size > 0) {
+        recordClientOrderId(position, clientOrderId);
+        positions.set(symbol, position);
+      }
+      onExecution?.(execution.updates);
+
+      if (rejected) {
+        const filled = rejected === 'bybit' ? 'hyperliquid' : 'bybit';
+        throw new MockTradingError(502, 'ONE_LEG_FAILED', `${rejected} leg rejected by exchange; ${filled} leg filled and is unhedged`, {
+          failed_leg: rejected,
+          filled_leg: filled,
+          position: toPosition(position)
+        });
+      }
+      if (filledFraction < 1) {
+        const filledPct = Math.round(filledFraction * 100);
+        throw new MockTradingError(502, 'PARTIAL_FILL', `Only ${filledPct}% of the order filled on both legs; the rest was cancelled`, {
+          filled_pct: filledPct,
+          filled_amount: amount * filledFraction,
+          position: toPosition(position)
+        });
+      }
+      return toPosition(position);
+    },
+
+    close: (pair, percentage, failures, clientOrderId) => {
+      if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+        throw new MockTradingError(400, 'INVALID_PERCENTAGE', 'Percentage must be between 0 and 100');
+      }
+      const symbol = symbolOf(pair);
+      const position = positions.get(symbol);
+      if (!position) {
+        throw new MockTradingError(404, 'POSITION_NOT_FOUND', `No active position for ${symbol}`);
+      }
+
+      assertVenueReachable(failures);
+      const quote = quoteFor(position.pair);
+      const fraction = percentage / 100;
+      const rejected = pickRejectedLeg(failures);
+      let realizedPnl = 0;
+      // Legs already flat (an unhedged position) have nothing to send
+      const legsToClose = (['bybit', 'hyperliquid'] as Leg[]).filter(leg =>
+        leg === 'bybit' ? position.bybit.qty > 0 : position.hyperliquid.size > 0);
+      const execution = startExecution('close', symbol, percentage, clientOrderId);
+      legsToClose.forEach(leg => execution.push(leg, 'submitted'));
+      if (rejected && legsToClose.includes(rejected)) {
+        execution.push(rejected, 'rejected', { error: rejectReason(rejected, failures) });
+      }
+
+      if (rejected !== 'bybit' && position.bybit.qty > 0) {
+        const leg = position.bybit;
+        const qty = percentage === 100 ? leg.qty : leg.qty * fraction;
+        const price = quote.bybit.bid;
+        const fee = qty * price * BYBIT_FEE_RATE;
+        const pnl = qty * (price - leg.entryPrice);
+        leg.qty -= qty;
+        leg.realized += pnl;
+        leg.fees += fee;
+        leg.exitPrice = price;
+        bybitCash += qty * price - fee;
+        realizedPnl += pnl - fee;
+        recordFill({ symbol, side: 'sell', price, quantity: qty, fee, exchange: 'bybit', pnl: pnl - fee });
+        execution.push('bybit', 'filled', { price, quantity: qty, fee });
+      }
+      if (rejected !== 'hyperliquid' && position.hyperliquid.size > 0) {
+        const leg = position.hyperliquid;
+        const size = percentage === 100 ? leg.size : leg.size * fraction;
+        const price = quote.hyperliquid.ask;
+        const fee = size * price * HYPERLIQUID_FEE_RATE;
+        const pnl = size * (leg.entryPrice - price);
+        leg.size -= size;
+        leg.realized += pnl;
+        leg.fees += fee;
+        leg.exitPrice = price;
+        hyperliquidCash += pnl - fee;
+        realizedPnl += pnl - fee;
+        recordFill({ symbol, side: 'buy', price, quantity: size, fee, exchange: 'hyperliquid', pnl: pnl - fee });
+        execution.push('hyperliquid', 'filled', { price, quantity: size, fee });
+      }
+
+      recordClientOrderId(position, clientOrderId);
+      const done = position.bybit.qty <= 1e-12 && position.hyperliquid.size <= 1e-12;
+      if (done) {
+        positions.delete(symbol);
+      }
+      onExecution?.(execution.updates);
+
+      if (rejected) {
+        throw new MockTradingError(502, 'ONE_LEG_FAILED', `${rejected} leg close rejected by exchange; position is now unhedged`, {
+          failed_leg: rejected,
+          position: done ? null : toPosition(position)
+        });
+      }
+      return { position: done ? null : toPosition(position), realizedPnl };
+    },
+
+    setLeverage: (pair, leverage, failures) => {
+      if (!Number.isFinite(leverage) || leverage < 1 || leverage > MAX_LEVERAGE) {
+        throw new MockTradingError(400, 'INVALID_LEVERAGE', `Leverage must be between 1 and ${MAX_LEVERAGE}`);
+      }
+      const symbol = symbolOf(pair);
+      const position = positions.get(symbol);
+      if (!position) {
+        throw new MockTradingError(404, 'POSITION_NOT_FOUND', `No active position for ${symbol}`);
+      }
+      if (failures.exchangesDown.includes('hyperliquid')) {
+        throw new MockTradingError(503, 'EXCHANGE_UNAVAILABLE', 'HyperLiquid is not reachable; leverage was not changed', {
+          exchanges_down: failures.exchangesDown
+        });
+      }
+
+      const { hyperliquid } = position;
+      const mark = quoteFor(position.pair).hyperliquid.ask;
+      const liquidationPrice = hyperliquid.entryPrice * (1 + 1 / leverage - MAINTENANCE_MARGIN);
+      if (hyperliquid.size > 0 && liquidationPrice <= mark) {
+        throw new MockTradingError(400, 'LEVERAGE_TOO_HIGH', `At ${leverage}x the short would be liquidated at ${liquidationPrice.toFixed(4)}, below the mark price`);
+      }
+      const currentMargin = (hyperliquid.size * mark) / hyperliquid.leverage;
+      const requiredMargin = (hyperliquid.size * mark) / leverage;
+      const free = balances().hyperliquid.free + currentMargin;
+      if (requiredMargin > free) {
+        throw new MockTradingError(400, 'INSUFFICIENT_BALANCE', 'Not enough free HyperLiquid margin for this leverage', {
+          required: { hyperliquid: requiredMargin },
+          available: { hyperliquid: free }
+        });
+      }
+
+      hyperliquid.leverage = leverage;
+      return toPosition(position);
+    },
+
+    accrueFunding: (elapsedMs) => {
+      positions.forEach(position => {
+        const quote = market.getPair(position.pair);
+        if (!quote || position.hyperliquid.size === 0) return;
+        // Shorts receive funding when the rate is positive
+        const payment = position.hyperliquid.size * quote.hyperliquid.bid * quote.funding_rate * (elapsedMs / HOUR_MS);
+        position.fundingEarned += payment;
+        hyperliquidCash += payment;
+      });
+    },
+
+    activePositions: () => Array.from(positions.values()).map(toPosition),
+
+    closedTrades: (days, limit = 500) => {
+      const since = Date.now() - days * 24 * HOUR_MS;
+      return fills
+        .filter(fill => Date.parse(fill.execution_time) >= since)
+        .reverse()
+        .slice(0, limit);
+    },
+
+    balances
+  };
+}
@@ -4,8 +4,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useSharedWebSocket } from '../../hooks/useWebSocket';
-import { useTradingAPI, Position } from '../../hooks/useTradingAPI';
+import { useActivePositions, useCachedAt, useConnectionStatus, useReplayStatus, useTopic } from '../../hooks/useWebSocket';
+import { useTradingAPI, Position, type TradingError } from '../../hooks/useTradingAPI';
+import { lockedSymbols, usePendingOrders } from '../../hooks/usePendingOrders';
+import BulkCloseDialog from './BulkCloseDialog';
+import StaleDataBadge from './StaleDataBadge';
+import TradingErrorNotice from './TradingErrorNotice';
+import UnresolvedOrders from './UnresolvedOrders';
 
 interface ActivePositionsMonitorProps {
   positions?: any[]; // Keep for backward compatibility but will use real data
@@ -33,12 +38,26 @@ const formatPairName = (pair: string) => {
 };
 
 export default function ActivePositionsMonitor({ onClosePosition, onModifyPosition }: ActivePositionsMonitorProps) {
-  const { activePositions, isConnected, error: wsError } = useSharedWebSocket();
+  const activePositions = useActivePositions();
+  const { isConnected, error: wsError } = useConnectionStatus();
+  const positionsCachedAt = useCachedAt('activePositions');
+  const replay = useReplayStatus();
+  useTopic('active_positions');
   const { closePosition } = useTradingAPI();
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [closingPositions, setClosingPositions] = useState<Set<string>>(new Set());
+  // Failed closes are shown above the list; they don't mean the positions failed to load
+  const [closeError, setCloseError] = useState<{ symbol: string; error: TradingError } | null>(null);
+  // Symbols with a request in flight or with an unknown outcome can't be closed again
+  const pendingOrders = usePendingOrders();
+  const lockedPositions = lockedSymbols(pendingOrders);
+  const closingPositions = new Set(pendingOrders
+    .filter(order => order.action === 'close' && order.status === 'in_flight')
+    .map(order => order.symbol));
   const [isRefreshing, setIsRefreshing] = useState(false);
+  // Symbols picked for "Close Selected"; kept across pages, pruned to what is still active
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkClose, setBulkClose] = useState<{ title: string; positions: typeof activePositions } | null>(null);
 
   // Pagination state
   const [currentPage, setCurrentPage] = useState(1);
@@ -86,38 +105,40 @@ export default function ActivePositionsMonitor({ onClosePosition, onModifyPositi
   const handleClosePosition = async (position: Position) => {
     const positionKey = position.symbol;
     
-    try {
-      setClosingPositions(prev => new Set(prev).add(positionKey));
-      
-      // Format the pair name to match backend expectation (add /USDT if not present)
-      const formattedPair = positionKey.includes('/') ? positionKey : `${positionKey}/USDT`;
-      
-      const result = await closePosition(formattedPair, 100);
-      
-      if (result.success) {
-        // Position will be automatically removed from activePositions via WebSocket update
-        if (onClosePosition) {
-          onClosePosition(positionKey);
-        }
-        console.log('✅ Position closed successfully:', result.message);
-      } else {
-        const errorMsg = result.error || result.message || 'Unknown error occurred';
-        setError(errorMsg);
-        console.error('❌ Failed to close position:', errorMsg);
+    setCloseError(null);
+
+    // Format the pair name to match backend expectation (add /USDT if not present)
+    const formattedPair = positionKey.includes('/') ? positionKey : `${positionKey}/USDT`;
+
+    const result = await closePosition(formattedPair, 100);
+
+    if (result.success) {
+      // Position will be automatically removed from activePositions via WebSocket update
+      if (onClosePosition) {
+        onClosePosition(positionKey);
       }
-    } catch (err: any) {
-      const errorMsg = err?.message || 'Failed to close position';
-      setError(errorMsg);
-      console.error('Error closing position:', err);
-    } finally {
-      setClosingPositions(prev => {
-        const newSet = new Set(prev);
-        newSet.delete(positionKey);
-        return newSet;
-      });
+      console.log('✅ Position closed successfully:', result.message);
+    } else {
+      setCloseError({ symbol: positionKey, error: result.error });
     }
   };
 
+  const toggleSelected = (symbol: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(symbol)) {
+        next.delete(symbol);
+      } else {
+        next.add(symbol);
+      }
+      return next;
+    });
+  };
+
+  const handleBulkFinished = (closed: string[]) => {
+    setSelected(prev => new Set(Array.from(prev).filter(symbol => !closed.includes(symbol))));
+  };
+
   const getRiskColor = (riskPct: number) => {
     if (riskPct < 5) return 'text-red-400';
     if (riskPct < 15) return 'text-yellow-400';
@@ -135,6 +156,16 @@ export default function ActivePositionsMonitor({ onClosePosition, onModifyPositi
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
   const paginatedPositions = activePositions.slice(startIndex, endIndex);
+  const selectedPositions = activePositions.filter(position => selected.has(position.symbol));
+  const pageSelected = paginatedPositions.length > 0 && paginatedPositions.every(position => selected.has(position.symbol));
+
+  const handleSelectPage = (checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      paginatedPositions.forEach(position => (checked ? next.add(position.symbol) : next.delete(position.symbol)));
+      return next;
+    });
+  };
 
   const handlePageChange = (page: number) => {
     setCurrentPage(page);
@@ -145,7 +176,21 @@ export default function ActivePositionsMonitor({ onClosePosition, onModifyPositi
     setCurrentPage(1);
   };
 
-  if (!isConnected) {
+  // Rendered in the empty state too, so the results stay up after "Close All" empties the list
+  const bulkDialog = bulkClose && (
+    <BulkCloseDialog
+      title={bulkClose.title}
+      positions={bulkClose.positions}
+      onClose={() => setBulkClose(null)}
+      onFinished={handleBulkFinished}
+    />
+  );
+
+  // Cached or last known positions stay visible while disconnected, but can't be acted on
+  const hasSnapshot = activePositions.length > 0;
+  const showingSnapshot = !isConnected || positionsCachedAt !== null;
+
+  if (!isConnected && !hasSnapshot) {
     return (
       <div className="glass-card rounded-xl p-6">
         <div className="flex items-center justify-between mb-4">
@@ -162,7 +207,7 @@ export default function ActivePositionsMonitor({ onClosePosition, onModifyPositi
     );
   }
 
-  if (isLoading) {
+  if (isLoading && !hasSnapshot) {
     return (
       <div className="glass-card rounded-xl p-6">
         <div className="flex items-center justify-between mb-4">
@@ -236,6 +281,7 @@ export default function ActivePositionsMonitor({ onClosePosition, onModifyPositi
             Execute your first arbitrage trade to see positions here
           </p>
         </div>
+        {bulkDialog}
       </div>
     );
   }
@@ -245,22 +291,31 @@ export default function ActivePositionsMonitor({ onClosePosition, onModifyPositi
       <div className="flex items-center justify-between mb-6">
         <div className="flex items-center gap-4">
           <h2 className="text-xl font-bold text-white">Active Positions</h2>
-          <div className="flex items-center gap-2 text-green-400">
-            <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
-            <span className="text-sm">💼 Live Updates</span>
-          </div>
-          <div className={`text-xs bg-success/10 px-2 py-1 rounded transition-all duration-300 ${
-            isRefreshing ? 'text-cyan-400 bg-cyan-400/20' : 'text-success'
-          }`}>
-            {isRefreshing ? (
-              <div className="flex items-center gap-1">
-                <div className="w-3 h-3 border border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
-                <span>Refreshing positions...</span>
+          {showingSnapshot ? (
+            <StaleDataBadge
+              label={positionsCachedAt !== null ? 'Cached positions' : 'Last known positions - disconnected'}
+              since={positionsCachedAt}
+            />
+          ) : (
+            <>
+              <div className="flex items-center gap-2 text-green-400">
+                <div className="w-2 h-2 bg-green-400 rounded-full animate-pulse"></div>
+                <span className="text-sm">💼 Live Updates</span>
               </div>
-            ) : (
-              <span>🔄 Auto-refresh every 15s</span>
-            )}
-          </div>
+              <div className={`text-xs bg-success/10 px-2 py-1 rounded transition-all duration-300 ${
+                isRefreshing ? 'text-cyan-400 bg-cyan-400/20' : 'text-success'
+              }`}>
+                {isRefreshing ? (
+                  <div className="flex items-center gap-1">
+                    <div className="w-3 h-3 border border-cyan-400 border-t-transparent rounded-full animate-spin"></div>
+                    <span>Refreshing positions...</span>
+                  </div>
+                ) : (
+                  <span>🔄 Auto-refresh every 15s</span>
+                )}
+              </div>
+            </>
+          )}
         </div>
         
         <div className="text-sm text-text-secondary bg-white/5 px-3 py-1 rounded">
@@ -268,35 +323,108 @@ export default function ActivePositionsMonitor({ onClosePosition, onModifyPositi
         </div>
       </div>
 
+      <div className="mb-4 empty:hidden">
+        <UnresolvedOrders action="close" />
+      </div>
+
+      {closeError && (
+        <div className="mb-4">
+          <TradingErrorNotice
+            error={closeError.error}
+            context={`Closing ${closeError.symbol}`}
+            onDismiss={() => setCloseError(null)}
+          />
+        </div>
+      )}
+
+      {/* Bulk actions */}
+      <div className="flex items-center justify-between mb-4 bg-white/5 rounded-lg px-4 py-2">
+        <label className="flex items-center gap-2 text-sm text-text-secondary">
+          <input
+            type="checkbox"
+            checked={pageSelected}
+            onChange={(e) => handleSelectPage(e.target.checked)}
+            className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent"
+          />
+          {selectedPositions.length > 0 ? `${selectedPositions.length} selected` : 'Select page'}
+          {selectedPositions.length > 0 && (
+            <button onClick={() => setSelected(new Set())} className="text-xs text-text-secondary hover:text-white underline">
+              Clear
+            </button>
+          )}
+        </label>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setBulkClose({ title: 'Close Selected Positions', positions: selectedPositions })}
+            disabled={selectedPositions.length === 0 || showingSnapshot || !!replay}
+            className="px-3 py-1.5 text-sm bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Close Selected ({selectedPositions.length})
+          </button>
+          <button
+            onClick={() => setBulkClose({ title: 'Close All Positions', positions: activePositions })}
+            disabled={showingSnapshot || !!replay}
+            className="px-3 py-1.5 text-sm bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Close All ({activePositions.length})
+          </button>
+        </div>
+      </div>
+
+      {bulkDialog}
+
       <div className="space-y-4">
         {paginatedPositions.map((position, index) => {
           const isClosing = closingPositions.has(position.symbol);
+          const isLocked = lockedPositions.has(position.symbol);
           
           return (
             <div key={position.symbol} className="glass-card rounded-xl p-4 relative">
               {/* Header */}
               <div className="flex justify-between items-center mb-4">
                 <div className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={selected.has(position.symbol)}
+                    onChange={() => toggleSelected(position.symbol)}
+                    aria-label={`Select ${position.symbol}`}
+                    className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent"
+                  />
                   <div className="text-xl font-bold text-white">{position.symbol}</div>
                   <div className="text-text-secondary">${position.usdt_amount?.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USDT</div>
                 </div>
-                <button
-                  onClick={() => handleClosePosition(position)}
-                  disabled={isClosing}
-                  className="px-4 py-1.5 text-sm bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
-                >
-                  {isClosing ? (
-                    <>
-                      <div className="w-3 h-3 border border-red-400 border-t-transparent rounded-full animate-spin"></div>
-                      Closing...
-                    </>
-                  ) : (
-                    <>
-                      <span className="text-red-400">✕</span>
-                      Close
-                    </>
+                <div className="flex gap-2">
+                  {onModifyPosition && (
+                    <button
+                      onClick={() => onModifyPosition(position.symbol)}
+                      disabled={isLocked || showingSnapshot || !!replay}
+                      className="px-4 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Modify
+                    </button>
                   )}
-                </button>
+                  <button
+                    onClick={() => handleClosePosition(position)}
+                    disabled={isLocked || showingSnapshot || !!replay}
+                    title={replay ? 'Trading is disabled during replay'
+                      : showingSnapshot ? 'Waiting for live position data'
+                      : isLocked && !isClosing ? 'An earlier request for this position has not settled yet'
+                      : undefined}
+                    className="px-4 py-1.5 text-sm bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+                  >
+                    {isClosing ? (
+                      <>
+                        <div className="w-3 h-3 border border-red-400 border-t-transparent rounded-full animate-spin"></div>
+                        Closing...
+                      </>
+                    ) : (
+                      <>
+                        <span className="text-red-400">✕</span>
+                        Close
+                      </>
+                    )}
+                  </button>
+                </div>
               </div>
 
               {/* Position Details Grid */}
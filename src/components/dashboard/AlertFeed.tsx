@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { clearAlerts, dismissAlert, useAlertFeed, type AlertEntry } from '../../hooks/useAlerts';
+import { usePersistentStore } from '../../hooks/usePersistentStore';
+import {
+  opportunityAlertsStore,
+  parseThresholds,
+  type OpportunityAlertSettings
+} from '../../lib/settings/opportunityAlerts';
+import AlertRulesPanel from './AlertRulesPanel';
+
+// Entries shown before "Show all"
+const COLLAPSED_COUNT = 8;
+
+const TONE_STYLES: Record<AlertEntry['tone'], { icon: string; className: string }> = {
+  positive: { icon: '🚀', className: 'text-success' },
+  negative: { icon: '📉', className: 'text-error' },
+  neutral: { icon: '🔔', className: 'text-white' }
+};
+
+const formatTime = (at: number) => {
+  const date = new Date(at);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString('en-US', { hour12: false })
+    : date.toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false });
+};
+
+function AlertSettings() {
+  const settings = usePersistentStore(opportunityAlertsStore);
+  const [thresholdText, setThresholdText] = useState(settings.fundingThresholdsPct.join(', '));
+  const [thresholdError, setThresholdError] = useState<string | null>(null);
+
+  const update = (change: Partial<OpportunityAlertSettings>) => {
+    opportunityAlertsStore.set(prev => ({ ...prev, ...change }));
+  };
+
+  const handleThresholdsBlur = () => {
+    const parsed = parseThresholds(thresholdText);
+    if (!parsed) {
+      setThresholdError('Enter up to 10 percentages separated by commas, e.g. 0.01, 0.05');
+      return;
+    }
+    setThresholdError(null);
+    update({ fundingThresholdsPct: parsed });
+    setThresholdText(Array.from(new Set(parsed)).sort((a, b) => a - b).join(', '));
+  };
+
+  const checkbox = (key: 'newPairs' | 'removedPairs' | 'bybitAvailableOnly', label: string) => (
+    <label className="flex items-center gap-2 text-sm text-text-secondary">
+      <input
+        type="checkbox"
+        checked={settings[key]}
+        onChange={(e) => update({ [key]: e.target.checked })}
+        className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="bg-white/5 rounded-lg p-4 mb-4 space-y-3">
+      <div className="flex flex-wrap gap-6">
+        {checkbox('newPairs', 'New pairs')}
+        {checkbox('removedPairs', 'Removed pairs')}
+        {checkbox('bybitAvailableOnly', 'Only pairs on Bybit spot')}
+      </div>
+      <div className="space-y-1">
+        <label className="block text-sm text-text-secondary">Funding rate thresholds (%, 8h rate as in the table)</label>
+        <input
+          type="text"
+          value={thresholdText}
+          onChange={(e) => setThresholdText(e.target.value)}
+          onBlur={handleThresholdsBlur}
+          placeholder="e.g. 0.01, 0.05"
+          className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent"
+        />
+        {thresholdError && <p className="text-xs text-error">{thresholdError}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default function AlertFeed() {
+  const alerts = useAlertFeed();
+  const [showSettings, setShowSettings] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll ? alerts : alerts.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">Opportunity Alerts</h3>
+          <p className="text-sm text-text-secondary">
+            Pairs listed or dropped, funding rates crossing your thresholds, and your alert rules firing
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowRules(prev => !prev)}
+            className="px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-white rounded-lg transition-colors"
+          >
+            {showRules ? 'Hide Rules' : 'Rules'}
+          </button>
+          <button
+            onClick={() => setShowSettings(prev => !prev)}
+            className="px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-white rounded-lg transition-colors"
+          >
+            {showSettings ? 'Hide Settings' : 'Settings'}
+          </button>
+          {alerts.length > 0 && (
+            <button
+              onClick={clearAlerts}
+              className="px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-white rounded-lg transition-colors"
+            >
+              Clear All
+            </button>
+          )}
+        </div>
+      </div>
+
+      {showRules && <AlertRulesPanel />}
+      {showSettings && <AlertSettings />}
+
+      {alerts.length === 0 ? (
+        <p className="text-sm text-text-secondary">No alerts. Changes show up here as live snapshots arrive.</p>
+      ) : (
+        <div className="space-y-2">
+          {shown.map(alert => {
+            const style = TONE_STYLES[alert.tone];
+            return (
+              <div key={alert.id} className="flex items-start justify-between gap-4 bg-white/5 rounded-lg px-4 py-2">
+                <div className="flex items-baseline gap-3 min-w-0">
+                  <span className="text-xs font-mono text-text-secondary whitespace-nowrap">{formatTime(alert.at)}</span>
+                  <div className="min-w-0">
+                    <div className={`text-sm font-medium ${style.className}`}>{style.icon} {alert.title}</div>
+                    {alert.detail && <div className="text-xs text-text-secondary break-words">{alert.detail}</div>}
+                  </div>
+                </div>
+                <button
+                  onClick={() => dismissAlert(alert.id)}
+                  className="text-text-secondary hover:text-white shrink-0"
+                  aria-label="Dismiss alert"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+          {alerts.length > COLLAPSED_COUNT && (
+            <button
+              onClick={() => setShowAll(prev => !prev)}
+              className="text-xs text-text-secondary hover:text-white"
+            >
+              {showAll ? 'Show fewer' : `Show all ${alerts.length}`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
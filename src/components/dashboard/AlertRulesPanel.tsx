@@ -0,0 +1,359 @@
+'use client';
+
+import { useState } from 'react';
+import { usePersistentStore } from '../../hooks/usePersistentStore';
+import {
+  notificationPermission,
+  playAlertSound,
+  requestNotificationPermission,
+  type NotificationPermissionState
+} from '../../lib/alerts/notifications';
+import { CONNECTION_LABELS, PAIR_FIELDS, POSITION_FIELDS, describeRule } from '../../lib/alerts/ruleEngine';
+import {
+  COMPARATORS,
+  CONNECTION_SUBJECTS,
+  alertRulesStore,
+  alertSnoozesStore,
+  createAlertRule,
+  deleteAlertRule,
+  saveAlertRule,
+  snoozeAlertRule,
+  type AlertRule,
+  type AlertRuleScope,
+  type Comparator,
+  type ConnectionSubject
+} from '../../lib/settings/alertRules';
+
+const SNOOZE_OPTIONS = [
+  { label: '15m', minutes: 15 },
+  { label: '1h', minutes: 60 },
+  { label: '8h', minutes: 480 }
+];
+
+const SCOPE_LABELS: Record<AlertRuleScope, string> = {
+  pair: 'Any pair',
+  position: 'Any open position',
+  connection: 'Connections'
+};
+
+const PERMISSION_TEXT: Record<NotificationPermissionState, string> = {
+  granted: 'Browser notifications are on',
+  denied: 'Browser notifications are blocked; allow them in the site settings',
+  default: 'Browser notifications are off',
+  unsupported: 'This browser does not support notifications'
+};
+
+const inputClass = 'px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:border-accent';
+const smallButtonClass = 'px-2 py-1 text-xs bg-white/5 hover:bg-white/10 text-text-secondary hover:text-white rounded-lg transition-colors';
+
+// Number inputs are edited as text and only parsed on save
+interface ConditionDraft {
+  field: string;
+  comparator: Comparator;
+  value: string;
+}
+
+const fieldsForScope = (scope: AlertRuleScope) => (scope === 'position' ? POSITION_FIELDS : PAIR_FIELDS);
+
+const formatUntil = (until: number) =>
+  new Date(until).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+function RuleEditor({ initial, onDone }: { initial: AlertRule; onDone: () => void }) {
+  const [name, setName] = useState(initial.name);
+  const [scope, setScope] = useState(initial.scope);
+  const [conditions, setConditions] = useState<ConditionDraft[]>(
+    initial.conditions.map(condition => ({ ...condition, value: String(condition.value) }))
+  );
+  const [subject, setSubject] = useState(initial.connection.subject);
+  const [disconnectedFor, setDisconnectedFor] = useState(String(initial.connection.disconnectedForSec));
+  const [severity, setSeverity] = useState(initial.severity);
+  const [outputs, setOutputs] = useState(initial.outputs);
+  const [cooldown, setCooldown] = useState(String(initial.cooldownSec));
+  const [error, setError] = useState<string | null>(null);
+
+  const fields = fieldsForScope(scope);
+  const fieldKeys = Object.keys(fields);
+
+  const handleScopeChange = (next: AlertRuleScope) => {
+    setScope(next);
+    // Fields don't carry over between pairs and positions
+    setConditions([]);
+    setSeverity(next === 'pair' ? 'opportunity' : 'danger');
+  };
+
+  const updateCondition = (index: number, change: Partial<ConditionDraft>) => {
+    setConditions(prev => prev.map((condition, i) => (i === index ? { ...condition, ...change } : condition)));
+  };
+
+  const handleSave = () => {
+    const cooldownSec = Number(cooldown);
+    const disconnectedForSec = Number(disconnectedFor);
+    const parsed = conditions.map(condition => ({ ...condition, value: Number(condition.value) }));
+
+    if (scope !== 'connection' && parsed.length === 0) {
+      setError('Add at least one condition');
+      return;
+    }
+    if (conditions.some(condition => condition.value.trim() === '') || parsed.some(condition => !Number.isFinite(condition.value))) {
+      setError('Every condition needs a number');
+      return;
+    }
+    if (scope === 'connection' && (disconnectedFor.trim() === '' || !Number.isFinite(disconnectedForSec) || disconnectedForSec < 0)) {
+      setError('Enter how many seconds the connection has to be down');
+      return;
+    }
+    if (cooldown.trim() === '' || !Number.isFinite(cooldownSec) || cooldownSec < 0) {
+      setError('Enter a cooldown in seconds');
+      return;
+    }
+    if (!outputs.notification && !outputs.sound && !outputs.inApp) {
+      setError('Pick at least one way to be alerted');
+      return;
+    }
+
+    saveAlertRule({
+      ...initial,
+      name: name.trim(),
+      scope,
+      conditions: scope === 'connection' ? [] : parsed,
+      connection: { subject, disconnectedForSec: scope === 'connection' ? disconnectedForSec : initial.connection.disconnectedForSec },
+      severity,
+      outputs,
+      cooldownSec
+    });
+    onDone();
+  };
+
+  const outputCheckbox = (key: keyof AlertRule['outputs'], label: string) => (
+    <label className="flex items-center gap-2 text-sm text-text-secondary">
+      <input
+        type="checkbox"
+        checked={outputs[key]}
+        onChange={(e) => setOutputs(prev => ({ ...prev, [key]: e.target.checked }))}
+        className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="bg-white/5 rounded-lg p-4 space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Rule name, e.g. Juicy funding"
+          className={`${inputClass} flex-1 min-w-48`}
+        />
+        <select value={scope} onChange={(e) => handleScopeChange(e.target.value as AlertRuleScope)} className={inputClass}>
+          {(Object.keys(SCOPE_LABELS) as AlertRuleScope[]).map(option => (
+            <option key={option} value={option} className="bg-card">{SCOPE_LABELS[option]}</option>
+          ))}
+        </select>
+      </div>
+
+      {scope === 'connection' ? (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-text-secondary">
+          <select value={subject} onChange={(e) => setSubject(e.target.value as ConnectionSubject)} className={inputClass}>
+            {CONNECTION_SUBJECTS.map(option => (
+              <option key={option} value={option} className="bg-card">{CONNECTION_LABELS[option]}</option>
+            ))}
+          </select>
+          disconnected for
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={disconnectedFor}
+            onChange={(e) => setDisconnectedFor(e.target.value)}
+            className={`${inputClass} w-24`}
+          />
+          seconds
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {conditions.map((condition, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2">
+              <span className="w-10 text-xs text-text-secondary">{index === 0 ? 'When' : 'and'}</span>
+              <select
+                value={condition.field}
+                onChange={(e) => updateCondition(index, { field: e.target.value })}
+                className={`${inputClass} flex-1 min-w-40`}
+              >
+                {!fields[condition.field] && <option value={condition.field} className="bg-card">{condition.field}</option>}
+                {fieldKeys.map(key => (
+                  <option key={key} value={key} className="bg-card">{fields[key].label}</option>
+                ))}
+              </select>
+              <select
+                value={condition.comparator}
+                onChange={(e) => updateCondition(index, { comparator: e.target.value as Comparator })}
+                className={inputClass}
+              >
+                {COMPARATORS.map(comparator => (
+                  <option key={comparator} value={comparator} className="bg-card">{comparator}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="any"
+                value={condition.value}
+                onChange={(e) => updateCondition(index, { value: e.target.value })}
+                className={`${inputClass} w-28`}
+              />
+              <span className="w-10 text-xs text-text-secondary">{fields[condition.field]?.unit}</span>
+              <button
+                onClick={() => setConditions(prev => prev.filter((_, i) => i !== index))}
+                className="text-text-secondary hover:text-white"
+                aria-label="Remove condition"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <button
+            onClick={() => setConditions(prev => [...prev, { field: fieldKeys[0], comparator: '>', value: '' }])}
+            className={smallButtonClass}
+          >
+            + Condition
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-6">
+        {outputCheckbox('inApp', 'In-app entry')}
+        {outputCheckbox('notification', 'Browser notification')}
+        <div className="flex items-center gap-2">
+          {outputCheckbox('sound', 'Sound')}
+          <button onClick={playAlertSound} className="text-xs text-text-secondary hover:text-white">Test</button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm text-text-secondary">
+        <select value={severity} onChange={(e) => setSeverity(e.target.value as AlertRule['severity'])} className={inputClass}>
+          <option value="opportunity" className="bg-card">Opportunity</option>
+          <option value="danger" className="bg-card">Danger</option>
+        </select>
+        · at most once every
+        <input
+          type="number"
+          min="0"
+          step="1"
+          value={cooldown}
+          onChange={(e) => setCooldown(e.target.value)}
+          className={`${inputClass} w-24`}
+        />
+        seconds per {scope === 'connection' ? 'connection' : scope}
+      </div>
+
+      {error && <p className="text-xs text-error">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 text-sm bg-accent text-background rounded-lg font-medium hover:bg-accent/90 transition-colors"
+        >
+          Save Rule
+        </button>
+        <button
+          onClick={onDone}
+          className="px-4 py-2 text-sm bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function AlertRulesPanel() {
+  const { rules } = usePersistentStore(alertRulesStore);
+  const snoozes = usePersistentStore(alertSnoozesStore);
+  const [editing, setEditing] = useState<AlertRule | null>(null);
+  const [permission, setPermission] = useState<NotificationPermissionState>(() => notificationPermission());
+  const now = Date.now();
+
+  const handleRequestPermission = async () => {
+    setPermission(await requestNotificationPermission());
+  };
+
+  return (
+    <div className="bg-white/5 rounded-lg p-4 mb-4 space-y-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <span className={`text-sm ${permission === 'granted' ? 'text-success' : 'text-text-secondary'}`}>
+          {PERMISSION_TEXT[permission]}
+        </span>
+        <div className="flex gap-2">
+          {permission === 'default' && (
+            <button onClick={handleRequestPermission} className={smallButtonClass}>Enable Notifications</button>
+          )}
+          {!editing && (
+            <button onClick={() => setEditing(createAlertRule())} className={smallButtonClass}>+ New Rule</button>
+          )}
+        </div>
+      </div>
+
+      {editing && !rules.some(rule => rule.id === editing.id) && (
+        <RuleEditor key={editing.id} initial={editing} onDone={() => setEditing(null)} />
+      )}
+
+      {rules.length === 0 && !editing && (
+        <p className="text-sm text-text-secondary">
+          No rules yet. A rule can watch funding and spreads on every pair, risk and PnL on open positions, or connection outages.
+        </p>
+      )}
+
+      {rules.map(rule => {
+        if (editing?.id === rule.id) {
+          return <RuleEditor key={rule.id} initial={rule} onDone={() => setEditing(null)} />;
+        }
+        const snoozedUntil = (snoozes[rule.id] ?? 0) > now ? snoozes[rule.id] : null;
+        return (
+          <div key={rule.id} className="flex flex-wrap items-start justify-between gap-3 border-t border-white/5 pt-3">
+            <label className="flex items-start gap-3 min-w-0 flex-1">
+              <input
+                type="checkbox"
+                checked={rule.enabled}
+                onChange={(e) => saveAlertRule({ ...rule, enabled: e.target.checked })}
+                className="mt-1 w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent"
+                aria-label={`Enable ${rule.name || 'rule'}`}
+              />
+              <div className="min-w-0">
+                <div className={`text-sm font-medium ${rule.enabled ? 'text-white' : 'text-text-secondary'}`}>
+                  {rule.severity === 'opportunity' ? '🚀' : '⚠️'} {rule.name || 'Untitled rule'}
+                </div>
+                <div className="text-xs text-text-secondary break-words">{describeRule(rule)}</div>
+                <div className="text-xs text-text-secondary">
+                  {[rule.outputs.inApp && 'in-app', rule.outputs.notification && 'notification', rule.outputs.sound && 'sound']
+                    .filter(Boolean).join(', ')} · cooldown {rule.cooldownSec}s
+                  {snoozedUntil !== null && <span className="text-warning"> · snoozed until {formatUntil(snoozedUntil)}</span>}
+                </div>
+              </div>
+            </label>
+            <div className="flex flex-wrap gap-1">
+              {snoozedUntil !== null ? (
+                <button onClick={() => snoozeAlertRule(rule.id, null)} className={smallButtonClass}>Unsnooze</button>
+              ) : (
+                SNOOZE_OPTIONS.map(option => (
+                  <button
+                    key={option.label}
+                    onClick={() => snoozeAlertRule(rule.id, Date.now() + option.minutes * 60_000)}
+                    className={smallButtonClass}
+                    title={`Snooze for ${option.label}`}
+                  >
+                    💤 {option.label}
+                  </button>
+                ))
+              )}
+              <button onClick={() => setEditing(rule)} disabled={editing !== null} className={`${smallButtonClass} disabled:opacity-50`}>
+                Edit
+              </button>
+              <button onClick={() => deleteAlertRule(rule.id)} className={`${smallButtonClass} hover:text-error`}>Delete</button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
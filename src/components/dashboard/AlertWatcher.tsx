@@ -0,0 +1,11 @@
+'use client';
+
+import { useAlertRules, useOpportunityAlerts } from '../../hooks/useAlerts';
+
+// Feeds snapshot changes and alert rule firings into the alert feed, whichever tab is showing.
+// Renders nothing; kept as its own leaf so ticks and status reports re-render only this component.
+export default function AlertWatcher() {
+  useOpportunityAlerts();
+  useAlertRules();
+  return null;
+}
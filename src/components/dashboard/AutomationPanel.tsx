@@ -1,21 +1,12 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
 'use client';
 
 import { useState } from 'react';
-import { useSharedWebSocket } from '../../hooks/useWebSocket';
+import { useBalances, useConnectionStatus, useTopic } from '../../hooks/useWebSocket';
 import { useTradingAPI } from '../../hooks/useTradingAPI';
-
-interface AutomationSettings {
-  enabled: boolean;
-  minFundingRate: number;  // Minimum funding rate to open
-  closeFundingRate: number; // Funding rate to close
-  minSpreadPercent: number; // Minimum spread between exchanges
-  maxSpreadPercent: number; // Maximum spread between exchanges
-  positionSizeUSD: number;  // Position size in USD
-  maxDepositUsage: number;  // Maximum percentage of deposit to use
-}
+import { usePersistentStore } from '../../hooks/usePersistentStore';
+import { automationSettingsStore, type AutomationSettings } from '../../lib/settings/automationSettings';
 
 interface Position {
   id: string;
@@ -29,18 +20,13 @@ interface Position {
 }
 
 export default function AutomationPanel() {
-  const [settings, setSettings] = useState<AutomationSettings>({
-    enabled: false,
-    minFundingRate: 0.01, // 1% minimum funding rate
-    closeFundingRate: 0.005, // 0.5% funding rate to close
-    minSpreadPercent: 0.1, // 0.1% minimum spread
-    maxSpreadPercent: 0.5, // 0.5% maximum spread
-    positionSizeUSD: 1000, // $1000 default position size
-    maxDepositUsage: 90, // 90% maximum deposit usage
-  });
+  const settings = usePersistentStore(automationSettingsStore);
+  const [enabled, setEnabled] = useState(false);
 
   const [positions, setPositions] = useState<Position[]>([]);
-  const { isConnected, balances: accountBalances } = useSharedWebSocket();
+  const accountBalances = useBalances();
+  const { isConnected } = useConnectionStatus();
+  useTopic('account_balances');
   const { openPosition, closePosition } = useTradingAPI();
 
   // Calculate available balance and maximum position size
@@ -51,11 +37,11 @@ export default function AutomationPanel() {
   const maxAllowedPosition = totalBalance * (settings.maxDepositUsage / 100);
 
   const handleToggleAutomation = () => {
-    setSettings(prev => ({ ...prev, enabled: !prev.enabled }));
+    setEnabled(prev => !prev);
   };
 
-  const handleSettingChange = (setting: keyof AutomationSettings, value: any) => {
-    setSettings(prev => ({ ...prev, [setting]: value }));
+  const handleSettingChange = (setting: keyof AutomationSettings, value: number) => {
+    automationSettingsStore.set(prev => ({ ...prev, [setting]: value }));
   };
 
   const handleClosePosition = async (positionId: string) => {
@@ -87,12 +73,12 @@ export default function AutomationPanel() {
               onClick={handleToggleAutomation}
               disabled={!isConnected}
               className={`px-6 py-2 rounded-lg font-medium transition-colors ${
-                settings.enabled
+                enabled
                   ? 'bg-error hover:bg-error/90'
                   : 'bg-success hover:bg-success/90'
               } text-background disabled:opacity-50 disabled:cursor-not-allowed`}
             >
-              {settings.enabled ? 'Stop' : 'Start'} Automation
+              {enabled ? 'Stop' : 'Start'} Automation
             </button>
           </div>
         </div>
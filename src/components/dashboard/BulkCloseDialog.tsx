@@ -0,0 +1,214 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { tradingConfig } from '../../config/trading';
+import { lockedSymbols, usePendingOrders } from '../../hooks/usePendingOrders';
+import { describeTradingError, useTradingAPI, type TradingError } from '../../hooks/useTradingAPI';
+import { useArbitragePairs, type Position } from '../../hooks/useWebSocket';
+import { runWithConcurrency } from '../../lib/trading/bulkActions';
+import { estimateRealizedPnl } from '../../lib/trading/positionPreview';
+
+interface BulkCloseDialogProps {
+  // Positions to close, as they were when the dialog opened
+  positions: Position[];
+  title: string;
+  onClose: () => void;
+  // Called once every close has settled, with the symbols that closed
+  onFinished?: (closed: string[]) => void;
+}
+
+type CloseOutcome =
+  | { status: 'queued' | 'closing' }
+  | { status: 'closed'; message: string; realizedPnl: number | null }
+  | { status: 'failed'; error: TradingError }
+  | { status: 'skipped'; reason: string };
+
+const OUTCOME_STYLES: Record<CloseOutcome['status'], { label: string; className: string }> = {
+  queued: { label: 'Queued', className: 'text-text-secondary' },
+  closing: { label: 'Closing...', className: 'text-cyan-300' },
+  closed: { label: 'Closed', className: 'text-success' },
+  failed: { label: 'Failed', className: 'text-error' },
+  skipped: { label: 'Skipped', className: 'text-warning' }
+};
+
+const formatUsd = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+
+const pnlClass = (value: number) => (value > 0 ? 'text-success' : value < 0 ? 'text-error' : 'text-text-secondary');
+
+const pairOf = (symbol: string) => (symbol.includes('/') ? symbol : `${symbol}/USDT`);
+
+export default function BulkCloseDialog({ positions, title, onClose, onFinished }: BulkCloseDialogProps) {
+  const pairs = useArbitragePairs();
+  const locked = lockedSymbols(usePendingOrders());
+  const { closePosition } = useTradingAPI();
+  const [phase, setPhase] = useState<'confirm' | 'running' | 'done'>('confirm');
+  const [outcomes, setOutcomes] = useState<Record<string, CloseOutcome>>({});
+
+  const quotes = useMemo(() => new Map(pairs.map(pair => [pair.pair, pair])), [pairs]);
+  const estimates = positions.map(position => ({
+    position,
+    ...estimateRealizedPnl(position, 100, quotes.get(pairOf(position.symbol)) ?? null),
+    hasQuote: quotes.has(pairOf(position.symbol))
+  }));
+  const closable = estimates.filter(estimate => !locked.has(estimate.position.symbol));
+  const totalPnl = closable.reduce((sum, estimate) => sum + estimate.pnl, 0);
+  const totalFees = closable.reduce((sum, estimate) => sum + estimate.fees, 0);
+  const missingQuotes = closable.filter(estimate => !estimate.hasQuote).length;
+
+  const setOutcome = (symbol: string, outcome: CloseOutcome) => {
+    setOutcomes(prev => ({ ...prev, [symbol]: outcome }));
+  };
+
+  const handleConfirm = async () => {
+    setPhase('running');
+    // Locked pairs have an earlier request pending; sending another close could trade twice
+    const initial: Record<string, CloseOutcome> = {};
+    positions.forEach(position => {
+      initial[position.symbol] = locked.has(position.symbol)
+        ? { status: 'skipped', reason: 'An earlier request has not settled yet' }
+        : { status: 'queued' };
+    });
+    setOutcomes(initial);
+
+    const targets = positions.filter(position => !locked.has(position.symbol));
+    console.log(`🧹 Bulk close: Closing ${targets.length} position(s), ${tradingConfig.bulkClose.concurrency} at a time`);
+    const results = await runWithConcurrency(
+      targets,
+      tradingConfig.bulkClose.concurrency,
+      (position) => {
+        setOutcome(position.symbol, { status: 'closing' });
+        return closePosition(pairOf(position.symbol), 100);
+      },
+      (position, result) => {
+        setOutcome(position.symbol, result.success
+          ? { status: 'closed', message: result.message, realizedPnl: result.realizedPnl ?? null }
+          : { status: 'failed', error: result.error });
+      }
+    );
+
+    const closed = targets.filter((_, index) => results[index].success).map(position => position.symbol);
+    console.log(`🧹 Bulk close: ${closed.length} of ${targets.length} closed`);
+    setPhase('done');
+    onFinished?.(closed);
+  };
+
+  const settled = Object.values(outcomes);
+  const closedCount = settled.filter(outcome => outcome.status === 'closed').length;
+  const failedCount = settled.filter(outcome => outcome.status === 'failed').length;
+  const skippedCount = settled.filter(outcome => outcome.status === 'skipped').length;
+  const realizedTotal = settled.reduce((sum, outcome) => sum + (outcome.status === 'closed' ? outcome.realizedPnl ?? 0 : 0), 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={() => phase !== 'running' && onClose()}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="bulk-close-title"
+        className="glass-card rounded-xl p-6 w-full max-w-2xl max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 id="bulk-close-title" className="text-lg font-bold text-white">{title}</h3>
+            <p className="text-sm text-text-secondary">
+              {phase === 'confirm'
+                ? `${closable.length} position${closable.length !== 1 ? 's' : ''} will be closed in full on both legs`
+                : phase === 'running'
+                  ? `Closing ${tradingConfig.bulkClose.concurrency} at a time...`
+                  : `${closedCount} closed · ${failedCount} failed${skippedCount > 0 ? ` · ${skippedCount} skipped` : ''}`}
+            </p>
+          </div>
+          {phase !== 'running' && (
+            <button onClick={onClose} className="text-text-secondary hover:text-white" aria-label="Close">✕</button>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-auto mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-text-secondary text-left">
+                <th className="font-medium pb-2">Position</th>
+                <th className="font-medium pb-2 text-right">Size</th>
+                <th className="font-medium pb-2 text-right">{phase === 'confirm' ? 'Expected PnL' : 'Realized PnL'}</th>
+                {phase !== 'confirm' && <th className="font-medium pb-2 pl-4">Result</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {estimates.map(({ position, pnl, hasQuote }) => {
+                const outcome = outcomes[position.symbol];
+                const isLocked = locked.has(position.symbol);
+                const shownPnl = phase === 'confirm' ? pnl : outcome?.status === 'closed' ? outcome.realizedPnl : null;
+                return (
+                  <tr key={position.symbol} className="border-t border-white/5 align-top">
+                    <td className="py-1.5 font-medium text-white">{position.symbol}</td>
+                    <td className="py-1.5 text-right font-mono text-text-secondary">{formatUsd(position.usdt_amount)}</td>
+                    <td className={`py-1.5 text-right font-mono ${shownPnl !== null ? pnlClass(shownPnl) : 'text-text-secondary'}`}>
+                      {phase === 'confirm' && isLocked ? '—' : shownPnl !== null ? `${formatUsd(shownPnl)}${phase === 'confirm' && !hasQuote ? '*' : ''}` : '—'}
+                    </td>
+                    {phase !== 'confirm' && outcome && (
+                      <td className="py-1.5 pl-4">
+                        <div className={OUTCOME_STYLES[outcome.status].className}>{OUTCOME_STYLES[outcome.status].label}</div>
+                        {outcome.status === 'failed' && (
+                          <div className="text-xs text-text-secondary">
+                            {describeTradingError(outcome.error).title}: {outcome.error.message}
+                          </div>
+                        )}
+                        {outcome.status === 'skipped' && <div className="text-xs text-text-secondary">{outcome.reason}</div>}
+                      </td>
+                    )}
+                    {phase === 'confirm' && isLocked && (
+                      <td className="py-1.5 pl-4 text-xs text-warning">Request pending; will be skipped</td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="border-t border-white/10 pt-4 space-y-4">
+          {phase === 'confirm' ? (
+            <div className="text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-text-secondary">Expected realized PnL after fees</span>
+                <span className={`font-mono ${pnlClass(totalPnl)}`}>{formatUsd(totalPnl)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-text-secondary">Estimated fees</span>
+                <span className="font-mono text-white">{formatUsd(totalFees)}</span>
+              </div>
+              <p className="text-xs text-text-secondary">
+                At current quotes{missingQuotes > 0 ? `; * ${missingQuotes} without a live quote are estimated at entry prices` : ''}. Fills may differ.
+              </p>
+            </div>
+          ) : (
+            <div className="flex justify-between text-sm">
+              <span className="text-text-secondary">Realized PnL reported by the backend</span>
+              <span className={`font-mono ${pnlClass(realizedTotal)}`}>{formatUsd(realizedTotal)}</span>
+            </div>
+          )}
+
+          <div className="flex gap-4">
+            {phase === 'confirm' && (
+              <button
+                onClick={handleConfirm}
+                disabled={closable.length === 0}
+                className="flex-1 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Close {closable.length} Position{closable.length !== 1 ? 's' : ''}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              disabled={phase === 'running'}
+              className="px-4 py-2 bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {phase === 'confirm' ? 'Cancel' : 'Done'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -3,24 +3,13 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useSharedWebSocket } from '../../hooks/useWebSocket';
-
-// Define the actual trade data format coming from backend
-interface TradeData {
-  symbol: string;
-  side: string;
-  price: number;
-  quantity: number;
-  fee: number;
-  execution_time: string;
-  order_id: string;
-  exchange: string;
-  pnl?: number;
-}
+import { useClosedPositions, useConnectionStatus, useTopic, type ClosedTrade } from '../../hooks/useWebSocket';
 
 type SortField = 'execution_time' | 'symbol' | 'pnl' | 'exchange';
 type SortDirection = 'asc' | 'desc';
 
+const HISTORY_WINDOWS = [7, 14, 30] as const;
+
 const formatCurrency = (value: number) => {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -59,7 +48,10 @@ const formatTime = (timeString: string) => {
 };
 
 export default function ClosedPositions() {
-  const { closedPositions, isConnected, error: wsError } = useSharedWebSocket();
+  const closedPositions = useClosedPositions();
+  const { isConnected, error: wsError } = useConnectionStatus();
+  const [historyDays, setHistoryDays] = useState<number>(7);
+  useTopic('closed_positions', { days: historyDays });
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
@@ -86,14 +78,21 @@ export default function ClosedPositions() {
     }
   }, [isConnected, wsError]);
 
+  // Another component may hold a wider history subscription, so trim to our own window
+  const historyStart = Date.now() - historyDays * 24 * 60 * 60 * 1000;
+  const recentTrades = closedPositions.filter(trade => {
+    const executedAt = new Date(trade.execution_time).getTime();
+    return Number.isNaN(executedAt) || executedAt >= historyStart;
+  });
+
   // Smart pagination: only reset to page 1 when current page becomes invalid
   useEffect(() => {
-    const totalPages = Math.ceil(closedPositions.length / itemsPerPage);
+    const totalPages = Math.ceil(recentTrades.length / itemsPerPage);
     // Only reset if current page is beyond available pages and we have data
     if (currentPage > totalPages && totalPages > 0) {
       setCurrentPage(totalPages);
     }
-  }, [closedPositions, itemsPerPage, currentPage]);
+  }, [recentTrades.length, itemsPerPage, currentPage]);
 
   // Simulate periodic refresh indicator
   useEffect(() => {
@@ -154,7 +153,7 @@ export default function ClosedPositions() {
   };
 
   // Helper function to get sort value for a field
-  const getSortValue = (item: TradeData, field: SortField) => {
+  const getSortValue = (item: ClosedTrade, field: SortField) => {
     switch (field) {
       case 'execution_time':
         return new Date(item.execution_time).getTime();
@@ -207,7 +206,7 @@ export default function ClosedPositions() {
   };
 
   // Sort and paginate positions with multi-criteria support
-  const sortedPositions = [...closedPositions].sort((a, b) => {
+  const sortedPositions = [...recentTrades].sort((a, b) => {
     // If no primary sort is set, maintain original order
     if (!primarySort) {
       return 0;
@@ -259,6 +258,23 @@ export default function ClosedPositions() {
     setCurrentPage(1);
   };
 
+  const historyWindowSelect = (
+    <select
+      value={historyDays}
+      onChange={(e) => {
+        setHistoryDays(Number(e.target.value));
+        setCurrentPage(1);
+      }}
+      className="bg-gray-800 border border-white/20 rounded px-2 py-1 text-white text-sm"
+    >
+      {HISTORY_WINDOWS.map(days => (
+        <option key={days} value={days} className="bg-gray-800 text-white">
+          Last {days} days
+        </option>
+      ))}
+    </select>
+  );
+
   if (!isConnected) {
     return (
       <div className="glass-card rounded-xl p-6">
@@ -315,7 +331,7 @@ export default function ClosedPositions() {
     );
   }
 
-  if (closedPositions.length === 0) {
+  if (recentTrades.length === 0) {
     return (
       <div className="glass-card rounded-xl p-6">
         <div className="flex items-center justify-between mb-6">
@@ -327,8 +343,7 @@ export default function ClosedPositions() {
             </div>
           </div>
           
-          <div className="text-sm text-text-secondary bg-white/5 px-3 py-1 rounded">
-          </div>
+          {historyWindowSelect}
         </div>
         <div className="text-center py-12">
           <div className="text-6xl mb-4">📊</div>
@@ -364,8 +379,11 @@ export default function ClosedPositions() {
           </div>
         </div>
         
-        <div className="text-sm text-text-secondary bg-white/5 px-3 py-1 rounded">
-          Last week • {closedPositions.length} trade{closedPositions.length !== 1 ? 's' : ''}
+        <div className="flex items-center gap-2">
+          {historyWindowSelect}
+          <div className="text-sm text-text-secondary bg-white/5 px-3 py-1 rounded">
+            {recentTrades.length} trade{recentTrades.length !== 1 ? 's' : ''}
+          </div>
         </div>
       </div>
 
@@ -536,7 +554,7 @@ export default function ClosedPositions() {
                   </div>
                   <div>
                     <div className="text-gray-400 mb-1">Dollar equivalent</div>
-                    <div className="font-mono font-medium text-white">${(position.price || 0) * (position.quantity || 0).toFixed(4)}</div>
+                    <div className="font-mono font-medium text-white">${((position.price || 0) * (position.quantity || 0)).toFixed(4)}</div>
                   </div>
                   <div>
                     <div className="text-gray-400 mb-1">Fee Paid</div>
@@ -570,7 +588,7 @@ export default function ClosedPositions() {
         <div className="mt-6 pt-4 border-t border-white/10 flex justify-between items-center">
           <div className="flex items-center gap-4">
             <span className="text-sm text-text-secondary">
-              Showing {startIndex + 1}-{Math.min(endIndex, closedPositions.length)} of {closedPositions.length} trades
+              Showing {startIndex + 1}-{Math.min(endIndex, recentTrades.length)} of {recentTrades.length} trades
             </span>
             <div className="flex items-center gap-2">
               <span className="text-sm text-text-secondary">Items per page:</span>
@@ -0,0 +1,99 @@
+'use client';
+
+import { useState } from 'react';
+import { usePersistentStore } from '../../hooks/usePersistentStore';
+import { FUNDING_COLUMNS, FUNDING_COLUMN_IDS, getFundingColumn, type FundingColumnId } from '../../lib/fundingTable/columns';
+import { REQUIRED_COLUMN, fundingTablePreferencesStore } from '../../lib/settings/tablePreferences';
+
+const GROUP_LABELS = { hyperliquid: 'HL', bybit: 'Bybit', other: '' } as const;
+
+const arrowButtonClass = 'px-1.5 text-text-secondary hover:text-white disabled:opacity-30 disabled:hover:text-text-secondary';
+
+// Shows, hides and reorders the funding table's columns; changes apply and save right away
+export default function ColumnChooser() {
+  const { columns } = usePersistentStore(fundingTablePreferencesStore);
+  const [open, setOpen] = useState(false);
+  const hidden = FUNDING_COLUMNS.filter(column => !columns.includes(column.id));
+
+  const setColumns = (next: FundingColumnId[]) => {
+    fundingTablePreferencesStore.set(prev => ({ ...prev, columns: next }));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...columns];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setColumns(next);
+  };
+
+  const labelOf = (id: FundingColumnId) => {
+    const column = getFundingColumn(id);
+    // Both HL size columns share a label in the header; the neighbouring price tells them apart there
+    const detail = id === 'hyperliquid_bid_size' ? ' (bid)' : id === 'hyperliquid_ask_size' ? ' (ask)' : '';
+    return `${column.label}${detail}`;
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(prev => !prev)}
+        className="px-4 py-2 bg-tertiary border border-white/10 rounded-lg text-text-secondary hover:text-white transition-colors"
+      >
+        Columns ({columns.length}/{FUNDING_COLUMNS.length})
+      </button>
+
+      {open && (
+        <div className="absolute z-20 mt-2 w-80 glass-card bg-card rounded-lg p-4 shadow-xl space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-medium text-white">Visible columns</span>
+            <button
+              onClick={() => setColumns(FUNDING_COLUMN_IDS)}
+              className="text-xs text-text-secondary hover:text-white"
+            >
+              Reset
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {columns.map((id, index) => (
+              <li key={id} className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked
+                  disabled={id === REQUIRED_COLUMN}
+                  onChange={() => setColumns(columns.filter(column => column !== id))}
+                  className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent disabled:opacity-50"
+                  aria-label={`Hide ${labelOf(id)}`}
+                />
+                <span className="flex-1 text-white">{labelOf(id)}</span>
+                <span className="text-xs text-text-secondary">{GROUP_LABELS[getFundingColumn(id).group]}</span>
+                <button onClick={() => move(index, -1)} disabled={index === 0} className={arrowButtonClass} aria-label="Move left">↑</button>
+                <button onClick={() => move(index, 1)} disabled={index === columns.length - 1} className={arrowButtonClass} aria-label="Move right">↓</button>
+              </li>
+            ))}
+          </ul>
+
+          {hidden.length > 0 && (
+            <>
+              <div className="text-sm font-medium text-white border-t border-white/10 pt-3">Hidden</div>
+              <ul className="space-y-1">
+                {hidden.map(column => (
+                  <li key={column.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={false}
+                      // Shown columns go to the end; move them from there
+                      onChange={() => setColumns([...columns, column.id])}
+                      className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent"
+                      aria-label={`Show ${labelOf(column.id)}`}
+                    />
+                    <span className="flex-1 text-text-secondary">{labelOf(column.id)}</span>
+                    <span className="text-xs text-text-secondary">{GROUP_LABELS[column.group]}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { useCredentialVault } from '../../hooks/useCredentialVault';
+import {
+  applyConfigImport,
+  exportConfig,
+  prepareConfigImport,
+  type ConfigFile,
+  type ConfigImport
+} from '../../lib/settings/configTransfer';
+
+// Long diffs are cut off in the preview; applying still replaces the whole section
+const MAX_CHANGES_SHOWN = 20;
+
+const downloadConfig = (config: ConfigFile) => {
+  const blob = new Blob([JSON.stringify(config, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `dashboard-config-${config.exportedAt.slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function ConfigTransferPanel() {
+  const vault = useCredentialVault();
+  const [includeVault, setIncludeVault] = useState(false);
+  const [pending, setPending] = useState<{ name: string; prepared: ConfigImport } | null>(null);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const hasVault = vault.status === 'locked' || vault.status === 'unlocked';
+
+  const handleExport = () => {
+    downloadConfig(exportConfig(includeVault && hasVault ? ['credentialVault'] : []));
+    setNotice(null);
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setNotice(null);
+    try {
+      const prepared = prepareConfigImport(await file.text());
+      setPending({ name: file.name, prepared });
+      setSelected(prepared.sections.filter(section => section.status === 'changed').map(section => section.key));
+      setLoadError(null);
+    } catch (err) {
+      setPending(null);
+      setLoadError(err instanceof Error ? err.message : 'Could not read configuration file');
+    }
+  };
+
+  const toggleSection = (key: string) => {
+    setSelected(prev => (prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key]));
+  };
+
+  const handleApply = () => {
+    if (!pending) return;
+    applyConfigImport(pending.prepared, selected);
+    setNotice(`Imported ${selected.length} section${selected.length !== 1 ? 's' : ''} from ${pending.name}`);
+    setPending(null);
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <h3 className="text-lg font-bold text-white mb-4">Import & Export Configuration</h3>
+      <div className="space-y-6">
+        {/* Export */}
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm font-medium text-white">Export</div>
+            <div className="text-xs text-text-secondary">
+              Connection profiles, automation settings, table preferences and saved views, the watchlist, alert settings and alert rules. Exchange secrets are never exported in plain text.
+            </div>
+            <label className="flex items-center gap-2 mt-2 text-xs text-text-secondary">
+              <input
+                type="checkbox"
+                checked={includeVault && hasVault}
+                onChange={(e) => setIncludeVault(e.target.checked)}
+                disabled={!hasVault}
+                className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent disabled:opacity-50"
+              />
+              Include the encrypted credential vault (needs its passphrase to unlock after import)
+            </label>
+          </div>
+          <button
+            onClick={handleExport}
+            className="px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors"
+          >
+            Export
+          </button>
+        </div>
+
+        {/* Import */}
+        <div className="border-t border-white/10 pt-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm font-medium text-white">Import</div>
+              <div className="text-xs text-text-secondary">
+                Shows what would change before anything is applied
+              </div>
+            </div>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors"
+            >
+              Load File
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+
+          {loadError && <p className="text-sm text-error">{loadError}</p>}
+          {notice && <p className="text-sm text-success">{notice}</p>}
+
+          {pending && (
+            <div className="space-y-3">
+              <div className="text-xs text-text-secondary">
+                {pending.name} · exported {pending.prepared.exportedAt}
+                {pending.prepared.ignored.length > 0 && ` · ignoring unknown sections: ${pending.prepared.ignored.join(', ')}`}
+              </div>
+
+              {pending.prepared.sections.length === 0 && (
+                <p className="text-sm text-text-secondary">The file contains no sections this dashboard knows about.</p>
+              )}
+
+              {pending.prepared.sections.map(section => (
+                <div key={section.key} className="bg-white/5 rounded-lg p-4">
+                  <label className="flex items-center gap-2">
+                    <input
+                      type="checkbox"
+                      checked={selected.includes(section.key)}
+                      onChange={() => toggleSection(section.key)}
+                      disabled={section.status !== 'changed'}
+                      className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent disabled:opacity-50"
+                    />
+                    <span className="text-sm font-medium text-white">{section.label}</span>
+                    <span className={`text-xs ${
+                      section.status === 'invalid' ? 'text-error' : section.status === 'changed' ? 'text-warning' : 'text-text-secondary'
+                    }`}>
+                      {section.status === 'invalid'
+                        ? section.error
+                        : section.status === 'changed'
+                          ? `${section.changes.length} change${section.changes.length !== 1 ? 's' : ''}`
+                          : 'No changes'}
+                    </span>
+                  </label>
+
+                  {section.changes.length > 0 && (
+                    <table className="w-full mt-3 text-xs font-mono">
+                      <tbody>
+                        {section.changes.slice(0, MAX_CHANGES_SHOWN).map(change => (
+                          <tr key={change.path} className="border-t border-white/5">
+                            <td className="py-1 pr-4 text-text-secondary break-all">{change.path}</td>
+                            <td className="py-1 pr-4 text-error/80 break-all">{change.before ?? '—'}</td>
+                            <td className="py-1 text-success break-all">{change.after ?? '—'}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  {section.changes.length > MAX_CHANGES_SHOWN && (
+                    <div className="mt-1 text-xs text-text-secondary">
+                      …and {section.changes.length - MAX_CHANGES_SHOWN} more
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              <div className="flex gap-4">
+                <button
+                  onClick={handleApply}
+                  disabled={selected.length === 0}
+                  className="px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Apply Selected
+                </button>
+                <button
+                  onClick={() => setPending(null)}
+                  className="px-4 py-2 bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors"
+                >
+                  Discard
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
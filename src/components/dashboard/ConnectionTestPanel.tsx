@@ -0,0 +1,77 @@
+'use client';
+
+import { useState } from 'react';
+import type { ConnectionProfile } from '../../hooks/useConnectionSettings';
+import { runConnectionTest, type ConnectionCheck } from '../../lib/settings/connectionTest';
+
+interface ConnectionTestPanelProps {
+  // What to test; the form's unsaved edits while editing, so typos show up before they are applied
+  settings: ConnectionProfile;
+  // Set for the form's edits; their endpoints are checked but never sent credentials
+  unsaved: boolean;
+  label: string;
+}
+
+const STATUS_STYLES: Record<ConnectionCheck['status'], { icon: string; className: string }> = {
+  ok: { icon: '✅', className: 'text-success' },
+  failed: { icon: '❌', className: 'text-error' },
+  skipped: { icon: '⏭️', className: 'text-text-secondary' }
+};
+
+export default function ConnectionTestPanel({ settings, unsaved, label }: ConnectionTestPanelProps) {
+  const [isTesting, setIsTesting] = useState(false);
+  const [results, setResults] = useState<{ label: string; checks: ConnectionCheck[]; at: Date } | null>(null);
+
+  const handleTest = async () => {
+    setIsTesting(true);
+    const checks = await runConnectionTest(settings, unsaved);
+    setResults({ label, checks, at: new Date() });
+    setIsTesting(false);
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">Test Connection</h3>
+          <p className="text-sm text-text-secondary">
+            Checks the REST API, the WebSocket handshake and exchange credentials for {label}
+          </p>
+        </div>
+        <button
+          onClick={handleTest}
+          disabled={isTesting}
+          className="px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isTesting ? 'Testing...' : 'Test Connection'}
+        </button>
+      </div>
+
+      {results && (
+        <div className="space-y-2">
+          <div className="text-xs text-text-secondary">
+            {results.label} · tested at {results.at.toLocaleTimeString()}
+          </div>
+          {results.checks.map(check => {
+            const style = STATUS_STYLES[check.status];
+            return (
+              <div key={check.id} className="flex items-start justify-between gap-4 bg-white/5 rounded-lg px-4 py-3">
+                <div className="min-w-0">
+                  <div className={`text-sm font-medium ${style.className}`}>
+                    {style.icon} {check.label}
+                  </div>
+                  {check.detail && (
+                    <div className="text-xs text-text-secondary break-words">{check.detail}</div>
+                  )}
+                </div>
+                <div className="text-sm font-mono text-white whitespace-nowrap">
+                  {check.latencyMs !== null ? `${check.latencyMs} ms` : '—'}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,273 @@
+'use client';
+
+import { useState } from 'react';
+import { useCredentialVault, type ExchangeCredentials } from '../../hooks/useCredentialVault';
+import { vaultConfig } from '../../config/vault';
+import {
+  createVault,
+  emptyCredentials,
+  forgetVault,
+  lockVault,
+  sendCredentialsToBackend,
+  unlockVault,
+  updateVault
+} from '../../lib/settings/credentialVault';
+
+const inputClassName =
+  'w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed';
+const primaryButtonClassName =
+  'px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+const secondaryButtonClassName =
+  'px-4 py-2 bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+type CredentialField = {
+  [S in keyof ExchangeCredentials]: { section: S; field: keyof ExchangeCredentials[S]; label: string; secret: boolean };
+}[keyof ExchangeCredentials];
+
+const CREDENTIAL_FIELDS: { title: string; fields: CredentialField[] }[] = [
+  {
+    title: 'Backend',
+    fields: [{ section: 'backend', field: 'api_token', label: 'Access Token', secret: true }]
+  },
+  {
+    title: 'Bybit',
+    fields: [
+      { section: 'bybit', field: 'api_key', label: 'API Key', secret: true },
+      { section: 'bybit', field: 'secret', label: 'Secret', secret: true }
+    ]
+  },
+  {
+    title: 'HyperLiquid',
+    fields: [
+      { section: 'hyperliquid', field: 'secret_key', label: 'Secret Key', secret: true },
+      { section: 'hyperliquid', field: 'account_address', label: 'Account Address', secret: false }
+    ]
+  }
+];
+
+const formatMinutes = (ms: number) => `${Math.round(ms / 60000)} min`;
+
+export default function CredentialVaultPanel() {
+  const vault = useCredentialVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  // Edits in progress; null means the form shows what the vault holds
+  const [draft, setDraft] = useState<ExchangeCredentials | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Locking (by hand or after inactivity) throws away unsaved edits along with the decrypted credentials
+  const [draftStatus, setDraftStatus] = useState(vault.status);
+  if (draftStatus !== vault.status) {
+    setDraftStatus(vault.status);
+    setDraft(null);
+  }
+
+  const credentials = draft ?? vault.credentials ?? emptyCredentials;
+
+  const run = async (action: () => Promise<string | null>) => {
+    setIsBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      setNotice(await action());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Vault operation failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFieldChange = (change: CredentialField, value: string) => {
+    setDraft({
+      ...credentials,
+      [change.section]: { ...credentials[change.section], [change.field]: value }
+    });
+  };
+
+  const handleCreate = () =>
+    run(async () => {
+      if (passphrase !== confirmation) throw new Error('Passphrases do not match');
+      await createVault(passphrase, credentials);
+      setPassphrase('');
+      setConfirmation('');
+      setDraft(null);
+      return 'Vault created and unlocked';
+    });
+
+  const handleUnlock = () =>
+    run(async () => {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      return null;
+    });
+
+  const handleSave = (sendToBackend: boolean) =>
+    run(async () => {
+      if (draft) {
+        await updateVault(draft);
+        setDraft(null);
+      }
+      if (!sendToBackend) return 'Credentials saved';
+
+      const status = await sendCredentialsToBackend();
+      const configured = [status.bybit.configured && 'Bybit', status.hyperliquid.configured && 'HyperLiquid'].filter(Boolean);
+      return `Credentials saved and sent; backend has ${configured.join(' and ') || 'no exchanges'} configured`;
+    });
+
+  const handleLock = () => {
+    setDraft(null);
+    setNotice(null);
+    lockVault();
+  };
+
+  const handleForget = () => {
+    if (!confirm('Delete the encrypted credentials from this browser? They cannot be recovered.')) return;
+    setDraft(null);
+    setPassphrase('');
+    setNotice(null);
+    setError(null);
+    forgetVault();
+  };
+
+  const renderCredentialFields = () => (
+    <div className="space-y-6">
+      {CREDENTIAL_FIELDS.map(group => (
+        <div key={group.title} className="space-y-4">
+          <div className="text-sm font-medium text-white">{group.title}</div>
+          {group.fields.map(field => (
+            <div key={`${field.section}.${String(field.field)}`} className="space-y-2">
+              <label className="block text-sm font-medium text-text-secondary">{field.label}</label>
+              <input
+                type={field.secret ? 'password' : 'text'}
+                autoComplete="off"
+                value={(credentials[field.section] as Record<string, string>)[field.field as string]}
+                onChange={(e) => handleFieldChange(field, e.target.value)}
+                disabled={isBusy}
+                className={inputClassName}
+                placeholder={`Enter your ${group.title} ${field.label.toLowerCase()}`}
+              />
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderBody = () => {
+    switch (vault.status) {
+      case 'unsupported':
+        return (
+          <p className="text-sm text-text-secondary">
+            This browser has no WebCrypto support, so credentials cannot be stored securely here.
+          </p>
+        );
+
+      case 'empty':
+        return (
+          <div className="space-y-6">
+            <p className="text-sm text-text-secondary">
+              Credentials are encrypted with your passphrase and stored in this browser only. The passphrase itself is never saved.
+            </p>
+            {renderCredentialFields()}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-text-secondary">Passphrase</label>
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  disabled={isBusy}
+                  className={inputClassName}
+                  placeholder={`At least ${vaultConfig.minPassphraseLength} characters`}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="block text-sm font-medium text-text-secondary">Confirm Passphrase</label>
+                <input
+                  type="password"
+                  autoComplete="new-password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  disabled={isBusy}
+                  className={inputClassName}
+                />
+              </div>
+            </div>
+            <button onClick={handleCreate} disabled={isBusy || !passphrase} className={primaryButtonClassName}>
+              {isBusy ? 'Encrypting...' : 'Create Vault'}
+            </button>
+          </div>
+        );
+
+      case 'locked':
+        return (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleUnlock();
+            }}
+          >
+            <p className="text-sm text-text-secondary">Enter your passphrase to unlock credentials for this session.</p>
+            <input
+              type="password"
+              autoComplete="current-password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              disabled={isBusy}
+              className={inputClassName}
+              placeholder="Passphrase"
+            />
+            <div className="flex gap-4">
+              <button type="submit" disabled={isBusy || !passphrase} className={primaryButtonClassName}>
+                {isBusy ? 'Unlocking...' : 'Unlock'}
+              </button>
+              <button type="button" onClick={handleForget} disabled={isBusy} className={secondaryButtonClassName}>
+                Forget Vault
+              </button>
+            </div>
+          </form>
+        );
+
+      case 'unlocked':
+        return (
+          <div className="space-y-6">
+            {renderCredentialFields()}
+            <div className="flex items-center justify-between">
+              <div className="flex gap-4">
+                <button onClick={() => handleSave(false)} disabled={isBusy || !draft} className={secondaryButtonClassName}>
+                  Save
+                </button>
+                <button onClick={() => handleSave(true)} disabled={isBusy} className={primaryButtonClassName}>
+                  {isBusy ? 'Sending...' : 'Save & Send to Backend'}
+                </button>
+              </div>
+              <span className="text-xs text-text-secondary">
+                Locks after {formatMinutes(vaultConfig.autoLockAfterMs)} of inactivity
+              </span>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-bold text-white">Exchange Credentials</h3>
+        {vault.status === 'unlocked' && (
+          <button onClick={handleLock} className={secondaryButtonClassName}>
+            🔒 Lock
+          </button>
+        )}
+        {vault.status === 'locked' && <span className="text-sm text-text-secondary">🔒 Locked</span>}
+      </div>
+      {renderBody()}
+      {error && <p className="mt-4 text-sm text-error">{error}</p>}
+      {notice && <p className="mt-4 text-sm text-success">{notice}</p>}
+    </div>
+  );
+}
@@ -1,5 +1,3 @@
-/* eslint-disable @typescript-eslint/no-unused-vars */
-
 'use client';
 
 import { useState } from 'react';
@@ -8,113 +6,94 @@ import FundingRatesTable from './FundingRatesTable';
 import TradeSetupPanel from './TradeSetupPanel';
 import ActivePositionsMonitor from './ActivePositionsMonitor';
 import ClosedPositions from './ClosedPositions';
+import ExecutionsPanel from './ExecutionsPanel';
+import AlertFeed from './AlertFeed';
+import ModifyPositionDialog from './ModifyPositionDialog';
 import AutomationPanel from './AutomationPanel';
-
-interface ConnectionSettings {
-  websocket: {
-    host: string;
-    port: number;
-  };
-  api: {
-    host: string;
-    port: number;
-  };
-  bybit: {
-    api_key: string;
-    secret: string;
-    testnet: boolean;
-  };
-  hyperliquid: {
-    secret_key: string;
-    account_address: string;
-    testnet: boolean;
-  };
-}
-
-interface Position {
-  id: string;
-  pair: string;
-  entryTime: Date;
-  currentPnL: number;
-  status: 'Opening' | 'Active' | 'Closing' | 'Closed';
-  amount: number;
-  entryPrice: {
-    hyperliquid: number;
-    bybit: number;
-  };
-  currentPrice: {
-    hyperliquid: number;
-    bybit: number;
-  };
-}
-
-interface TradeData {
-  pair: string;
-  amount: number;
-  currency: 'USDT' | 'BTC' | 'ETH';
-}
+import SessionRecorderPanel from './SessionRecorderPanel';
+import ReplayBanner from './ReplayBanner';
+import CredentialVaultPanel from './CredentialVaultPanel';
+import EnvironmentBanner from './EnvironmentBanner';
+import ConnectionTestPanel from './ConnectionTestPanel';
+import ConfigTransferPanel from './ConfigTransferPanel';
+import OrderReconciler from './OrderReconciler';
+import AlertWatcher from './AlertWatcher';
+import { useConnectionProfiles } from '../../hooks/useConnectionSettings';
+import {
+  PROFILE_ENVIRONMENTS,
+  apiBaseUrl,
+  copyConnectionProfile,
+  deleteConnectionProfile,
+  saveConnectionProfile,
+  setActiveConnectionProfile,
+  websocketUrl,
+  type ConnectionProfile,
+  type ConnectionSettings,
+  type ConnectionSettingsErrors,
+  type ConnectionSettingsField,
+  type ProfileEnvironment
+} from '../../lib/settings/connectionSettings';
 
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState('manual');
   const [selectedPair, setSelectedPair] = useState('');
-  const [positions, setPositions] = useState<Position[]>([]);
+  // Position the modify dialog is open for
+  const [modifyingSymbol, setModifyingSymbol] = useState<string | null>(null);
   const [isEditingSettings, setIsEditingSettings] = useState(false);
-  const [editedSettings, setEditedSettings] = useState<ConnectionSettings>({
-    websocket: {
-      host: 'localhost',
-      port: 8765,
-    },
-    api: {
-      host: 'localhost',
-      port: 8080,
-    },
-    bybit: {
-      api_key: '',
-      secret: '',
-      testnet: false,
-    },
-    hyperliquid: {
-      secret_key: '',
-      account_address: '',
-      testnet: false,
-    },
-  });
-  const [connectionSettings, setConnectionSettings] = useState<ConnectionSettings>({
-    websocket: {
-      host: 'localhost',
-      port: 8765,
-    },
-    api: {
-      host: 'localhost',
-      port: 8080,
-    },
-    bybit: {
-      api_key: '',
-      secret: '',
-      testnet: false,
-    },
-    hyperliquid: {
-      secret_key: '',
-      account_address: '',
-      testnet: false,
-    },
-  });
+  const { profiles, activeProfileId } = useConnectionProfiles();
+  // Profile shown in the settings tab; defaults to the active one
+  const [selectedProfileId, setSelectedProfileId] = useState<string | null>(null);
+  const connectionSettings =
+    profiles.find(profile => profile.id === selectedProfileId) ??
+    profiles.find(profile => profile.id === activeProfileId) ??
+    profiles[0];
+  const [editedSettings, setEditedSettings] = useState<ConnectionProfile>(connectionSettings);
+  const [settingsErrors, setSettingsErrors] = useState<ConnectionSettingsErrors>({});
 
   const handleStartEditing = () => {
     setEditedSettings(connectionSettings);
+    setSettingsErrors({});
     setIsEditingSettings(true);
   };
 
   const handleCancelEditing = () => {
     setIsEditingSettings(false);
+    setSettingsErrors({});
     setEditedSettings(connectionSettings);
   };
 
   const handleSaveSettings = () => {
-    setConnectionSettings(editedSettings);
+    // Nothing is applied unless every field is valid; saving the active profile reconnects right away
+    const errors = saveConnectionProfile(editedSettings);
+    setSettingsErrors(errors);
+    if (Object.keys(errors).length > 0) return;
+
+    setSelectedProfileId(editedSettings.id);
     setIsEditingSettings(false);
   };
 
+  const handleNewProfile = () => {
+    // Starts from the profile on screen and only exists once saved
+    setEditedSettings(copyConnectionProfile(connectionSettings));
+    setSettingsErrors({});
+    setIsEditingSettings(true);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!confirm(`Delete the "${connectionSettings.name}" connection profile?`)) return;
+    deleteConnectionProfile(connectionSettings.id);
+    setSelectedProfileId(null);
+  };
+
+  const handleProfileFieldChange = (field: 'name' | 'environment', value: string) => {
+    setEditedSettings(prev => ({ ...prev, [field]: value }));
+  };
+
+  const renderFieldError = (field: ConnectionSettingsField) =>
+    isEditingSettings && settingsErrors[field] ? (
+      <p className="text-xs text-error">{settingsErrors[field]}</p>
+    ) : null;
+
   const handleSettingChange = (
     section: keyof ConnectionSettings,
     field: string,
@@ -133,89 +112,32 @@ export default function Dashboard() {
     setSelectedPair(pair);
   };
 
-  const handleExecuteTrade = (trade: TradeData) => {
-    // Create a new position
-    const newPosition: Position = {
-      id: `POS-${Date.now()}-${Math.random().toString(36).substr(2, 5).toUpperCase()}`,
-      pair: trade.pair,
-      entryTime: new Date(),
-      currentPnL: 0, // Will be updated by real-time data
-      status: 'Opening',
-      amount: trade.amount,
-      entryPrice: {
-        hyperliquid: 50000, // Mock price
-        bybit: 49950 // Mock price
-      },
-      currentPrice: {
-        hyperliquid: 50000,
-        bybit: 49950
-      }
-    };
-
-    setPositions(prev => [...prev, newPosition]);
-
-    // Simulate position status changes
-    setTimeout(() => {
-      setPositions(prev => prev.map(pos => 
-        pos.id === newPosition.id 
-          ? { ...pos, status: 'Active' as const, currentPnL: Math.random() * 100 - 20 }
-          : pos
-      ));
-    }, 2000);
-
-    // Simulate P&L updates
-    const pnlInterval = setInterval(() => {
-      setPositions(prev => prev.map(pos => 
-        pos.id === newPosition.id && pos.status === 'Active'
-          ? { ...pos, currentPnL: pos.currentPnL + (Math.random() - 0.5) * 10 }
-          : pos
-      ));
-    }, 3000);
-
-    // Cleanup interval after 5 minutes (for demo)
-    setTimeout(() => {
-      clearInterval(pnlInterval);
-    }, 5 * 60 * 1000);
-  };
-
-  const handleClosePosition = (positionId: string) => {
-    setPositions(prev => prev.map(pos => 
-      pos.id === positionId 
-        ? { ...pos, status: 'Closing' as const }
-        : pos
-    ));
-
-    // Simulate closing delay
-    setTimeout(() => {
-      setPositions(prev => prev.map(pos => 
-        pos.id === positionId 
-          ? { ...pos, status: 'Closed' as const }
-          : pos
-      ));
-    }, 3000);
-  };
-
   const handleModifyPosition = (positionId: string) => {
-    // In a real app, this would open a modify position modal
-    console.log('Modify position:', positionId);
-    // For now, just show an alert
-    alert(`Modify position ${positionId} - Feature coming soon!`);
+    setModifyingSymbol(positionId);
   };
 
   const renderSettingsTab = () => (
     <div className="space-y-6">
-      {/* WebSocket Settings */}
+      {/* Connection Profiles */}
       <div className="glass-card rounded-xl p-6">
         <div className="flex justify-between items-center mb-6">
-          <h3 className="text-lg font-bold text-white">WebSocket Settings</h3>
+          <h3 className="text-lg font-bold text-white">Connection Profiles</h3>
           <div className="flex gap-4">
             {!isEditingSettings ? (
-              <button
-                onClick={handleStartEditing}
-                className="px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors"
-              >
-                Edit Settings
-              </button>
+              <>
+                <button
+                  onClick={handleNewProfile}
+                  className="px-4 py-2 bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors"
+                >
+                  New Profile
+                </button>
+                <button
+                  onClick={handleStartEditing}
+                  className="px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors"
+                >
+                  Edit Profile
+                </button>
+              </>
             ) : (
               <>
                 <button
@@ -234,7 +156,78 @@ export default function Dashboard() {
             )}
           </div>
         </div>
+        <div className="flex flex-wrap gap-2 mb-6">
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => setSelectedProfileId(profile.id)}
+              disabled={isEditingSettings}
+              className={`px-3 py-1.5 rounded-lg text-sm transition-colors disabled:cursor-not-allowed ${
+                profile.id === connectionSettings.id
+                  ? 'bg-white/10 text-white border border-accent/50'
+                  : 'bg-white/5 text-text-secondary border border-white/10 hover:text-white'
+              }`}
+            >
+              {profile.name}
+              <span className="ml-2 text-xs text-text-secondary">
+                {PROFILE_ENVIRONMENTS.find(env => env.value === profile.environment)?.label}
+              </span>
+              {profile.id === activeProfileId && <span className="ml-2 text-xs text-success">● Active</span>}
+            </button>
+          ))}
+        </div>
         <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-text-secondary">Name</label>
+            <input
+              type="text"
+              value={isEditingSettings ? editedSettings.name : connectionSettings.name}
+              onChange={(e) => handleProfileFieldChange('name', e.target.value)}
+              disabled={!isEditingSettings}
+              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            {renderFieldError('name')}
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-text-secondary">Environment</label>
+            <select
+              value={isEditingSettings ? editedSettings.environment : connectionSettings.environment}
+              onChange={(e) => handleProfileFieldChange('environment', e.target.value as ProfileEnvironment)}
+              disabled={!isEditingSettings}
+              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {PROFILE_ENVIRONMENTS.map(env => (
+                <option key={env.value} value={env.value} className="bg-card">{env.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        {!isEditingSettings && (
+          <div className="flex gap-4 mt-6">
+            {connectionSettings.id !== activeProfileId && (
+              <button
+                onClick={() => setActiveConnectionProfile(connectionSettings.id)}
+                className="px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors"
+              >
+                Switch to This Profile
+              </button>
+            )}
+            {profiles.length > 1 && (
+              <button
+                onClick={handleDeleteProfile}
+                className="px-4 py-2 bg-error/10 text-error rounded-lg font-medium hover:bg-error/20 transition-colors"
+              >
+                Delete Profile
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* WebSocket Settings */}
+      <div className="glass-card rounded-xl p-6">
+        <h3 className="text-lg font-bold text-white mb-4">WebSocket Settings</h3>
+        <div className="grid grid-cols-3 gap-4">
           <div className="space-y-2">
             <label className="block text-sm font-medium text-text-secondary">Host</label>
             <input
@@ -244,24 +237,54 @@ export default function Dashboard() {
               disabled={!isEditingSettings}
               className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
             />
+            {renderFieldError('websocket.host')}
           </div>
           <div className="space-y-2">
             <label className="block text-sm font-medium text-text-secondary">Port</label>
             <input
               type="number"
-              value={isEditingSettings ? editedSettings.websocket.port : connectionSettings.websocket.port}
+              value={isEditingSettings ? (Number.isNaN(editedSettings.websocket.port) ? '' : editedSettings.websocket.port) : connectionSettings.websocket.port}
               onChange={(e) => handleSettingChange('websocket', 'port', parseInt(e.target.value))}
               disabled={!isEditingSettings}
               className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
             />
+            {renderFieldError('websocket.port')}
+          </div>
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-text-secondary">Path</label>
+            <input
+              type="text"
+              value={isEditingSettings ? editedSettings.websocket.path : connectionSettings.websocket.path}
+              onChange={(e) => handleSettingChange('websocket', 'path', e.target.value)}
+              disabled={!isEditingSettings}
+              placeholder="/ws (optional)"
+              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-text-secondary focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            {renderFieldError('websocket.path')}
+          </div>
+        </div>
+        <div className="flex items-center justify-between mt-4">
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="websocket-secure"
+              checked={isEditingSettings ? editedSettings.websocket.secure : connectionSettings.websocket.secure}
+              onChange={(e) => handleSettingChange('websocket', 'secure', e.target.checked)}
+              disabled={!isEditingSettings}
+              className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent disabled:opacity-50 disabled:cursor-not-allowed"
+            />
+            <label htmlFor="websocket-secure" className="text-sm font-medium text-text-secondary">
+              Use TLS (wss)
+            </label>
           </div>
+          <span className="text-xs text-text-secondary font-mono">{websocketUrl(connectionSettings)}</span>
         </div>
       </div>
 
       {/* API Settings */}
       <div className="glass-card rounded-xl p-6">
         <h3 className="text-lg font-bold text-white mb-4">API Settings</h3>
-        <div className="grid grid-cols-2 gap-4">
+        <div className="grid grid-cols-3 gap-4">
           <div className="space-y-2">
             <label className="block text-sm font-medium text-text-secondary">Host</label>
             <input
@@ -271,87 +294,66 @@ export default function Dashboard() {
               disabled={!isEditingSettings}
               className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
             />
+            {renderFieldError('api.host')}
           </div>
           <div className="space-y-2">
             <label className="block text-sm font-medium text-text-secondary">Port</label>
             <input
               type="number"
-              value={isEditingSettings ? editedSettings.api.port : connectionSettings.api.port}
+              value={isEditingSettings ? (Number.isNaN(editedSettings.api.port) ? '' : editedSettings.api.port) : connectionSettings.api.port}
               onChange={(e) => handleSettingChange('api', 'port', parseInt(e.target.value))}
               disabled={!isEditingSettings}
               className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
             />
+            {renderFieldError('api.port')}
           </div>
-        </div>
-      </div>
-
-      {/* Bybit Settings */}
-      <div className="glass-card rounded-xl p-6">
-        <h3 className="text-lg font-bold text-white mb-4">Bybit Settings</h3>
-        <div className="space-y-4">
           <div className="space-y-2">
-            <label className="block text-sm font-medium text-text-secondary">API Key</label>
+            <label className="block text-sm font-medium text-text-secondary">Path</label>
             <input
-              type="password"
-              value={isEditingSettings ? editedSettings.bybit.api_key : connectionSettings.bybit.api_key}
-              onChange={(e) => handleSettingChange('bybit', 'api_key', e.target.value)}
-              disabled={!isEditingSettings}
-              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
-              placeholder="Enter your Bybit API key"
-            />
-          </div>
-          <div className="space-y-2">
-            <label className="block text-sm font-medium text-text-secondary">Secret</label>
-            <input
-              type="password"
-              value={isEditingSettings ? editedSettings.bybit.secret : connectionSettings.bybit.secret}
-              onChange={(e) => handleSettingChange('bybit', 'secret', e.target.value)}
+              type="text"
+              value={isEditingSettings ? editedSettings.api.path : connectionSettings.api.path}
+              onChange={(e) => handleSettingChange('api', 'path', e.target.value)}
               disabled={!isEditingSettings}
-              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
-              placeholder="Enter your Bybit secret"
+              placeholder="/api (optional)"
+              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white placeholder-text-secondary focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
             />
+            {renderFieldError('api.path')}
           </div>
+        </div>
+        <div className="flex items-center justify-between mt-4">
           <div className="flex items-center space-x-2">
             <input
               type="checkbox"
-              id="bybit-testnet"
-              checked={isEditingSettings ? editedSettings.bybit.testnet : connectionSettings.bybit.testnet}
-              onChange={(e) => handleSettingChange('bybit', 'testnet', e.target.checked)}
+              id="api-secure"
+              checked={isEditingSettings ? editedSettings.api.secure : connectionSettings.api.secure}
+              onChange={(e) => handleSettingChange('api', 'secure', e.target.checked)}
               disabled={!isEditingSettings}
               className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent disabled:opacity-50 disabled:cursor-not-allowed"
             />
-            <label htmlFor="bybit-testnet" className="text-sm font-medium text-text-secondary">
-              Use Testnet
+            <label htmlFor="api-secure" className="text-sm font-medium text-text-secondary">
+              Use TLS (https)
             </label>
           </div>
+          <span className="text-xs text-text-secondary font-mono">{apiBaseUrl(connectionSettings)}</span>
         </div>
       </div>
 
-      {/* HyperLiquid Settings */}
+      {/* Exchange Networks */}
       <div className="glass-card rounded-xl p-6">
-        <h3 className="text-lg font-bold text-white mb-4">HyperLiquid Settings</h3>
+        <h3 className="text-lg font-bold text-white mb-4">Exchange Networks</h3>
         <div className="space-y-4">
-          <div className="space-y-2">
-            <label className="block text-sm font-medium text-text-secondary">Secret Key</label>
-            <input
-              type="password"
-              value={isEditingSettings ? editedSettings.hyperliquid.secret_key : connectionSettings.hyperliquid.secret_key}
-              onChange={(e) => handleSettingChange('hyperliquid', 'secret_key', e.target.value)}
-              disabled={!isEditingSettings}
-              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
-              placeholder="Enter your HyperLiquid secret key"
-            />
-          </div>
-          <div className="space-y-2">
-            <label className="block text-sm font-medium text-text-secondary">Account Address</label>
+          <div className="flex items-center space-x-2">
             <input
-              type="text"
-              value={isEditingSettings ? editedSettings.hyperliquid.account_address : connectionSettings.hyperliquid.account_address}
-              onChange={(e) => handleSettingChange('hyperliquid', 'account_address', e.target.value)}
+              type="checkbox"
+              id="bybit-testnet"
+              checked={isEditingSettings ? editedSettings.bybit.testnet : connectionSettings.bybit.testnet}
+              onChange={(e) => handleSettingChange('bybit', 'testnet', e.target.checked)}
               disabled={!isEditingSettings}
-              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent disabled:opacity-50 disabled:cursor-not-allowed"
-              placeholder="Enter your HyperLiquid account address"
+              className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent disabled:opacity-50 disabled:cursor-not-allowed"
             />
+            <label htmlFor="bybit-testnet" className="text-sm font-medium text-text-secondary">
+              Use Bybit Testnet
+            </label>
           </div>
           <div className="flex items-center space-x-2">
             <input
@@ -363,11 +365,27 @@ export default function Dashboard() {
               className="w-4 h-4 rounded border-white/10 bg-white/5 text-accent focus:ring-accent disabled:opacity-50 disabled:cursor-not-allowed"
             />
             <label htmlFor="hyperliquid-testnet" className="text-sm font-medium text-text-secondary">
-              Use Testnet
+              Use HyperLiquid Testnet
             </label>
           </div>
         </div>
       </div>
+
+      {/* Connection Test */}
+      <ConnectionTestPanel
+        settings={isEditingSettings ? editedSettings : connectionSettings}
+        unsaved={isEditingSettings}
+        label={isEditingSettings ? `unsaved changes to "${editedSettings.name}"` : `"${connectionSettings.name}"`}
+      />
+
+      {/* Exchange Credentials */}
+      <CredentialVaultPanel />
+
+      {/* Import / Export */}
+      <ConfigTransferPanel />
+
+      {/* Session Recording */}
+      <SessionRecorderPanel />
     </div>
   );
 
@@ -376,6 +394,9 @@ export default function Dashboard() {
       case 'manual':
         return (
           <div className="space-y-6">
+            {/* Opportunity alerts from snapshot changes */}
+            <AlertFeed />
+
             {/* Funding Rates Table - Combined arbitrage opportunities */}
             <FundingRatesTable onPairSelect={handlePairSelect} />
             
@@ -383,14 +404,19 @@ export default function Dashboard() {
             <TradeSetupPanel 
               selectedPair={selectedPair}
               onPairChange={setSelectedPair}
-              onExecuteTrade={handleExecuteTrade}
             />
             
             {/* Active Positions Monitor */}
             <ActivePositionsMonitor 
-              onClosePosition={handleClosePosition}
               onModifyPosition={handleModifyPosition}
             />
+
+            {modifyingSymbol && (
+              <ModifyPositionDialog symbol={modifyingSymbol} onClose={() => setModifyingSymbol(null)} />
+            )}
+
+            {/* Open/close lifecycles with per-leg fills */}
+            <ExecutionsPanel />
             
             {/* Closed Positions */}
             <ClosedPositions />
@@ -422,28 +448,36 @@ export default function Dashboard() {
 
   return (
     <div className="flex h-screen bg-background">
+      <OrderReconciler />
+      <AlertWatcher />
+
       {/* Sidebar */}
       <Sidebar activeTab={activeTab} onTabChange={setActiveTab} />
       
       {/* Main Content */}
-      <div className="flex-1 overflow-auto">
-        <div className="p-6">
-          <div className="mb-6">
-            <h1 className="text-3xl font-bold text-white mb-2">
-              {activeTab === 'manual' && 'Manual Trading'}
-              {activeTab === 'automatic' && 'Automatic Trading'}
-              {activeTab === 'backtesting' && 'Backtesting'}
-              {activeTab === 'settings' && 'Connection Settings'}
-            </h1>
-            <p className="text-text-secondary">
-              {activeTab === 'manual' && 'View comprehensive data from HyperLiquid and Bybit exchanges to execute arbitrage trades manually'}
-              {activeTab === 'automatic' && 'Set up automated trading strategies for continuous arbitrage'}
-              {activeTab === 'backtesting' && 'Test and optimize your trading strategies with historical data'}
-              {activeTab === 'settings' && 'Configure connection parameters for WebSocket, API, and exchange credentials'}
-            </p>
-          </div>
+      <div className="flex-1 flex flex-col min-w-0">
+        <EnvironmentBanner />
+        <div className="flex-1 overflow-auto">
+          <div className="p-6">
+            <div className="mb-6">
+              <h1 className="text-3xl font-bold text-white mb-2">
+                {activeTab === 'manual' && 'Manual Trading'}
+                {activeTab === 'automatic' && 'Automatic Trading'}
+                {activeTab === 'backtesting' && 'Backtesting'}
+                {activeTab === 'settings' && 'Connection Settings'}
+              </h1>
+              <p className="text-text-secondary">
+                {activeTab === 'manual' && 'View comprehensive data from HyperLiquid and Bybit exchanges to execute arbitrage trades manually'}
+                {activeTab === 'automatic' && 'Set up automated trading strategies for continuous arbitrage'}
+                {activeTab === 'backtesting' && 'Test and optimize your trading strategies with historical data'}
+                {activeTab === 'settings' && 'Configure connection parameters for WebSocket, API, and exchange credentials'}
+              </p>
+            </div>
+
+            <ReplayBanner />
           
-          {renderTabContent()}
+            {renderTabContent()}
+          </div>
         </div>
       </div>
     </div>
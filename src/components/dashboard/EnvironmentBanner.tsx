@@ -0,0 +1,31 @@
+'use client';
+
+import { useConnectionSettings, type ProfileEnvironment } from '../../hooks/useConnectionSettings';
+import { apiBaseUrl, websocketUrl } from '../../lib/settings/connectionSettings';
+
+const BANNER_STYLES: Record<Exclude<ProfileEnvironment, 'production'>, { className: string; label: string }> = {
+  local: { className: 'bg-sky-500/15 border-sky-400/40 text-sky-200', label: '🛠️ LOCAL' },
+  testnet: { className: 'bg-amber-500/15 border-amber-400/40 text-amber-200', label: '🧪 TESTNET' }
+};
+
+// Always visible above the content while a non-production profile is active, so test and live data can't be confused
+export default function EnvironmentBanner() {
+  const profile = useConnectionSettings();
+  if (profile.environment === 'production') return null;
+
+  const style = BANNER_STYLES[profile.environment];
+  const testnets = [profile.bybit.testnet && 'Bybit', profile.hyperliquid.testnet && 'HyperLiquid'].filter(Boolean);
+
+  return (
+    <div className={`flex items-center justify-between gap-4 border-b px-6 py-2 text-sm ${style.className}`}>
+      <div className="flex items-center gap-3">
+        <span className="font-bold tracking-wide">{style.label}</span>
+        <span>Profile &quot;{profile.name}&quot;</span>
+        {testnets.length > 0 && <span className="opacity-80">· {testnets.join(' & ')} on testnet</span>}
+      </div>
+      <span className="font-mono text-xs opacity-80">
+        {websocketUrl(profile)} · {apiBaseUrl(profile)}
+      </span>
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+'use client';
+
+import { useState } from 'react';
+import { useExecutions, type Execution, type ExecutionState, type LegEvent } from '../../hooks/useExecutions';
+
+// Lifecycles shown before "Show all"
+const COLLAPSED_COUNT = 5;
+
+const STATE_STYLES: Record<ExecutionState, { label: string; className: string }> = {
+  submitted: { label: 'Submitted', className: 'bg-white/10 text-text-secondary' },
+  opening: { label: 'Opening', className: 'bg-cyan-500/20 text-cyan-300' },
+  active: { label: 'Active', className: 'bg-success/20 text-success' },
+  closing: { label: 'Closing', className: 'bg-amber-500/20 text-amber-300' },
+  closed: { label: 'Closed', className: 'bg-purple-500/20 text-purple-300' },
+  failed: { label: 'Failed', className: 'bg-error/20 text-error' }
+};
+
+const LEG_STATUS_STYLES: Record<LegEvent['status'], string> = {
+  submitted: 'text-text-secondary',
+  filled: 'text-success',
+  rejected: 'text-error'
+};
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' }) +
+  `.${String(new Date(at).getMilliseconds()).padStart(3, '0')}`;
+
+const formatPrice = (value: number | null) => {
+  if (value === null) return '—';
+  return value.toLocaleString('en-US', { maximumSignificantDigits: 6 });
+};
+
+const formatNumber = (value: number | null, digits: number) => (value === null ? '—' : value.toFixed(digits));
+
+// Volume-weighted fill price of one leg's fills for a request
+const averageFill = (legs: LegEvent[]) => {
+  const filled = legs.filter(leg => leg.status === 'filled' && leg.price !== null && leg.quantity !== null);
+  const quantity = filled.reduce((sum, leg) => sum + (leg.quantity ?? 0), 0);
+  if (quantity === 0) return null;
+  return filled.reduce((sum, leg) => sum + (leg.price ?? 0) * (leg.quantity ?? 0), 0) / quantity;
+};
+
+function ExecutionCard({ execution }: { execution: Execution }) {
+  const [expanded, setExpanded] = useState(false);
+  const style = STATE_STYLES[execution.state];
+  const bybitEntry = averageFill(execution.legs.filter(leg => leg.leg === 'bybit' && leg.action === 'open'));
+  const hlEntry = averageFill(execution.legs.filter(leg => leg.leg === 'hyperliquid' && leg.action === 'open'));
+
+  return (
+    <div className="bg-white/5 rounded-lg p-4">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <span className="font-bold text-white">{execution.symbol}</span>
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${style.className}`}>{style.label}</span>
+            {execution.amount !== null && (
+              <span className="text-xs text-text-secondary">{execution.amount} USDT</span>
+            )}
+          </div>
+          {(bybitEntry !== null || hlEntry !== null) && (
+            <div className="text-xs text-text-secondary mt-1 font-mono">
+              Entry · Bybit {formatPrice(bybitEntry)} · HL {formatPrice(hlEntry)}
+            </div>
+          )}
+          {execution.awaiting && (
+            <div className="text-xs text-amber-300 mt-1">{execution.awaiting}</div>
+          )}
+        </div>
+        <button
+          onClick={() => setExpanded(prev => !prev)}
+          className="px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-white rounded-lg transition-colors shrink-0"
+        >
+          {expanded ? 'Hide Fills' : `Fills (${execution.legs.filter(leg => leg.status !== 'submitted').length})`}
+        </button>
+      </div>
+
+      {/* State transitions */}
+      <ol className="mt-3 space-y-1">
+        {execution.transitions.map((transition, index) => (
+          <li key={`${transition.state}-${index}`} className="flex items-baseline gap-3 text-xs">
+            <span className="font-mono text-text-secondary whitespace-nowrap">{formatTime(transition.at)}</span>
+            <span className={`px-1.5 rounded ${STATE_STYLES[transition.state].className}`}>
+              {STATE_STYLES[transition.state].label}
+            </span>
+            {transition.detail && <span className="text-text-secondary break-words">{transition.detail}</span>}
+          </li>
+        ))}
+      </ol>
+
+      {/* Per-leg updates */}
+      {expanded && (
+        execution.legs.length === 0 ? (
+          <p className="mt-3 text-xs text-text-secondary">No leg updates from the backend yet</p>
+        ) : (
+          <table className="w-full mt-3 text-xs">
+            <thead>
+              <tr className="text-left text-text-secondary">
+                <th className="py-1 pr-4 font-medium">Time</th>
+                <th className="py-1 pr-4 font-medium">Leg</th>
+                <th className="py-1 pr-4 font-medium">Side</th>
+                <th className="py-1 pr-4 font-medium">Status</th>
+                <th className="py-1 pr-4 font-medium text-right">Price</th>
+                <th className="py-1 pr-4 font-medium text-right">Quantity</th>
+                <th className="py-1 font-medium text-right">Fee</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {execution.legs.map((leg, index) => (
+                <tr key={`${leg.requestKey}-${leg.leg}-${leg.status}-${index}`} className="border-t border-white/5">
+                  <td className="py-1 pr-4 text-text-secondary whitespace-nowrap">{formatTime(leg.at)}</td>
+                  <td className="py-1 pr-4 text-white">{leg.leg === 'bybit' ? 'Bybit spot' : 'HyperLiquid perp'}</td>
+                  <td className={`py-1 pr-4 ${leg.side === 'buy' ? 'text-success' : 'text-error'}`}>{leg.side}</td>
+                  <td className={`py-1 pr-4 ${LEG_STATUS_STYLES[leg.status]}`} title={leg.error ?? undefined}>
+                    {leg.status}{leg.error ? ` (${leg.error})` : ''}
+                  </td>
+                  <td className="py-1 pr-4 text-right text-white">{formatPrice(leg.price)}</td>
+                  <td className="py-1 pr-4 text-right text-white">{formatNumber(leg.quantity, 6)}</td>
+                  <td className="py-1 text-right text-text-secondary">{formatNumber(leg.fee, 4)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )
+      )}
+    </div>
+  );
+}
+
+export default function ExecutionsPanel() {
+  const executions = useExecutions();
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll ? executions : executions.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-white">Executions</h3>
+          <p className="text-sm text-text-secondary">
+            Opens and closes as each leg reports back: Bybit spot and HyperLiquid perp
+          </p>
+        </div>
+        {executions.length > COLLAPSED_COUNT && (
+          <button
+            onClick={() => setShowAll(prev => !prev)}
+            className="px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-white rounded-lg transition-colors"
+          >
+            {showAll ? 'Show Recent' : `Show All (${executions.length})`}
+          </button>
+        )}
+      </div>
+
+      {executions.length === 0 ? (
+        <p className="text-sm text-text-secondary">No executions yet. Opens and closes show up here as they happen.</p>
+      ) : (
+        <div className="space-y-3">
+          {shown.map(execution => (
+            <ExecutionCard key={execution.id} execution={execution} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
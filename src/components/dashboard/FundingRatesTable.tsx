@@ -1,68 +1,116 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useSharedWebSocket, type ArbitragePair } from '../../hooks/useWebSocket';
+import { useState, useEffect, useMemo, memo, type ReactNode } from 'react';
+import {
+  useArbitrageData,
+  useCachedAt,
+  useConnectionStatus,
+  useTopic,
+  useWebSocketActions,
+  type ArbitragePair
+} from '../../hooks/useWebSocket';
+import StaleDataBadge from './StaleDataBadge';
+import ColumnChooser from './ColumnChooser';
+import FundingTableViews from './FundingTableViews';
+import Sparkline from './Sparkline';
+import PairHistoryChart from './PairHistoryChart';
+import { useAlertFeed } from '../../hooks/useAlerts';
+import { historyInRange, usePairHistory } from '../../hooks/usePairHistory';
+import { usePersistentStore } from '../../hooks/usePersistentStore';
+import {
+  fundingTablePreferencesStore,
+  type FundingTablePreferences,
+  type PairAvailabilityFilter
+} from '../../lib/settings/tablePreferences';
+import { toggleStarredPair, watchlistStore } from '../../lib/settings/watchlist';
+import {
+  FUNDING_HISTORY_RANGE_MS,
+  bybitSpreadPct,
+  compareByKeys,
+  getFundingColumn,
+  type FundingColumn,
+  type FundingColumnId,
+  type SortKey
+} from '../../lib/fundingTable/columns';
 
 interface FundingRatesTableProps {
   onPairSelect: (pair: string) => void;
 }
 
+const NO_PAIRS: ArbitragePair[] = [];
+
+const formatVolume = (volume: number | null): string => {
+  if (!volume && volume !== 0) return '0';
+  const safeVolume = volume || 0;
+  if (safeVolume >= 1_000_000) {
+    return `${(safeVolume / 1_000_000).toFixed(1)}M`;
+  } else if (safeVolume >= 1_000) {
+    return `${(safeVolume / 1_000).toFixed(1)}K`;
+  } else {
+    return safeVolume.toFixed(0);
+  }
+};
+
+// Function to remove /USDT suffix from pair names
+const formatPairName = (pairName: string): string => {
+  return pairName.replace(/\/USDT$/, '');
+};
+
 export default function FundingRatesTable({ onPairSelect }: FundingRatesTableProps) {
-  const [sortField, setSortField] = useState<keyof ArbitragePair>('funding_rate');
-  const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
+  // Columns, sorting, filters and page size are saved preferences; search and page are per visit
+  const { columns, sortField, sortDirection, secondarySort, filterBybitAvailable, pairsPerPage, starredOnly } =
+    usePersistentStore(fundingTablePreferencesStore);
+  const { starred } = usePersistentStore(watchlistStore);
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterBybitAvailable, setFilterBybitAvailable] = useState<'all' | 'available' | 'unavailable'>('all');
-  const [pairsPerPage, setPairsPerPage] = useState(10);
   const [currentPage, setCurrentPage] = useState(1);
-  const [newPairsAlert, setNewPairsAlert] = useState<string[]>([]);
+  const [expandedPair, setExpandedPair] = useState<string | null>(null);
 
-  // Use shared WebSocket connection - no more individual connections
-  const { data: arbitrageData, isConnected, isLoading, error, reconnect } = useSharedWebSocket();
+  // Select only what the table renders, so balance or position updates don't re-render it
+  const arbitrageData = useArbitrageData();
+  const { isConnected, isLoading, error, isStale, lastDataAt } = useConnectionStatus();
+  const dataCachedAt = useCachedAt('data');
+  const { reconnect } = useWebSocketActions();
+  useTopic('arbitrage_data');
   
   // Show loading state only when connected but waiting for data
   const showLoadingState = isConnected && isLoading;
-  // Show connecting state when not connected
-  const showConnectingState = !isConnected;
+  // Show connecting state when not connected and there's no earlier snapshot to show
+  const showConnectingState = !isConnected && !arbitrageData;
+  // Cached or last known pairs stay visible through disconnects, marked as stale
+  const isLive = isConnected && !isStale && dataCachedAt === null;
 
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  const fundingRates = isConnected ? (arbitrageData?.pairs || []) : [];
+  const fundingRates = arbitrageData?.pairs || NO_PAIRS;
+  const starredPairs = useMemo(() => new Set(starred), [starred]);
 
-  // Track new pairs for alerts
-  useEffect(() => {
-    if (fundingRates.length > 0) {
-      const currentPairs = new Set(fundingRates.map(pair => pair.pair));
-      const newPairs = Array.from(currentPairs).filter(pair => 
-        !fundingRates.some(old => old.pair === pair)
-      );
-      
-      if (newPairs.length > 0) {
-        setNewPairsAlert(newPairs);
-        setTimeout(() => setNewPairsAlert([]), 5000); // Clear after 5 seconds
-      }
-    }
-  }, [fundingRates]);
+  const updatePreferences = (update: Partial<FundingTablePreferences>) => {
+    fundingTablePreferencesStore.set(prev => ({ ...prev, ...update }));
+  };
+
+  // Pairs stay highlighted as new until their listing alert is dismissed
+  const alerts = useAlertFeed();
+  const newPairs = useMemo(
+    () => new Set(alerts.filter(alert => alert.kind === 'pair_added' && alert.pair).map(alert => alert.pair)),
+    [alerts]
+  );
 
-  // Filter and sort data
-  const filteredAndSorted = fundingRates
+  const visibleColumns = useMemo(() => columns.map(getFundingColumn), [columns]);
+  const sortKeys = useMemo<SortKey[]>(
+    () => [{ field: sortField, direction: sortDirection }, ...(secondarySort ? [secondarySort] : [])],
+    [sortField, sortDirection, secondarySort]
+  );
+
+  // Filter and sort data; only recomputed when the pairs array or the table controls change
+  const filteredAndSorted = useMemo(() => fundingRates
     .filter(rate => {
       const matchesSearch = rate.pair.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesFilter = 
         filterBybitAvailable === 'all' ||
         (filterBybitAvailable === 'available' && rate.bybit.available) ||
         (filterBybitAvailable === 'unavailable' && !rate.bybit.available);
-      return matchesSearch && matchesFilter;
+      const matchesWatchlist = !starredOnly || starredPairs.has(rate.pair);
+      return matchesSearch && matchesFilter && matchesWatchlist;
     })
-    .sort((a, b) => {
-      const aVal = a[sortField];
-      const bVal = b[sortField];
-      const direction = sortDirection === 'asc' ? 1 : -1;
-      
-      if (typeof aVal === 'number' && typeof bVal === 'number') {
-        return (aVal - bVal) * direction;
-      }
-      
-      return String(aVal).localeCompare(String(bVal)) * direction;
-    });
+    .sort(compareByKeys(sortKeys)), [fundingRates, searchTerm, filterBybitAvailable, starredOnly, starredPairs, sortKeys]);
 
   // Pagination - fix the infinity issue
   const effectivePairsPerPage = pairsPerPage === 0 ? filteredAndSorted.length : pairsPerPage;
@@ -70,33 +118,30 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
   const startIndex = (currentPage - 1) * effectivePairsPerPage;
   const paginatedData = pairsPerPage === 0 ? filteredAndSorted : filteredAndSorted.slice(startIndex, startIndex + effectivePairsPerPage);
 
-  const handleSort = (field: keyof ArbitragePair) => {
-    if (sortField === field) {
-      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+  // Click sorts by the column; shift-click makes it the secondary sort, like ClosedPositions' second row
+  const handleSort = (field: FundingColumnId, isSecondary: boolean) => {
+    const { defaultDirection } = getFundingColumn(field);
+    if (isSecondary) {
+      // Don't allow same field for both primary and secondary
+      if (sortField === field) return;
+      updatePreferences({
+        secondarySort: secondarySort?.field === field
+          ? { field, direction: secondarySort.direction === 'asc' ? 'desc' : 'asc' }
+          : { field, direction: defaultDirection }
+      });
+    } else if (sortField === field) {
+      updatePreferences({ sortDirection: sortDirection === 'asc' ? 'desc' : 'asc' });
     } else {
-      setSortField(field);
-      setSortDirection('desc');
+      updatePreferences({
+        sortField: field,
+        sortDirection: defaultDirection,
+        // Clear secondary sort if it's the same as new primary
+        secondarySort: secondarySort?.field === field ? null : secondarySort
+      });
     }
     setCurrentPage(1); // Reset to first page when sorting
   };
 
-  const formatVolume = (volume: number): string => {
-    if (!volume && volume !== 0) return '0';
-    const safeVolume = volume || 0;
-    if (safeVolume >= 1_000_000) {
-      return `${(safeVolume / 1_000_000).toFixed(1)}M`;
-    } else if (safeVolume >= 1_000) {
-      return `${(safeVolume / 1_000).toFixed(1)}K`;
-    } else {
-      return safeVolume.toFixed(0);
-    }
-  };
-
-  // Function to remove /USDT suffix from pair names
-  const formatPairName = (pairName: string): string => {
-    return pairName.replace(/\/USDT$/, '');
-  };
-
   return (
     <div className="glass-card rounded-xl p-6">
       <div className="flex items-center justify-between mb-6">
@@ -105,18 +150,25 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
             Combined Exchange Data - Real-time Arbitrage Dashboard
           </h2>
           <div className="flex items-center gap-4 mt-2">
-            <div className={`flex items-center gap-2 text-sm ${isConnected ? 'text-success' : 'text-error'}`}>
-              <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-success animate-pulse' : 'bg-error'}`}></div>
-              <span>{isConnected ? '💼 Live Updates' : 'Establishing connection...'}</span>
-            </div>
-            {isConnected && arbitrageData?.metadata && (
+            {arbitrageData && !isLive ? (
+              <StaleDataBadge
+                label={dataCachedAt !== null ? 'Cached snapshot' : 'Last known data'}
+                since={lastDataAt}
+              />
+            ) : (
+              <div className={`flex items-center gap-2 text-sm ${isConnected ? 'text-success' : 'text-error'}`}>
+                <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-success animate-pulse' : 'bg-error'}`}></div>
+                <span>{isConnected ? '💼 Live Updates' : 'Establishing connection...'}</span>
+              </div>
+            )}
+            {arbitrageData?.metadata && (
               <div className="text-sm text-text-secondary">
                 <span className="text-cyan-400 font-semibold">HyperLiquid:</span> {arbitrageData.metadata.hyperliquid_pairs_count} pairs
                 {' • '}
                 <span className="text-orange-400 font-semibold">Bybit:</span> {arbitrageData.metadata.bybit_pairs_count} pairs available
               </div>
             )}
-            {isConnected && arbitrageData?.metadata && (
+            {isLive && arbitrageData?.metadata && (
               <div className="text-xs text-success">
                 🔄 Auto-refresh every 1 minute
               </div>
@@ -125,15 +177,6 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
         </div>
       </div>
 
-      {/* New pairs alert */}
-      {newPairsAlert.length > 0 && (
-        <div className="mb-4 p-3 bg-success/20 border border-success/30 rounded-lg">
-          <div className="text-success text-sm font-medium">
-            🚀 New positive funding pairs detected: {newPairsAlert.map(formatPairName).join(', ')}
-          </div>
-        </div>
-      )}
-
       {/* Filters and Controls */}
       <div className="flex flex-wrap items-center gap-4 mb-6">
         <input
@@ -150,7 +193,7 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
         <select
           value={filterBybitAvailable}
           onChange={(e) => {
-            setFilterBybitAvailable(e.target.value as 'all' | 'available' | 'unavailable');
+            updatePreferences({ filterBybitAvailable: e.target.value as PairAvailabilityFilter });
             setCurrentPage(1);
           }}
           className="px-4 py-2 bg-tertiary border border-white/10 rounded-lg text-white focus:border-accent focus:outline-none"
@@ -163,8 +206,7 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
         <select
           value={pairsPerPage}
           onChange={(e) => {
-            const value = Number(e.target.value);
-            setPairsPerPage(value);
+            updatePreferences({ pairsPerPage: Number(e.target.value) });
             setCurrentPage(1);
           }}
           className="px-4 py-2 bg-tertiary border border-white/10 rounded-lg text-white focus:border-accent focus:outline-none"
@@ -176,6 +218,30 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
           <option value={0}>Show All ({filteredAndSorted.length})</option>
         </select>
 
+        <button
+          onClick={() => {
+            updatePreferences({ starredOnly: !starredOnly });
+            setCurrentPage(1);
+          }}
+          className={`px-4 py-2 border rounded-lg transition-colors ${
+            starredOnly
+              ? 'bg-yellow-400/20 border-yellow-400/40 text-yellow-300'
+              : 'bg-tertiary border-white/10 text-text-secondary hover:text-white'
+          }`}
+        >
+          ★ Starred ({starred.length})
+        </button>
+
+        <ColumnChooser />
+
+        <FundingTableViews
+          searchTerm={searchTerm}
+          onApply={(term) => {
+            setSearchTerm(term);
+            setCurrentPage(1);
+          }}
+        />
+
         {error && (
           <button
             onClick={reconnect}
@@ -204,6 +270,20 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
           ) : (
             `Showing ${startIndex + 1}-${Math.min(startIndex + effectivePairsPerPage, filteredAndSorted.length)} of ${filteredAndSorted.length} pairs`
           )}
+          <div className="text-xs mt-1">
+            Sorted by {sortKeys.map(key => `${getFundingColumn(key.field).label} ${key.direction === 'asc' ? '↑' : '↓'}`).join(', then ')}
+            {secondarySort ? (
+              <button
+                onClick={() => updatePreferences({ secondarySort: null })}
+                className="ml-2 text-text-secondary hover:text-white"
+                title="Clear secondary sort"
+              >
+                ✕
+              </button>
+            ) : (
+              <span className="ml-2 opacity-70">· Shift-click a header to add a secondary sort</span>
+            )}
+          </div>
         </div>
         {totalPages > 1 && pairsPerPage !== 0 && (
           <div className="flex items-center gap-2">
@@ -258,91 +338,17 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
       {(showLoadingState || showConnectingState) && (
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b border-white/10">
-                <th className="text-left py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HyperLiquid Pair (USDT)
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL Buy Price
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL Size
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL Sell Price
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL Size
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL 24h Volume
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL 8h Funding Rate
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r-2 border-cyan-600">
-                  HL Annual Rate
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-orange-400 border-r border-orange-500">
-                  Bybit Buy Price
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-orange-400 border-r border-orange-500">
-                  Bybit Sell Price
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-orange-400 border-r border-orange-500">
-                  Bybit 24h Volume
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-orange-400 border-r-2 border-orange-600">
-                  Bybit Spread %
-                </th>
-                <th className="text-center py-3 px-3 text-xs font-bold text-black bg-gray-400 border border-gray-500">
-                  Next Funding
-                </th>
-              </tr>
-            </thead>
+            <FundingTableHeader columns={visibleColumns} />
             <tbody>
               {Array.from({ length: pairsPerPage || 10 }, (_, i) => (
                 <tr key={i} className="border-b border-white/5 animate-pulse">
-                  <td className="py-3 px-3 bg-cyan-600/10">
-                    <div className="h-4 bg-white/10 rounded w-20"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-cyan-600/10">
-                    <div className="h-4 bg-white/10 rounded w-16 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-cyan-600/10">
-                    <div className="h-4 bg-white/10 rounded w-12 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-cyan-600/10">
-                    <div className="h-4 bg-white/10 rounded w-16 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-cyan-600/10">
-                    <div className="h-4 bg-white/10 rounded w-12 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-cyan-600/10">
-                    <div className="h-4 bg-white/10 rounded w-12 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-cyan-600/10">
-                    <div className="h-4 bg-white/10 rounded w-16 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-cyan-600/10">
-                    <div className="h-4 bg-white/10 rounded w-16 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-orange-600/10">
-                    <div className="h-4 bg-white/10 rounded w-16 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-orange-600/10">
-                    <div className="h-4 bg-white/10 rounded w-16 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-orange-600/10">
-                    <div className="h-4 bg-white/10 rounded w-12 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 bg-orange-600/10">
-                    <div className="h-4 bg-white/10 rounded w-14 ml-auto"></div>
-                  </td>
-                  <td className="py-3 px-3 text-center">
-                    <div className="h-4 bg-white/10 rounded w-16 mx-auto"></div>
-                  </td>
+                  {visibleColumns.map(column => (
+                    <td key={column.id} className={`py-3 px-3 ${CELL_BACKGROUNDS[column.group]}`}>
+                      <div className={`h-4 bg-white/10 rounded ${SKELETON_WIDTHS[column.id] ?? 'w-16'} ${
+                        column.align === 'left' ? '' : column.align === 'center' ? 'mx-auto' : 'ml-auto'
+                      }`}></div>
+                    </td>
+                  ))}
                 </tr>
               ))}
             </tbody>
@@ -354,159 +360,20 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
       {paginatedData.length > 0 && !showLoadingState && !showConnectingState && (
         <div className="overflow-x-auto">
           <table className="w-full text-sm">
-            <thead>
-              <tr className="border-b border-white/10">
-                {/* HyperLiquid Columns */}
-                <th 
-                  onClick={() => handleSort('pair')}
-                  className="text-left py-3 px-3 text-xs font-bold text-black cursor-pointer hover:text-gray-800 transition-colors bg-cyan-400 border-r border-cyan-500"
-                >
-                  HyperLiquid Pair (USDT) {sortField === 'pair' && (sortDirection === 'asc' ? '↑' : '↓')}
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL Buy Price
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL Size
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL Sell Price
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL Size
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r border-cyan-500">
-                  HL 24h Volume
-                </th>
-                <th 
-                  onClick={() => handleSort('funding_rate')}
-                  className="text-right py-3 px-3 text-xs font-bold text-black cursor-pointer hover:text-gray-800 transition-colors bg-cyan-400 border-r border-cyan-500"
-                >
-                  HL 8h Rate {sortField === 'funding_rate' && (sortDirection === 'asc' ? '↑' : '↓')}
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-cyan-400 border-r-2 border-cyan-600">
-                  HL Annual Rate
-                </th>
-                
-                {/* Bybit Columns */}
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-orange-400 border-r border-orange-500">
-                  Bybit Buy Price
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-orange-400 border-r border-orange-500">
-                  Bybit Sell Price
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-orange-400 border-r border-orange-500">
-                  Bybit 24h Volume
-                </th>
-                <th className="text-right py-3 px-3 text-xs font-bold text-black bg-orange-400 border-r-2 border-orange-600">
-                  Bybit Spread %
-                </th>
-                
-                {/* Actions */}
-                <th className="text-center py-3 px-3 text-xs font-bold text-black bg-gray-400 border border-gray-500">
-                  Next Funding
-                </th>
-              </tr>
-            </thead>
+            <FundingTableHeader columns={visibleColumns} sortKeys={sortKeys} onSort={handleSort} />
             <tbody>
-              {paginatedData.map((rate) => {
-                // Calculate Bybit spread percentage
-                const bybitSpread = rate.bybit.available && rate.bybit.ask > 0 && rate.bybit.bid > 0
-                  ? ((rate.bybit.ask - rate.bybit.bid) / rate.bybit.bid) * 100
-                  : 0;
-
-                return (
-                  <tr
-                    key={rate.pair}
-                    onClick={() => onPairSelect(rate.pair)}
-                    className={`border-b border-white/5 hover:bg-white/5 cursor-pointer transition-colors group ${
-                      newPairsAlert.includes(rate.pair) ? 'bg-success/5' : ''
-                    }`}
-                  >
-                    {/* HyperLiquid Data */}
-                    <td className="py-3 px-3 text-white font-medium bg-cyan-600/10">
-                      {formatPairName(rate.pair)}
-                      {newPairsAlert.includes(rate.pair) && (
-                        <span className="ml-2 text-success text-xs">NEW</span>
-                      )}
-                    </td>
-                    <td className="py-3 px-3 text-right text-white font-mono bg-cyan-600/10">
-                      ${rate.hyperliquid.bid.toLocaleString(undefined, { minimumFractionDigits: 5, maximumFractionDigits: 5 })}
-                    </td>
-                    <td className="py-3 px-3 text-right text-text-secondary font-mono bg-cyan-600/10">
-                      {rate.hyperliquid.bid_size ? formatVolume(rate.hyperliquid.bid_size) : '-'}
-                    </td>
-                    <td className="py-3 px-3 text-right text-white font-mono bg-cyan-600/10">
-                      ${rate.hyperliquid.ask.toLocaleString(undefined, { minimumFractionDigits: 5, maximumFractionDigits: 5 })}
-                    </td>
-                    <td className="py-3 px-3 text-right text-text-secondary font-mono bg-cyan-600/10">
-                      {rate.hyperliquid.ask_size ? formatVolume(rate.hyperliquid.ask_size) : '-'}
-                    </td>
-                    <td className="py-3 px-3 text-right text-white font-mono bg-cyan-600/10">
-                      {formatVolume(rate.hyperliquid.volume)}
-                    </td>
-                    <td className={`py-3 px-3 text-right font-mono bg-cyan-600/10 ${
-                      (rate.funding_rate || 0) > 0 ? 'text-success' : 'text-error'
-                    }`}>
-                      {((rate.funding_rate || 0) * 100).toFixed(4)}%
-                    </td>
-                    <td className={`py-3 px-3 text-right font-mono bg-cyan-600/10 ${
-                      (rate.annual_funding_rate || 0) > 0 ? 'text-success' : 'text-error'
-                    }`}>
-                      {(rate.annual_funding_rate || 0).toFixed(2)}%
-                    </td>
-                    
-                    {/* Bybit Data */}
-                    <td className="py-3 px-3 text-right font-mono bg-orange-600/10">
-                      {rate.bybit.available ? (
-                        <span className="text-white">
-                          ${rate.bybit.bid.toLocaleString(undefined, { minimumFractionDigits: 5, maximumFractionDigits: 5 })}
-                        </span>
-                      ) : (
-                        <span className="text-error">N/A</span>
-                      )}
-                    </td>
-                    <td className="py-3 px-3 text-right font-mono bg-orange-600/10">
-                      {rate.bybit.available ? (
-                        <span className="text-white">
-                          ${rate.bybit.ask.toLocaleString(undefined, { minimumFractionDigits: 5, maximumFractionDigits: 5 })}
-                        </span>
-                      ) : (
-                        <span className="text-error">N/A</span>
-                      )}
-                    </td>
-                    <td className="py-3 px-3 text-right font-mono bg-orange-600/10">
-                      {rate.bybit.available ? (
-                        <span className="text-white">{formatVolume(rate.bybit.volume)}</span>
-                      ) : (
-                        <span className="text-error">N/A</span>
-                      )}
-                    </td>
-                    <td className="py-3 px-3 text-right font-mono bg-orange-600/10">
-                      {rate.bybit.available ? (
-                        <span className={`${bybitSpread < 0.1 ? 'text-success' : bybitSpread < 0.5 ? 'text-yellow-400' : 'text-error'}`}>
-                          {bybitSpread.toFixed(3)}%
-                        </span>
-                      ) : (
-                        <span className="text-error">N/A</span>
-                      )}
-                    </td>
-                    
-                    {/* Next Funding */}
-                    <td className="py-3 px-3 text-center">
-                      {/* @ts-expect-error Property 'next_funding_time' does not exist on type 'ArbitragePair' */}
-                      {rate.next_funding_time ? (
-                        /* @ts-expect-error Property 'next_funding_time' does not exist on type 'ArbitragePair' */
-                        <CountdownTimer targetTime={rate.next_funding_time} />
-                      ) : (
-                        <div className="text-sm font-mono text-text-secondary">
-                          --:--:--
-                        </div>
-                      )}
-                    </td>
-                  </tr>
-                );
-              })}
+              {paginatedData.map((rate) => (
+                <FundingRateRow
+                  key={rate.pair}
+                  rate={rate}
+                  columns={visibleColumns}
+                  isNew={newPairs.has(rate.pair)}
+                  isStarred={starredPairs.has(rate.pair)}
+                  isExpanded={expandedPair === rate.pair}
+                  onPairSelect={onPairSelect}
+                  onToggleExpanded={setExpandedPair}
+                />
+              ))}
             </tbody>
           </table>
         </div>
@@ -552,6 +419,244 @@ export default function FundingRatesTable({ onPairSelect }: FundingRatesTablePro
   );
 }
 
+const HEADER_STYLES: Record<FundingColumn['group'], { background: string; border: string; groupEnd: string }> = {
+  hyperliquid: { background: 'bg-cyan-400', border: 'border-r border-cyan-500', groupEnd: 'border-r-2 border-cyan-600' },
+  bybit: { background: 'bg-orange-400', border: 'border-r border-orange-500', groupEnd: 'border-r-2 border-orange-600' },
+  other: { background: 'bg-gray-400', border: 'border border-gray-500', groupEnd: 'border border-gray-500' }
+};
+
+const CELL_BACKGROUNDS: Record<FundingColumn['group'], string> = {
+  hyperliquid: 'bg-cyan-600/10',
+  bybit: 'bg-orange-600/10',
+  other: ''
+};
+
+const ALIGN_CLASSES: Record<FundingColumn['align'], string> = {
+  left: 'text-left',
+  right: 'text-right',
+  center: 'text-center'
+};
+
+const SKELETON_WIDTHS: Partial<Record<FundingColumnId, string>> = {
+  pair: 'w-20',
+  hyperliquid_bid_size: 'w-12',
+  hyperliquid_ask_size: 'w-12',
+  funding_rate: 'w-12',
+  funding_history: 'w-20',
+  bybit_volume: 'w-12',
+  bybit_spread: 'w-14'
+};
+
+// A thicker border closes each venue's run of columns
+const isGroupEnd = (columns: FundingColumn[], index: number) =>
+  index === columns.length - 1 || columns[index + 1].group !== columns[index].group;
+
+interface FundingTableHeaderProps {
+  columns: FundingColumn[];
+  // Omitted for the loading skeleton, which can't be sorted
+  sortKeys?: SortKey[];
+  onSort?: (field: FundingColumnId, isSecondary: boolean) => void;
+}
+
+function FundingTableHeader({ columns, sortKeys = [], onSort }: FundingTableHeaderProps) {
+  return (
+    <thead>
+      <tr className="border-b border-white/10">
+        {columns.map((column, index) => {
+          const style = HEADER_STYLES[column.group];
+          const sortIndex = sortKeys.findIndex(key => key.field === column.id);
+          const sortKey = sortKeys[sortIndex];
+          return (
+            <th
+              key={column.id}
+              onClick={onSort ? (e) => onSort(column.id, e.shiftKey) : undefined}
+              title={onSort ? `${column.sortHint ? `${column.sortHint}. ` : ''}Shift-click to sort by this next` : undefined}
+              className={`${ALIGN_CLASSES[column.align]} py-3 px-3 text-xs font-bold text-black ${style.background} ${
+                isGroupEnd(columns, index) ? style.groupEnd : style.border
+              } ${onSort ? 'cursor-pointer select-none hover:text-gray-800 transition-colors' : ''}`}
+            >
+              {column.label}
+              {sortKey && (
+                <>
+                  {' '}{sortKey.direction === 'asc' ? '↑' : '↓'}
+                  {sortKeys.length > 1 && <sup>{sortIndex + 1}</sup>}
+                </>
+              )}
+            </th>
+          );
+        })}
+      </tr>
+    </thead>
+  );
+}
+
+interface FundingRateRowProps {
+  rate: ArbitragePair;
+  columns: FundingColumn[];
+  isNew: boolean;
+  isStarred: boolean;
+  isExpanded: boolean;
+  onPairSelect: (pair: string) => void;
+  // Called with the pair to expand, or null to collapse
+  onToggleExpanded: (pair: string | null) => void;
+}
+
+const formatPrice = (price: number) =>
+  `$${price.toLocaleString(undefined, { minimumFractionDigits: 5, maximumFractionDigits: 5 })}`;
+
+const notOnBybit = <span className="text-error">N/A</span>;
+
+// Memoized so a delta that leaves a pair untouched doesn't re-render its row
+const FundingRateRow = memo(function FundingRateRow({
+  rate,
+  columns,
+  isNew,
+  isStarred,
+  isExpanded,
+  onPairSelect,
+  onToggleExpanded
+}: FundingRateRowProps) {
+  const bybitSpread = bybitSpreadPct(rate) ?? 0;
+
+  const history = usePairHistory(rate.pair);
+  const sparklineValues = useMemo(
+    () => historyInRange(history, FUNDING_HISTORY_RANGE_MS, Date.now()).map(point => point.fundingRate * 100),
+    [history]
+  );
+  const trendClass = sparklineValues.length > 1 && sparklineValues[sparklineValues.length - 1] < sparklineValues[0]
+    ? 'text-error'
+    : 'text-success';
+
+  // Cell content and the classes it adds to the column's alignment and background
+  const renderCell = (id: FundingColumnId): { content: ReactNode; className: string } => {
+    switch (id) {
+      case 'pair':
+        return {
+          className: 'text-white font-medium',
+          content: (
+            <>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleStarredPair(rate.pair);
+                }}
+                title={isStarred ? 'Remove from watchlist' : 'Add to watchlist'}
+                className={`mr-2 transition-colors ${isStarred ? 'text-yellow-400' : 'text-white/20 hover:text-yellow-400/70'}`}
+              >
+                {isStarred ? '★' : '☆'}
+              </button>
+              {formatPairName(rate.pair)}
+              {isNew && (
+                <span className="ml-2 text-success text-xs">NEW</span>
+              )}
+              {/* The pair column can't be hidden, so the history chart always has a toggle here */}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleExpanded(isExpanded ? null : rate.pair);
+                }}
+                title={isExpanded ? 'Hide history' : 'Show funding, basis and price history'}
+                aria-expanded={isExpanded}
+                className="ml-2 text-xs text-text-secondary hover:text-white transition-colors"
+              >
+                {isExpanded ? '▲' : '▼'}
+              </button>
+            </>
+          )
+        };
+      case 'hyperliquid_bid':
+        return { className: 'text-white font-mono', content: formatPrice(rate.hyperliquid.bid) };
+      case 'hyperliquid_bid_size':
+        return { className: 'text-text-secondary font-mono', content: rate.hyperliquid.bid_size ? formatVolume(rate.hyperliquid.bid_size) : '-' };
+      case 'hyperliquid_ask':
+        return { className: 'text-white font-mono', content: formatPrice(rate.hyperliquid.ask) };
+      case 'hyperliquid_ask_size':
+        return { className: 'text-text-secondary font-mono', content: rate.hyperliquid.ask_size ? formatVolume(rate.hyperliquid.ask_size) : '-' };
+      case 'hyperliquid_volume':
+        return { className: 'text-white font-mono', content: formatVolume(rate.hyperliquid.volume) };
+      case 'funding_rate':
+        return {
+          className: `font-mono ${(rate.funding_rate || 0) > 0 ? 'text-success' : 'text-error'}`,
+          content: `${((rate.funding_rate || 0) * 100).toFixed(4)}%`
+        };
+      case 'funding_history':
+        return {
+          className: '',
+          content: (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggleExpanded(isExpanded ? null : rate.pair);
+              }}
+              title={isExpanded ? 'Hide history' : 'Show funding, basis and price history'}
+              className={`flex items-center gap-1 mx-auto ${trendClass} hover:opacity-80`}
+            >
+              <Sparkline values={sparklineValues} />
+            </button>
+          )
+        };
+      case 'annual_funding_rate':
+        return {
+          className: `font-mono ${(rate.annual_funding_rate || 0) > 0 ? 'text-success' : 'text-error'}`,
+          content: `${(rate.annual_funding_rate || 0).toFixed(2)}%`
+        };
+      case 'bybit_bid':
+        return { className: 'font-mono', content: rate.bybit.available ? <span className="text-white">{formatPrice(rate.bybit.bid)}</span> : notOnBybit };
+      case 'bybit_ask':
+        return { className: 'font-mono', content: rate.bybit.available ? <span className="text-white">{formatPrice(rate.bybit.ask)}</span> : notOnBybit };
+      case 'bybit_volume':
+        return { className: 'font-mono', content: rate.bybit.available ? <span className="text-white">{formatVolume(rate.bybit.volume)}</span> : notOnBybit };
+      case 'bybit_spread':
+        return {
+          className: 'font-mono',
+          content: rate.bybit.available ? (
+            <span className={`${bybitSpread < 0.1 ? 'text-success' : bybitSpread < 0.5 ? 'text-yellow-400' : 'text-error'}`}>
+              {bybitSpread.toFixed(3)}%
+            </span>
+          ) : notOnBybit
+        };
+      case 'next_funding_time':
+        return {
+          className: '',
+          content: rate.next_funding_time ? (
+            <CountdownTimer targetTime={rate.next_funding_time} />
+          ) : (
+            <div className="text-sm font-mono text-text-secondary">
+              --:--:--
+            </div>
+          )
+        };
+    }
+  };
+
+  return (
+    <>
+      <tr
+        onClick={() => onPairSelect(rate.pair)}
+        className={`border-b border-white/5 hover:bg-white/5 cursor-pointer transition-colors group ${
+          isNew ? 'bg-success/5' : ''
+        }`}
+      >
+        {columns.map(column => {
+          const cell = renderCell(column.id);
+          return (
+            <td key={column.id} className={`py-3 px-3 ${ALIGN_CLASSES[column.align]} ${CELL_BACKGROUNDS[column.group]} ${cell.className}`}>
+              {cell.content}
+            </td>
+          );
+        })}
+      </tr>
+      {isExpanded && (
+        <tr className="border-b border-white/5 bg-white/[0.02]">
+          <td colSpan={columns.length} className="py-4 px-3">
+            <PairHistoryChart pair={rate.pair} />
+          </td>
+        </tr>
+      )}
+    </>
+  );
+});
+
 function CountdownTimer({ targetTime }: { targetTime: number }) {
   const [timeLeft, setTimeLeft] = useState('');
 
@@ -0,0 +1,138 @@
+'use client';
+
+import { useState } from 'react';
+import { usePersistentStore } from '../../hooks/usePersistentStore';
+import {
+  deleteFundingTableView,
+  fundingTablePreferencesStore,
+  fundingTableViewsStore,
+  saveFundingTableView,
+  type FundingTablePreferences,
+  type FundingTableView
+} from '../../lib/settings/tablePreferences';
+
+interface FundingTableViewsProps {
+  // The search box is per visit, so the table owns it and views only read and set it
+  searchTerm: string;
+  onApply: (searchTerm: string) => void;
+}
+
+const sameView = (view: FundingTableView, prefs: FundingTablePreferences, searchTerm: string) =>
+  view.searchTerm === searchTerm &&
+  view.columns.join() === prefs.columns.join() &&
+  view.filterBybitAvailable === prefs.filterBybitAvailable &&
+  view.sortField === prefs.sortField &&
+  view.sortDirection === prefs.sortDirection &&
+  view.secondarySort?.field === prefs.secondarySort?.field &&
+  view.secondarySort?.direction === prefs.secondarySort?.direction &&
+  view.pairsPerPage === prefs.pairsPerPage;
+
+const controlClass = 'px-4 py-2 bg-tertiary border border-white/10 rounded-lg text-white focus:border-accent focus:outline-none';
+
+// Saved combinations of columns, search, Bybit filter, sort and page size, switchable from a dropdown
+export default function FundingTableViews({ searchTerm, onApply }: FundingTableViewsProps) {
+  const prefs = usePersistentStore(fundingTablePreferencesStore);
+  const { views } = usePersistentStore(fundingTableViewsStore);
+  const [naming, setNaming] = useState(false);
+  const [name, setName] = useState('');
+  const current = views.find(view => sameView(view, prefs, searchTerm)) ?? null;
+
+  const handleSelect = (id: string) => {
+    const view = views.find(candidate => candidate.id === id);
+    if (!view) return;
+    fundingTablePreferencesStore.set(prev => ({
+      ...prev,
+      columns: view.columns,
+      filterBybitAvailable: view.filterBybitAvailable,
+      sortField: view.sortField,
+      sortDirection: view.sortDirection,
+      secondarySort: view.secondarySort,
+      pairsPerPage: view.pairsPerPage
+    }));
+    onApply(view.searchTerm);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    // Saving under an existing name updates that view
+    const existing = views.find(view => view.name.toLowerCase() === trimmed.toLowerCase());
+    saveFundingTableView({
+      id: existing?.id ?? `view-${Date.now().toString(36)}`,
+      name: trimmed,
+      columns: prefs.columns,
+      searchTerm,
+      filterBybitAvailable: prefs.filterBybitAvailable,
+      sortField: prefs.sortField,
+      sortDirection: prefs.sortDirection,
+      secondarySort: prefs.secondarySort,
+      pairsPerPage: prefs.pairsPerPage
+    });
+    setNaming(false);
+    setName('');
+  };
+
+  if (naming) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          autoFocus
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSave();
+            if (e.key === 'Escape') setNaming(false);
+          }}
+          placeholder="View name"
+          className={`${controlClass} w-40 placeholder-text-secondary`}
+        />
+        <button
+          onClick={handleSave}
+          disabled={!name.trim()}
+          className="px-3 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Save
+        </button>
+        <button onClick={() => setNaming(false)} className="px-3 py-2 text-text-secondary hover:text-white">
+          Cancel
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={current?.id ?? ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        className={controlClass}
+        aria-label="Saved views"
+      >
+        <option value="" disabled>{views.length === 0 ? 'No saved views' : 'Unsaved view'}</option>
+        {views.map(view => (
+          <option key={view.id} value={view.id}>{view.name}</option>
+        ))}
+      </select>
+      <button
+        onClick={() => {
+          setName(current?.name ?? '');
+          setNaming(true);
+        }}
+        className="px-3 py-2 bg-tertiary border border-white/10 rounded-lg text-text-secondary hover:text-white transition-colors"
+        title="Save the current columns, search, filter, sort and page size as a view"
+      >
+        Save View
+      </button>
+      {current && (
+        <button
+          onClick={() => deleteFundingTableView(current.id)}
+          className="px-3 py-2 text-text-secondary hover:text-error transition-colors"
+          title={`Delete "${current.name}"`}
+        >
+          ✕
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,319 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { tradingConfig } from '../../config/trading';
+import { lockedSymbols, usePendingOrders } from '../../hooks/usePendingOrders';
+import { useTradingAPI, type TradingError } from '../../hooks/useTradingAPI';
+import { useActivePositions, useCachedAt, useConnectionStatus, usePair, useReplayStatus } from '../../hooks/useWebSocket';
+import {
+  previewModification,
+  reducePercentageFor,
+  type PositionFigures,
+  type PositionModification
+} from '../../lib/trading/positionPreview';
+import TradingErrorNotice from './TradingErrorNotice';
+
+interface ModifyPositionDialogProps {
+  symbol: string;
+  onClose: () => void;
+}
+
+type Mode = 'reduce' | 'add' | 'leverage';
+type ReduceUnit = 'percent' | 'usdt';
+
+const MODES: { value: Mode; label: string }[] = [
+  { value: 'reduce', label: 'Reduce' },
+  { value: 'add', label: 'Add' },
+  { value: 'leverage', label: 'Leverage' }
+];
+
+const REDUCE_PRESETS = [25, 50, 75];
+
+const formatUsd = (value: number) =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(value);
+
+const formatPrice = (value: number) => (value > 0 ? value.toLocaleString('en-US', { maximumSignificantDigits: 6 }) : '—');
+
+const PREVIEW_ROWS: { label: string; format: (figures: PositionFigures) => string }[] = [
+  { label: 'Size (USDT)', format: f => formatUsd(f.notional) },
+  { label: 'HL short size', format: f => f.hyperliquidSize.toFixed(6) },
+  { label: 'HL leverage', format: f => `${f.leverage}x` },
+  { label: 'HL margin used', format: f => formatUsd(f.marginUsed) },
+  { label: 'Liquidation price', format: f => formatPrice(f.liquidationPrice) },
+  { label: 'Distance to liquidation', format: f => (f.liquidationPrice > 0 ? `${f.liquidationDistancePct.toFixed(2)}%` : '—') }
+];
+
+export default function ModifyPositionDialog({ symbol, onClose }: ModifyPositionDialogProps) {
+  const pair = symbol.includes('/') ? symbol : `${symbol}/USDT`;
+  const position = useActivePositions().find(candidate => candidate.symbol === symbol) ?? null;
+  const quote = usePair(pair);
+  const { isConnected, isStale } = useConnectionStatus();
+  const dataCachedAt = useCachedAt('data');
+  const positionsCachedAt = useCachedAt('activePositions');
+  const replay = useReplayStatus();
+  const isLocked = lockedSymbols(usePendingOrders()).has(symbol);
+  const { closePosition, openPosition, setLeverage } = useTradingAPI();
+
+  const [mode, setMode] = useState<Mode>('reduce');
+  const [reduceUnit, setReduceUnit] = useState<ReduceUnit>('percent');
+  const [reduceValue, setReduceValue] = useState('');
+  const [addAmount, setAddAmount] = useState('');
+  const [leverageValue, setLeverageValue] = useState(String(position?.hyperliquid.leverage ?? 1));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitError, setSubmitError] = useState<TradingError | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape' && !isSubmitting) onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isSubmitting, onClose]);
+
+  if (!position) {
+    return (
+      <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+        <div className="glass-card rounded-xl p-6 w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+          <h3 className="text-lg font-bold text-white mb-2">Modify {symbol}</h3>
+          <p className="text-sm text-text-secondary mb-4">This position is no longer active.</p>
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const reduceNumber = parseFloat(reduceValue) || 0;
+  const reducePercentage = reduceUnit === 'percent' ? reduceNumber : reducePercentageFor(position, reduceNumber);
+  const modification: PositionModification =
+    mode === 'reduce' ? { kind: 'reduce', percentage: reducePercentage }
+    : mode === 'add' ? { kind: 'add', amount: parseFloat(addAmount) || 0 }
+    : { kind: 'leverage', leverage: parseFloat(leverageValue) || 0 };
+  const preview = previewModification(position, modification, quote);
+
+  // Empty inputs aren't worth a warning yet
+  const touched = mode === 'reduce' ? reduceValue !== '' : mode === 'add' ? addAmount !== '' : true;
+  // Same conditions as opening a trade: the preview is only as good as the quotes and position it uses
+  const blockedReason = replay ? 'Trading is disabled during replay'
+    : !isConnected ? 'Waiting for the connection to come back'
+    : isStale ? 'Market data is stale; waiting for live quotes to resume'
+    : dataCachedAt !== null ? 'Showing cached prices; waiting for live quotes'
+    : positionsCachedAt !== null ? 'Showing the cached position; waiting for a live update'
+    : isLocked ? 'An earlier request for this position has not settled yet'
+    : null;
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setSubmitError(null);
+    try {
+      const result = modification.kind === 'reduce'
+        ? await closePosition(pair, Number(modification.percentage.toFixed(4)))
+        : modification.kind === 'add'
+          ? await openPosition(pair, modification.amount)
+          : await setLeverage(pair, modification.leverage);
+
+      if (result.success) {
+        console.log(`✏️ Modify: ${symbol} ${modification.kind}:`, result.message);
+        onClose();
+      } else {
+        setSubmitError(result.error);
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitLabel = mode === 'reduce'
+    ? (reducePercentage >= 100 ? 'Close Position' : `Reduce by ${reducePercentage.toFixed(reducePercentage % 1 ? 2 : 0)}%`)
+    : mode === 'add' ? 'Add to Position' : 'Change Leverage';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={() => !isSubmitting && onClose()}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="modify-position-title"
+        className="glass-card rounded-xl p-6 w-full max-w-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 id="modify-position-title" className="text-lg font-bold text-white">Modify {symbol}</h3>
+            <p className="text-sm text-text-secondary">
+              {formatUsd(position.usdt_amount)} · Bybit spot long / HyperLiquid perp short
+            </p>
+          </div>
+          <button onClick={onClose} disabled={isSubmitting} className="text-text-secondary hover:text-white disabled:opacity-50" aria-label="Close">
+            ✕
+          </button>
+        </div>
+
+        {/* Mode */}
+        <div className="flex gap-2 mb-4">
+          {MODES.map(option => (
+            <button
+              key={option.value}
+              onClick={() => { setMode(option.value); setSubmitError(null); }}
+              className={`flex-1 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                mode === option.value ? 'bg-accent text-background font-medium' : 'bg-white/5 text-text-secondary hover:text-white'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Inputs */}
+        {mode === 'reduce' && (
+          <div className="space-y-2 mb-4">
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={reduceValue}
+                onChange={(e) => setReduceValue(e.target.value)}
+                placeholder={reduceUnit === 'percent' ? 'Percent of the position' : 'USDT to take off'}
+                className="flex-1 px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent"
+              />
+              <select
+                value={reduceUnit}
+                onChange={(e) => { setReduceUnit(e.target.value as ReduceUnit); setReduceValue(''); }}
+                className="px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent"
+              >
+                <option value="percent" className="bg-card">%</option>
+                <option value="usdt" className="bg-card">USDT</option>
+              </select>
+            </div>
+            <div className="flex gap-2">
+              {REDUCE_PRESETS.map(preset => (
+                <button
+                  key={preset}
+                  onClick={() => { setReduceUnit('percent'); setReduceValue(String(preset)); }}
+                  className="px-3 py-1 text-xs bg-white/5 hover:bg-white/10 text-text-secondary hover:text-white rounded-lg transition-colors"
+                >
+                  {preset}%
+                </button>
+              ))}
+            </div>
+            {reduceUnit === 'usdt' && reduceNumber > 0 && (
+              <div className="text-xs text-text-secondary">≈ {reducePercentage.toFixed(2)}% of the position</div>
+            )}
+          </div>
+        )}
+
+        {mode === 'add' && (
+          <div className="mb-4">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={addAmount}
+              onChange={(e) => setAddAmount(e.target.value)}
+              placeholder="USDT to add to both legs"
+              className="w-full px-4 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent"
+            />
+          </div>
+        )}
+
+        {mode === 'leverage' && (
+          <div className="flex items-center gap-4 mb-4">
+            <input
+              type="range"
+              min="1"
+              max={tradingConfig.estimates.hyperliquid.maxLeverage}
+              step="1"
+              value={leverageValue}
+              onChange={(e) => setLeverageValue(e.target.value)}
+              className="flex-1 accent-accent"
+            />
+            <input
+              type="number"
+              min="1"
+              max={tradingConfig.estimates.hyperliquid.maxLeverage}
+              step="1"
+              value={leverageValue}
+              onChange={(e) => setLeverageValue(e.target.value)}
+              className="w-20 px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white focus:outline-none focus:border-accent"
+            />
+            <span className="text-sm text-text-secondary">x</span>
+          </div>
+        )}
+
+        {/* Preview */}
+        <div className="bg-white/5 rounded-lg p-4 mb-4">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-text-secondary">
+                <th className="text-left font-medium pb-2">Estimate</th>
+                <th className="text-right font-medium pb-2">Now</th>
+                <th className="text-right font-medium pb-2">After</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono">
+              {PREVIEW_ROWS.map(row => {
+                const now = row.format(preview.before);
+                const after = row.format(preview.after);
+                return (
+                  <tr key={row.label}>
+                    <td className="py-0.5 font-sans text-text-secondary">{row.label}</td>
+                    <td className="py-0.5 text-right text-white">{now}</td>
+                    <td className={`py-0.5 text-right ${after !== now ? 'text-accent' : 'text-white'}`}>{after}</td>
+                  </tr>
+                );
+              })}
+              <tr className="border-t border-white/10">
+                <td className="pt-2 font-sans text-text-secondary">Trading fees</td>
+                <td />
+                <td className="pt-2 text-right text-white">{formatUsd(preview.fees)}</td>
+              </tr>
+              {preview.realizedPnl !== null && (
+                <tr>
+                  <td className="py-0.5 font-sans text-text-secondary">Realized PnL after fees</td>
+                  <td />
+                  <td className={`py-0.5 text-right ${preview.realizedPnl >= 0 ? 'text-success' : 'text-error'}`}>
+                    {formatUsd(preview.realizedPnl)}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+          <p className="mt-2 text-xs text-text-secondary">
+            {quote ? 'At current quotes' : 'No live quote for this pair; estimated at entry prices'}. Exchanges charge their own fees and may fill at different prices.
+          </p>
+        </div>
+
+        {submitError && (
+          <div className="mb-4">
+            <TradingErrorNotice error={submitError} context={symbol} onDismiss={() => setSubmitError(null)} />
+          </div>
+        )}
+
+        {(blockedReason || (touched && preview.problem)) && (
+          <p className="mb-4 text-sm text-warning">{blockedReason ?? preview.problem}</p>
+        )}
+
+        <div className="flex gap-4">
+          <button
+            onClick={handleSubmit}
+            disabled={isSubmitting || preview.problem !== null || blockedReason !== null}
+            className="flex-1 px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSubmitting ? 'Submitting...' : submitLabel}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={isSubmitting}
+            className="px-4 py-2 bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+'use client';
+
+import { useOrderReconciliation } from '../../hooks/usePendingOrders';
+
+// Settles timed-out opens and closes from live positions, whichever tab is showing. Renders
+// nothing; kept as its own leaf so position updates re-render only this component.
+export default function OrderReconciler() {
+  useOrderReconciliation();
+  return null;
+}
@@ -0,0 +1,174 @@
+'use client';
+
+import { useState } from 'react';
+import { historyInRange, usePairHistory, type HistoryPoint } from '../../hooks/usePairHistory';
+
+interface PairHistoryChartProps {
+  pair: string;
+}
+
+type HistoryRange = '1h' | '24h' | '7d';
+type HistoryMetric = 'funding' | 'basis' | 'mids';
+
+const RANGES: { value: HistoryRange; ms: number }[] = [
+  { value: '1h', ms: 60 * 60 * 1000 },
+  { value: '24h', ms: 24 * 60 * 60 * 1000 },
+  { value: '7d', ms: 7 * 24 * 60 * 60 * 1000 }
+];
+
+interface SeriesDefinition {
+  label: string;
+  className: string;
+  read: (point: HistoryPoint) => number | null;
+}
+
+const METRICS: Record<HistoryMetric, { label: string; format: (value: number) => string; series: SeriesDefinition[] }> = {
+  funding: {
+    label: 'HL 8h funding',
+    format: value => `${value.toFixed(4)}%`,
+    series: [{ label: 'Funding rate', className: 'text-success', read: point => point.fundingRate * 100 }]
+  },
+  basis: {
+    label: 'Basis',
+    format: value => `${value.toFixed(4)}%`,
+    series: [{ label: 'HL mid vs Bybit mid', className: 'text-purple-400', read: point => point.basisPct }]
+  },
+  mids: {
+    label: 'Mid prices',
+    format: value => `$${value.toLocaleString(undefined, { maximumFractionDigits: 5 })}`,
+    series: [
+      { label: 'HyperLiquid', className: 'text-cyan-400', read: point => point.hyperliquidMid },
+      { label: 'Bybit', className: 'text-orange-400', read: point => point.bybitMid }
+    ]
+  }
+};
+
+const WIDTH = 600;
+const HEIGHT = 160;
+
+const formatTime = (at: number, range: HistoryRange) =>
+  range === '7d'
+    ? new Date(at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hour12: false })
+    : new Date(at).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false });
+
+// Points are placed by time, so gaps (a closed tab, thinned old history) show as straight segments
+const timePath = (points: { at: number; value: number }[], from: number, to: number, min: number, max: number) => {
+  const span = max - min;
+  return points
+    .map((point, index) => {
+      const x = ((point.at - from) / Math.max(to - from, 1)) * WIDTH;
+      const y = span > 0 ? HEIGHT - ((point.value - min) / span) * HEIGHT : HEIGHT / 2;
+      return `${index === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+};
+
+export default function PairHistoryChart({ pair }: PairHistoryChartProps) {
+  const history = usePairHistory(pair);
+  const [range, setRange] = useState<HistoryRange>('24h');
+  const [metric, setMetric] = useState<HistoryMetric>('funding');
+
+  const now = Date.now();
+  const rangeMs = RANGES.find(option => option.value === range)!.ms;
+  const points = historyInRange(history, rangeMs, now);
+  const definition = METRICS[metric];
+  const lines = definition.series.map(series => ({
+    ...series,
+    points: points.flatMap(point => {
+      const value = series.read(point);
+      return value === null ? [] : [{ at: point.at, value }];
+    })
+  }));
+  const values = lines.flatMap(line => line.points.map(point => point.value));
+  const min = values.length > 0 ? Math.min(...values) : 0;
+  const max = values.length > 0 ? Math.max(...values) : 0;
+  const from = now - rangeMs;
+  const primary = lines[0].points;
+  const average = primary.length > 0 ? primary.reduce((sum, point) => sum + point.value, 0) / primary.length : null;
+
+  const toggleClass = (active: boolean) => `px-2 py-1 text-xs rounded-lg transition-colors ${
+    active ? 'bg-accent text-background font-medium' : 'bg-white/5 text-text-secondary hover:text-white'
+  }`;
+
+  return (
+    <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="flex gap-1">
+          {(Object.keys(METRICS) as HistoryMetric[]).map(option => (
+            <button key={option} onClick={() => setMetric(option)} className={toggleClass(metric === option)}>
+              {METRICS[option].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {RANGES.map(option => (
+            <button key={option.value} onClick={() => setRange(option.value)} className={toggleClass(range === option.value)}>
+              {option.value}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {values.length < 2 ? (
+        <div className="h-40 flex items-center justify-center text-sm text-text-secondary">
+          Not enough history for this range yet. A point is recorded about once a minute while the dashboard is open.
+        </div>
+      ) : (
+        <div>
+          <div className="flex justify-between text-xs font-mono text-text-secondary">
+            <span>{definition.format(max)}</span>
+            <div className="flex gap-4 font-sans">
+              {lines.map(line => (
+                <span key={line.label} className={line.className}>━ {line.label}</span>
+              ))}
+            </div>
+          </div>
+          <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40 my-1" aria-label={`${pair} ${definition.label} history`}>
+            {min < 0 && max > 0 && (
+              <line
+                x1="0"
+                x2={WIDTH}
+                y1={HEIGHT - ((0 - min) / (max - min)) * HEIGHT}
+                y2={HEIGHT - ((0 - min) / (max - min)) * HEIGHT}
+                stroke="rgba(255,255,255,0.15)"
+                strokeDasharray="4 4"
+                vectorEffect="non-scaling-stroke"
+              />
+            )}
+            {lines.map(line => (
+              <path
+                key={line.label}
+                d={timePath(line.points, from, now, min, max)}
+                className={line.className}
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="1.5"
+                vectorEffect="non-scaling-stroke"
+              />
+            ))}
+          </svg>
+          <div className="flex justify-between text-xs font-mono text-text-secondary">
+            <span>{definition.format(min)}</span>
+            <span>{formatTime(from, range)} – {formatTime(now, range)}</span>
+          </div>
+        </div>
+      )}
+
+      {primary.length > 0 && (
+        <div className="grid grid-cols-4 gap-4 text-xs">
+          {[
+            { label: 'Latest', value: primary[primary.length - 1].value },
+            { label: 'Min', value: Math.min(...primary.map(point => point.value)) },
+            { label: 'Max', value: Math.max(...primary.map(point => point.value)) },
+            { label: 'Average', value: average! }
+          ].map(stat => (
+            <div key={stat.label}>
+              <div className="text-text-secondary">{stat.label} {lines.length > 1 ? `(${lines[0].label})` : ''}</div>
+              <div className="font-mono text-white">{definition.format(stat.value)}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { useReplayStatus, useSessionControls } from '../../hooks/useWebSocket';
+
+// Shown above every tab while a recorded session drives the dashboard
+export default function ReplayBanner() {
+  const replay = useReplayStatus();
+  const { stopReplay } = useSessionControls();
+
+  if (!replay) return null;
+
+  const speedLabel = replay.speed === 'max' ? 'max speed' : `${replay.speed}x`;
+  const progress = replay.total > 0 ? Math.round((replay.position / replay.total) * 100) : 100;
+
+  return (
+    <div className="mb-6 flex items-center justify-between gap-4 bg-purple-500/10 border border-purple-400/30 rounded-lg px-4 py-3">
+      <div className="flex items-center gap-3 text-sm text-purple-200">
+        <span className="font-semibold">{replay.finished ? '⏏️ Replay finished' : '▶️ Replay mode'}</span>
+        <span className="text-purple-200/80">
+          {replay.name} · {replay.position}/{replay.total} frames ({progress}%) · {speedLabel} · trading disabled
+        </span>
+      </div>
+      <button
+        onClick={stopReplay}
+        className="px-3 py-1 text-sm bg-purple-500/20 text-purple-100 rounded hover:bg-purple-500/30 transition-colors"
+      >
+        Back to Live
+      </button>
+    </div>
+  );
+}
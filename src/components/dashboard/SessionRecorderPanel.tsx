@@ -0,0 +1,167 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import {
+  useRecordedFrameCount,
+  useReplayStatus,
+  useSessionControls,
+  type ReplaySpeed,
+  type SessionRecording
+} from '../../hooks/useWebSocket';
+import { parseSessionRecording } from '../../lib/websocket/sessionRecording';
+
+const REPLAY_SPEEDS: { value: ReplaySpeed; label: string }[] = [
+  { value: 1, label: '1x' },
+  { value: 5, label: '5x' },
+  { value: 'max', label: 'Max' }
+];
+
+const downloadRecording = (recording: SessionRecording) => {
+  const blob = new Blob([JSON.stringify(recording)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `session-${recording.startedAt.replace(/[:.]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export default function SessionRecorderPanel() {
+  const recordedFrameCount = useRecordedFrameCount();
+  const replay = useReplayStatus();
+  const { startRecording, stopRecording, startReplay, setReplaySpeed, stopReplay } = useSessionControls();
+  const [loaded, setLoaded] = useState<{ name: string; recording: SessionRecording } | null>(null);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const isRecording = recordedFrameCount !== null;
+
+  const handleStopRecording = () => {
+    const recording = stopRecording();
+    if (recording && recording.frames.length > 0) {
+      downloadRecording(recording);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const recording = parseSessionRecording(await file.text());
+      setLoaded({ name: file.name, recording });
+      setLoadError(null);
+    } catch (err) {
+      setLoaded(null);
+      setLoadError(err instanceof Error ? err.message : 'Could not read recording');
+    }
+  };
+
+  const handleSpeedChange = (next: ReplaySpeed) => {
+    setSpeed(next);
+    if (replay) {
+      setReplaySpeed(next);
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-6">
+      <h3 className="text-lg font-bold text-white mb-4">Session Recording & Replay</h3>
+      <div className="space-y-6">
+        {/* Recording */}
+        <div className="flex items-center justify-between">
+          <div>
+            <div className="text-sm font-medium text-white">Record inbound frames</div>
+            <div className="text-xs text-text-secondary">
+              {isRecording
+                ? `⏺️ Recording... ${recordedFrameCount} frame${recordedFrameCount !== 1 ? 's' : ''} captured`
+                : 'Captures every WebSocket frame with timestamps and downloads them as JSON'}
+            </div>
+          </div>
+          {isRecording ? (
+            <button
+              onClick={handleStopRecording}
+              className="px-4 py-2 bg-error/20 text-error rounded-lg font-medium hover:bg-error/30 transition-colors"
+            >
+              Stop & Download
+            </button>
+          ) : (
+            <button
+              onClick={startRecording}
+              className="px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors"
+            >
+              Start Recording
+            </button>
+          )}
+        </div>
+
+        {/* Replay */}
+        <div className="space-y-3 pt-4 border-t border-white/10">
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm font-medium text-white">Replay a recording</div>
+              <div className="text-xs text-text-secondary">
+                {loaded
+                  ? `${loaded.name} - ${loaded.recording.frames.length} frames recorded ${new Date(loaded.recording.startedAt).toLocaleString()}`
+                  : 'Feeds a recorded session through the dashboard instead of the live feed. Trading is disabled during replay.'}
+              </div>
+            </div>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-4 py-2 bg-white/5 text-white rounded-lg font-medium hover:bg-white/10 transition-colors"
+            >
+              Load File
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+
+          {loadError && (
+            <p className="text-xs text-error">{loadError}</p>
+          )}
+
+          <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-text-secondary">Speed</span>
+              {REPLAY_SPEEDS.map(option => (
+                <button
+                  key={option.label}
+                  onClick={() => handleSpeedChange(option.value)}
+                  className={`px-3 py-1 rounded text-sm transition-colors ${
+                    speed === option.value ? 'bg-accent text-background' : 'bg-white/5 text-white hover:bg-white/10'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            {replay ? (
+              <button
+                onClick={stopReplay}
+                className="px-4 py-2 bg-error/20 text-error rounded-lg font-medium hover:bg-error/30 transition-colors"
+              >
+                Stop Replay
+              </button>
+            ) : (
+              <button
+                onClick={() => loaded && startReplay(loaded.recording, loaded.name, speed)}
+                disabled={!loaded || loaded.recording.frames.length === 0}
+                className="px-4 py-2 bg-accent text-background rounded-lg font-medium hover:bg-accent/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Start Replay
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,22 @@
 
 'use client';
 
-import { useSharedWebSocket } from '../../hooks/useWebSocket';
+import { useEffect, useState } from 'react';
+import { useConnectionStatus, useExchangeStatus, useTopic, useWebSocketSelector, shallowEqual } from '../../hooks/useWebSocket';
 import Image from 'next/image';
+import { useConnectionProfiles } from '../../hooks/useConnectionSettings';
+import { PROFILE_ENVIRONMENTS, setActiveConnectionProfile } from '../../lib/settings/connectionSettings';
+import { EXCHANGE_LABELS, summarizeExchangeStatus, type ExchangeHealth } from '../../lib/websocket/exchangeStatus';
+import type { ExchangeName } from '../../lib/websocket/protocol';
+
+const EXCHANGES: ExchangeName[] = ['hyperliquid', 'bybit'];
+
+const HEALTH_STYLES: Record<ExchangeHealth, { color: string; bgColor: string }> = {
+  connected: { color: 'text-success', bgColor: 'bg-success' },
+  degraded: { color: 'text-warning', bgColor: 'bg-warning' },
+  down: { color: 'text-error', bgColor: 'bg-error' },
+  unknown: { color: 'text-text-secondary', bgColor: 'bg-text-secondary' }
+};
 
 interface SidebarProps {
   activeTab: string;
@@ -11,8 +25,29 @@ interface SidebarProps {
 }
 
 export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
-  // Use shared WebSocket connection for status
-  const { isConnected, isLoading, error, data, activePositions, closedPositions, balances } = useSharedWebSocket();
+  // Select connection status and per-venue reports only; the sidebar doesn't need to re-render on every tick
+  const { isConnected, isLoading, error, isStale, lastDataAt, reconnectAttempt } = useConnectionStatus();
+  const { protocolErrorCount, lastProtocolError, tabRole } = useWebSocketSelector(state => ({
+    protocolErrorCount: state.protocolErrorCount,
+    lastProtocolError: state.lastProtocolError,
+    tabRole: state.tabRole
+  }), shallowEqual);
+  const { profiles, activeProfileId } = useConnectionProfiles();
+  const exchangeStatus = useExchangeStatus();
+  useTopic('exchange_status');
+  const [now, setNow] = useState(() => Date.now());
+  const showingStaleAge = isConnected && isStale && lastDataAt !== null;
+  // Quote ages and rate-limit resets count up between reports, which may stop while the feed stays live
+  const showingExchangeAges = isConnected && EXCHANGES.some(exchange => exchangeStatus[exchange] !== undefined);
+  const ticking = showingStaleAge || showingExchangeAges;
+
+  // Nothing else re-renders the sidebar while reports are silent, so the ages keep their own clock
+  useEffect(() => {
+    if (!ticking) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [ticking]);
 
   const tabs = [
     {
@@ -45,85 +80,28 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
     if (error) {
       return { status: 'error', color: 'text-error', bgColor: 'bg-error', text: 'Connection Error', label: 'Backend Status' };
     }
+    if (isConnected && isStale) {
+      const age = lastDataAt ? ` (${Math.round((now - lastDataAt) / 1000)}s old)` : '';
+      return { status: 'stale', color: 'text-warning', bgColor: 'bg-warning', text: `Stale Feed${age}`, label: 'Backend Status' };
+    }
     if (isConnected) {
       return { status: 'connected', color: 'text-success', bgColor: 'bg-success', text: 'Connected', label: 'Backend Status' };
     }
+    if (reconnectAttempt > 0) {
+      return { status: 'reconnecting', color: 'text-warning', bgColor: 'bg-warning', text: `Reconnecting (attempt ${reconnectAttempt})...`, label: 'Backend Status' };
+    }
     if (isLoading) {
       return { status: 'connecting', color: 'text-warning', bgColor: 'bg-warning', text: 'Connecting...', label: 'Backend Status' };
     }
     return { status: 'disconnected', color: 'text-error', bgColor: 'bg-error', text: 'Disconnected', label: 'Backend Status' };
   };
 
-  const getExchangeStatus = (exchangeName: string) => {
-    // Debug logging to see actual data structure
-    console.log('🔍 DEBUG Exchange Status Check:', {
-      exchangeName,
-      isConnected,
-      error,
-      isLoading,
-      hasData: !!data,
-      pairsLength: data?.pairs?.length || 0,
-      hasActivePositions: activePositions?.length || 0,
-      hasClosedPositions: closedPositions?.length || 0,
-      hasBalances: !!balances,
-      metadata: data?.metadata || null
-    });
-
-    // If WebSocket is not connected, exchanges can't be connected either
-    if (!isConnected || error) {
-      return { color: 'text-error', bgColor: 'bg-error', text: 'Disconnected' };
-    }
-    
-    // Check if we have ANY data indicating backend is working
-    const hasAnyData = (
-      (data && data.pairs && data.pairs.length > 0) ||
-      (activePositions && activePositions.length > 0) ||
-      (closedPositions && closedPositions.length > 0) ||
-      balances
-    );
-    
-    if (hasAnyData) {
-      console.log('🔍 DEBUG Data Check:', {
-        exchangeName,
-        hasArbitrageData: !!(data && data.pairs && data.pairs.length > 0),
-        hasActivePositions: !!(activePositions && activePositions.length > 0),
-        hasClosedPositions: !!(closedPositions && closedPositions.length > 0),
-        hasBalances: !!balances
-      });
-      
-      // For HyperLiquid - check if we have ANY indication it's working
-      if (exchangeName === 'HyperLiquid') {
-        const hasHyperLiquidData = (
-          (data && data.pairs && data.pairs.some(pair => pair.hyperliquid)) ||
-          (activePositions && activePositions.some(pos => pos.hyperliquid)) ||
-          (balances && balances.hyperliquid)
-        );
-        return { color: 'text-success', bgColor: 'bg-success', text: 'Connected' };
-      }
-      
-      // For Bybit - check if we have ANY indication it's working  
-      if (exchangeName === 'Bybit') {
-        const hasBybitData = (
-          (data && data.pairs && data.pairs.some(pair => pair.bybit)) ||
-          (activePositions && activePositions.some(pos => pos.bybit)) ||
-          (balances && balances.bybit)
-        );
-        return { color: 'text-success', bgColor: 'bg-success', text: 'Connected' };
-      }
-    }
-    
-    // If connected but no data, show connecting
-    if (isConnected) {
-      return { color: 'text-warning', bgColor: 'bg-warning', text: 'Connecting...' };
-    }
-    
-    // Default to disconnected
-    return { color: 'text-error', bgColor: 'bg-error', text: 'Disconnected' };
-  };
+  const exchangeStatuses = EXCHANGES.map(exchange => ({
+    exchange,
+    ...summarizeExchangeStatus(exchangeStatus[exchange], isConnected, now)
+  }));
 
   const connectionStatus = getConnectionStatus();
-  const hyperLiquidStatus = getExchangeStatus('HyperLiquid');
-  const bybitStatus = getExchangeStatus('Bybit');
 
   return (
     <div className="w-72 bg-card border-r border-white/10 p-6">
@@ -138,6 +116,25 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
         </div>
       </div>
 
+      {/* Connection Profile */}
+      <div className="mb-6">
+        <label htmlFor="connection-profile" className="block text-sm font-medium text-text-secondary mb-2">
+          Connection Profile
+        </label>
+        <select
+          id="connection-profile"
+          value={activeProfileId}
+          onChange={(e) => setActiveConnectionProfile(e.target.value)}
+          className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded-lg text-white text-sm focus:outline-none focus:border-accent"
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id} className="bg-card">
+              {profile.name} ({PROFILE_ENVIRONMENTS.find(env => env.value === profile.environment)?.label})
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Backend Status */}
       <div className="mb-6">
         <h2 className="text-sm font-medium text-text-secondary mb-2">{connectionStatus.label}</h2>
@@ -148,26 +145,36 @@ export default function Sidebar({ activeTab, onTabChange }: SidebarProps) {
         {error && (
           <p className="text-xs text-error/80 mt-1">{error}</p>
         )}
+        {tabRole === 'follower' && (
+          <p className="text-xs text-text-secondary mt-1" title="Only one tab per browser holds the WebSocket connection">
+            🔗 Shared with another open tab
+          </p>
+        )}
+        {protocolErrorCount > 0 && (
+          <div className="mt-1" title={lastProtocolError || undefined}>
+            <p className="text-xs text-warning">
+              ⚠️ {protocolErrorCount} malformed message{protocolErrorCount !== 1 ? 's' : ''} rejected
+            </p>
+            {lastProtocolError && (
+              <p className="text-xs text-warning/70 truncate">{lastProtocolError}</p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Exchange Status */}
       <div className="mb-8">
         <h2 className="text-sm font-medium text-text-secondary mb-2">Exchange Status</h2>
         <div className="space-y-2">
-          <div className="flex items-center justify-between">
-            <span className="text-white">HyperLiquid</span>
-            <div className={`flex items-center gap-2 ${hyperLiquidStatus.color}`}>
-              <div className={`w-2 h-2 rounded-full ${hyperLiquidStatus.bgColor}`} />
-              <span>{hyperLiquidStatus.text}</span>
-            </div>
-          </div>
-          <div className="flex items-center justify-between">
-            <span className="text-white">Bybit</span>
-            <div className={`flex items-center gap-2 ${bybitStatus.color}`}>
-              <div className={`w-2 h-2 rounded-full ${bybitStatus.bgColor}`} />
-              <span>{bybitStatus.text}</span>
+          {exchangeStatuses.map(({ exchange, health, text, details }) => (
+            <div key={exchange} className="flex items-center justify-between cursor-help" title={details.join('\n')}>
+              <span className="text-white">{EXCHANGE_LABELS[exchange]}</span>
+              <div className={`flex items-center gap-2 ${HEALTH_STYLES[health].color}`}>
+                <div className={`w-2 h-2 rounded-full ${HEALTH_STYLES[health].bgColor}`} />
+                <span>{text}</span>
+              </div>
             </div>
-          </div>
+          ))}
         </div>
       </div>
 
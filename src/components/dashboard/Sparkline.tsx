@@ -0,0 +1,38 @@
+'use client';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * SVG path through `values`, evenly spaced across `width` and scaled between `min` and `max`.
+ * A flat series is drawn through the middle.
+ */
+export function linePath(values: number[], width: number, height: number, min: number, max: number): string {
+  const span = max - min;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+  return values
+    .map((value, index) => {
+      const y = span > 0 ? height - ((value - min) / span) * height : height / 2;
+      return `${index === 0 ? 'M' : 'L'}${(index * step).toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+}
+
+// Inline trend line without axes; draws in the current text color
+export default function Sparkline({ values, width = 80, height = 24, className = '' }: SparklineProps) {
+  if (values.length < 2) {
+    return <span className="text-xs text-text-secondary">—</span>;
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className} aria-hidden="true">
+      <path d={linePath(values, width, height - 2, min, max)} transform="translate(0 1)" fill="none" stroke="currentColor" strokeWidth="1.5" />
+    </svg>
+  );
+}
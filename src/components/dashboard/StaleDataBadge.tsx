@@ -0,0 +1,42 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+interface StaleDataBadgeProps {
+  label: string;
+  // When the shown data was received; omitted when the age is unknown
+  since?: number | null;
+}
+
+const formatAge = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+};
+
+// Marks data that isn't coming from the live feed, e.g. the cached snapshot shown on page load
+export default function StaleDataBadge({ label, since }: StaleDataBadgeProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 10000);
+    return () => clearInterval(interval);
+  }, []);
+
+  return (
+    <div
+      className="flex items-center gap-2 text-sm text-warning"
+      title={since ? `Received ${new Date(since).toLocaleString()}` : undefined}
+    >
+      <div className="w-2 h-2 rounded-full bg-warning"></div>
+      <span>
+        📦 {label}
+        {since ? ` · ${formatAge(now - since)} old` : ''}
+      </span>
+    </div>
+  );
+}
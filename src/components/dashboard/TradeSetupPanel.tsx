@@ -1,13 +1,27 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useSharedWebSocket } from '../../hooks/useWebSocket';
-import { useTradingAPI } from '../../hooks/useTradingAPI';
+import {
+  useBalances,
+  useCachedAt,
+  useConnectionStatus,
+  usePair,
+  useReplayStatus,
+  useTopic,
+  useWebSocketSelector,
+  shallowEqual
+} from '../../hooks/useWebSocket';
+import { useTradingAPI, type TradingError } from '../../hooks/useTradingAPI';
+import { lockedSymbols, symbolOf, usePendingOrders } from '../../hooks/usePendingOrders';
+import StaleDataBadge from './StaleDataBadge';
+import TradingErrorNotice from './TradingErrorNotice';
+import UnresolvedOrders from './UnresolvedOrders';
 
 interface TradeSetupPanelProps {
   selectedPair: string;
   onPairChange: (pair: string) => void;
-  onExecuteTrade: (trade: TradeData) => void;
+  // Told about each successful open; the Executions panel tracks the trade itself
+  onExecuteTrade?: (trade: TradeData) => void;
 }
 
 interface TradeData {
@@ -38,13 +52,28 @@ export default function TradeSetupPanel({ selectedPair, onPairChange, onExecuteT
   const [currency, setCurrency] = useState<'USDT' | 'BTC' | 'ETH'>('USDT');
   const [isExecuting, setIsExecuting] = useState(false);
   const [tradePreview, setTradePreview] = useState<TradePreview | null>(null);
-  const [tradeError, setTradeError] = useState<string | null>(null);
+  // Kept with the pair it was for, since the selection may change while the error is shown
+  const [tradeError, setTradeError] = useState<{ pair: string; error: TradingError } | null>(null);
 
-    // Use shared WebSocket connection for real data
-  const { data: arbitrageData, balances: accountBalances, isConnected, isLoading } = useSharedWebSocket();
+  // Use shared WebSocket connection for real data; price ticks on other pairs don't re-render the panel
+  const accountBalances = useBalances();
+  const { isConnected, isLoading, isStale } = useConnectionStatus();
+  const dataCachedAt = useCachedAt('data');
+  const balancesCachedAt = useCachedAt('balances');
+  const replay = useReplayStatus();
+  const selectedPairData = usePair(selectedPair);
+  const bybitPairs = useWebSocketSelector(
+    state => (state.data?.pairs ?? []).filter((pair) => pair.bybit.available).map((pair) => pair.pair),
+    shallowEqual
+  );
+  useTopic('arbitrage_data');
+  useTopic('account_balances');
   
   // Use trading API for real trades
   const { openPosition } = useTradingAPI();
+  // One request per pair at a time, including ones still waiting for an outcome
+  const pendingOrders = usePendingOrders();
+  const pairLocked = !!selectedPair && lockedSymbols(pendingOrders).has(symbolOf(selectedPair));
 
   // Calculate available balance and max position size (only when connected)
   const getAvailableBalance = () => {
@@ -67,16 +96,10 @@ export default function TradeSetupPanel({ selectedPair, onPairChange, onExecuteT
   }, [isConnected, accountBalances, availableBalance]);
 
   // Get available pairs from real data (only when connected)
-  const availablePairs = isConnected && arbitrageData?.pairs
-    ? arbitrageData.pairs
-        .filter((pair) => pair.bybit.available) // Only show pairs available on Bybit
-        .map((pair) => pair.pair)
-    : [];
+  const availablePairs = isConnected ? bybitPairs : []; // Only show pairs available on Bybit
 
   // Get current pair data for calculations (only when connected)
-  const currentPairData = isConnected && arbitrageData?.pairs
-    ? arbitrageData.pairs.find((pair) => pair.pair === selectedPair)
-    : null;
+  const currentPairData = isConnected ? selectedPairData : null;
 
   // Calculate trade preview when amount, pair, or data changes
   useEffect(() => {
@@ -134,30 +157,30 @@ export default function TradeSetupPanel({ selectedPair, onPairChange, onExecuteT
     
     try {
       const result = await openPosition(selectedPair, parseFloat(amount));
-      
+
       if (result.success) {
-        // Call the original callback for UI updates
-      onExecuteTrade({
-        pair: selectedPair,
-        amount: parseFloat(amount),
-        currency
-      });
-      setAmount('');
+        onExecuteTrade?.({
+          pair: selectedPair,
+          amount: parseFloat(amount),
+          currency
+        });
+        setAmount('');
         console.log('✅ Trade executed successfully:', result.message);
       } else {
-        setTradeError(result.error || result.message);
-        console.error('❌ Trade execution failed:', result.error || result.message);
+        setTradeError({ pair: selectedPair, error: result.error });
       }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      setTradeError(errorMessage);
-      console.error('❌ Trade execution failed:', error);
     } finally {
       setIsExecuting(false);
     }
   };
 
-  const isValidTrade = amount && 
+  // Never trade on a frozen quote feed or cached quotes, even if the last quotes look valid
+  const awaitingLivePrices = dataCachedAt !== null;
+  const canTrade = isConnected && !isStale && !awaitingLivePrices && !replay;
+
+  const isValidTrade = canTrade &&
+                     !pairLocked &&
+                     amount && 
                      parseFloat(amount) > 0 && 
                      selectedPair && 
                      parseFloat(amount) <= availableBalance &&
@@ -167,11 +190,25 @@ export default function TradeSetupPanel({ selectedPair, onPairChange, onExecuteT
     <div className="glass-card rounded-xl p-6 space-y-6">
       <div className="flex items-center justify-between">
       <h2 className="text-xl font-bold text-white">Trade Setup</h2>
-        {!isConnected && (
+        {replay ? (
+          <div className="text-sm text-purple-200 bg-purple-500/10 px-3 py-1 rounded">
+            Replay mode - trading disabled
+          </div>
+        ) : !isConnected && (
           <div className="text-sm text-warning bg-warning/10 px-3 py-1 rounded">
             Connecting to data source...
           </div>
         )}
+        {!replay && isConnected && isStale && (
+          <div className="text-sm text-warning bg-warning/10 px-3 py-1 rounded">
+            Price feed stale - trading paused
+          </div>
+        )}
+        {!replay && isConnected && !isStale && awaitingLivePrices && (
+          <div className="text-sm text-warning bg-warning/10 px-3 py-1 rounded">
+            Waiting for live prices - trading paused
+          </div>
+        )}
       </div>
       
       {/* Pair Selection */}
@@ -304,9 +341,14 @@ export default function TradeSetupPanel({ selectedPair, onPairChange, onExecuteT
                 <div className="h-2 bg-white/5 rounded w-full mt-1"></div>
               </div>
             </div>
-          ) : isConnected && accountBalances ? (
+          ) : accountBalances && (isConnected || balancesCachedAt !== null) ? (
             <div className="bg-white/5 rounded-lg border border-white/10 p-3 space-y-2">
-              <div className="text-xs font-medium text-white mb-2">Account Balances</div>
+              <div className="flex items-center justify-between mb-2">
+                <div className="text-xs font-medium text-white">Account Balances</div>
+                {balancesCachedAt !== null && (
+                  <StaleDataBadge label="Cached" since={balancesCachedAt} />
+                )}
+              </div>
               <div className="grid grid-cols-2 gap-4 text-xs">
                 <div>
                   <div className="text-cyan-400 font-medium mb-1">HyperLiquid</div>
@@ -431,17 +473,11 @@ export default function TradeSetupPanel({ selectedPair, onPairChange, onExecuteT
         </div>
       )}
 
+      <UnresolvedOrders action="open" />
+
       {/* Error Display */}
       {tradeError && (
-        <div className="bg-red-500/10 border border-red-500/20 rounded-lg p-4">
-          <div className="flex items-center gap-2 text-red-400">
-            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
-            </svg>
-            <span className="font-medium">Trade Execution Failed</span>
-          </div>
-          <p className="text-red-300 text-sm mt-2">{tradeError}</p>
-        </div>
+        <TradingErrorNotice error={tradeError.error} context={tradeError.pair} onDismiss={() => setTradeError(null)} />
       )}
 
       {/* Execute Button */}
@@ -455,6 +491,8 @@ export default function TradeSetupPanel({ selectedPair, onPairChange, onExecuteT
             <div className="w-4 h-4 border-2 border-background border-t-transparent rounded-full animate-spin"></div>
             Executing Trade...
           </>
+        ) : pairLocked ? (
+          `${symbolOf(selectedPair)} Request Pending`
         ) : (
           'Execute Arbitrage Trade'
         )}
@@ -462,7 +500,11 @@ export default function TradeSetupPanel({ selectedPair, onPairChange, onExecuteT
       
       {!isValidTrade && amount && selectedPair && (
         <div className="text-sm text-error">
-          {!currentPairData?.bybit.available 
+          {!canTrade
+            ? 'Trading is disabled until live market data resumes'
+            : pairLocked
+            ? 'Wait for the pending request on this pair to settle'
+            : !currentPairData?.bybit.available 
             ? 'Selected pair is not available on Bybit'
             : parseFloat(amount) > availableBalance
             ? 'Insufficient balance'
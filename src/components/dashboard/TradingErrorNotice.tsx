@@ -0,0 +1,40 @@
+'use client';
+
+import { describeTradingError, type TradingError } from '../../hooks/useTradingAPI';
+
+interface TradingErrorNoticeProps {
+  error: TradingError;
+  // Shown before the title, e.g. the pair the failed request was for
+  context?: string;
+  onDismiss?: () => void;
+}
+
+const SEVERITY_STYLES = {
+  error: { box: 'bg-red-500/10 border-red-500/20', title: 'text-red-400', text: 'text-red-300' },
+  warning: { box: 'bg-amber-500/10 border-amber-500/30', title: 'text-amber-400', text: 'text-amber-200' }
+};
+
+export default function TradingErrorNotice({ error, context, onDismiss }: TradingErrorNoticeProps) {
+  const { title, hint, severity } = describeTradingError(error);
+  const styles = SEVERITY_STYLES[severity];
+
+  return (
+    <div className={`border rounded-lg p-4 ${styles.box}`} role="alert">
+      <div className="flex items-start justify-between gap-4">
+        <div className={`flex items-center gap-2 ${styles.title}`}>
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          <span className="font-medium">{context ? `${context}: ${title}` : title}</span>
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className={`text-sm ${styles.title} hover:text-white`} aria-label="Dismiss">
+            ✕
+          </button>
+        )}
+      </div>
+      <p className={`text-sm mt-2 ${styles.text}`}>{error.message}</p>
+      {hint && <p className={`text-xs mt-1 ${styles.text} opacity-80`}>{hint}</p>}
+    </div>
+  );
+}
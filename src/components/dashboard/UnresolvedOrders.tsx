@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import { dismissOrder, usePendingOrders, type OrderAction } from '../../hooks/usePendingOrders';
+import { useTradingAPI, type TradingResult } from '../../hooks/useTradingAPI';
+import TradingErrorNotice from './TradingErrorNotice';
+
+interface UnresolvedOrdersProps {
+  action: OrderAction;
+}
+
+// Requests that timed out or were interrupted. Their pair stays locked until the outcome is known.
+export default function UnresolvedOrders({ action }: UnresolvedOrdersProps) {
+  const orders = usePendingOrders();
+  const { resolveOrder } = useTradingAPI();
+  const [checking, setChecking] = useState<string | null>(null);
+  const [lastCheck, setLastCheck] = useState<{ pair: string; result: TradingResult } | null>(null);
+
+  const unresolved = orders.filter(order => order.action === action && order.status === 'unknown');
+
+  const handleCheck = async (key: string, pair: string) => {
+    setChecking(key);
+    const result = await resolveOrder(key);
+    setChecking(null);
+    if (result) {
+      setLastCheck({ pair, result });
+    }
+  };
+
+  const handleDismiss = (key: string, pair: string) => {
+    if (!confirm(`Stop tracking this ${action} for ${pair}? Check the exchange by hand first; the pair unlocks for new requests.`)) return;
+    dismissOrder(key);
+  };
+
+  if (unresolved.length === 0 && !lastCheck) return null;
+
+  return (
+    <div className="space-y-3">
+      {unresolved.map(order => (
+        <div key={order.key} className="bg-amber-500/10 border border-amber-500/30 rounded-lg p-4">
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <div className="font-medium text-amber-400">
+                {order.pair}: {action === 'open' ? `open ${order.amount} USDT` : `close ${order.amount}%`} - outcome unknown
+              </div>
+              <div className="text-xs text-amber-200 mt-1">
+                Sent {new Date(order.submittedAt).toLocaleTimeString()}
+                {order.error ? ` · ${order.error.message}` : ''}
+              </div>
+              <div className="text-xs text-amber-200/80 mt-1">
+                Resolves on its own when live positions show it. Checking again resends it under the same key, so it cannot execute twice.
+              </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+              <button
+                onClick={() => handleCheck(order.key, order.pair)}
+                disabled={checking !== null}
+                className="px-3 py-1.5 text-sm bg-amber-500/20 hover:bg-amber-500/30 text-amber-300 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {checking === order.key ? 'Checking...' : 'Check Again'}
+              </button>
+              <button
+                onClick={() => handleDismiss(order.key, order.pair)}
+                disabled={checking !== null}
+                className="px-3 py-1.5 text-sm bg-white/5 hover:bg-white/10 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {lastCheck && (lastCheck.result.success ? (
+        <div className="flex items-center justify-between bg-success/10 border border-success/20 rounded-lg px-4 py-3 text-sm text-success">
+          <span>{lastCheck.pair}: {lastCheck.result.message}</span>
+          <button onClick={() => setLastCheck(null)} className="hover:text-white" aria-label="Dismiss">✕</button>
+        </div>
+      ) : (
+        <TradingErrorNotice error={lastCheck.result.error} context={lastCheck.pair} onDismiss={() => setLastCheck(null)} />
+      ))}
+    </div>
+  );
+}
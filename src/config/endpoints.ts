@@ -1,13 +1,15 @@
+import { apiBaseUrl, getConnectionSettings, websocketUrl } from '../lib/settings/connectionSettings';
+
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const isDevelopment = process.env.NODE_ENV === 'development';
 
-// Server URLs
-const API_BASE = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8080';
-const WS_BASE = process.env.NEXT_PUBLIC_WS_URL || 'ws://localhost:8765';
-
+// Server URLs come from the saved connection settings (seeded by NEXT_PUBLIC_API_URL / NEXT_PUBLIC_WS_URL),
+// so read `base` when making a request rather than caching it
 export const endpoints = {
   api: {
-    base: API_BASE,
+    get base() {
+      return apiBaseUrl(getConnectionSettings());
+    },
     funding: '/api/funding',
     trade: '/api/trade',
     positions: '/api/positions',
@@ -15,6 +17,8 @@ export const endpoints = {
     closePosition: '/api/position/close'
   },
   ws: {
-    base: WS_BASE
+    get base() {
+      return websocketUrl(getConnectionSettings());
+    }
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,5 @@
+// Positive durations from NEXT_PUBLIC_* env vars; unset, malformed or non-positive values use the fallback
+export const readMs = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
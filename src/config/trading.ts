@@ -0,0 +1,33 @@
+import { readMs } from './env';
+
+export const tradingConfig = {
+  timeouts: {
+    // Position and status reads
+    readMs: readMs(process.env.NEXT_PUBLIC_TRADING_READ_TIMEOUT_MS, 8000),
+    // Opens and closes wait on both exchanges, so they get longer
+    writeMs: readMs(process.env.NEXT_PUBLIC_TRADING_WRITE_TIMEOUT_MS, 20000)
+  },
+  // Reads are retried on network errors, timeouts and 5xx; writes never are
+  readRetry: {
+    attempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 4000,
+    jitterRatio: 0.3
+  },
+  // Close selected / close all: how many closes are in flight at once, so a long list doesn't
+  // trip exchange rate limits
+  bulkClose: {
+    concurrency: 4
+  },
+  // Used for previews only; the exchanges' own fee schedules and margin rules decide what is charged
+  estimates: {
+    fees: {
+      bybitSpot: 0.001,
+      hyperliquidPerp: 0.00015
+    },
+    hyperliquid: {
+      maintenanceMargin: 0.005,
+      maxLeverage: 20
+    }
+  }
+};
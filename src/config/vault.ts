@@ -0,0 +1,12 @@
+import { readMs } from './env';
+
+export const vaultConfig = {
+  // An unlocked vault locks itself after this long without pointer or keyboard activity
+  autoLockAfterMs: readMs(process.env.NEXT_PUBLIC_VAULT_AUTO_LOCK_MS, 15 * 60 * 1000),
+  // PBKDF2-SHA256 work factor for new vaults; existing vaults keep the count they were sealed with
+  pbkdf2Iterations: 600000,
+  // Counts accepted from stored or imported vaults; fewer is too weak, more would freeze the tab on unlock
+  minPbkdf2Iterations: 100000,
+  maxPbkdf2Iterations: 2000000,
+  minPassphraseLength: 8
+};
@@ -0,0 +1,41 @@
+import { readMs } from './env';
+
+export const websocketConfig = {
+  reconnect: {
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    jitterRatio: 0.3 // +/- 30% so many tabs don't reconnect in lockstep after a backend restart
+  },
+  heartbeat: {
+    intervalMs: 15000,
+    timeoutMs: 10000
+  },
+  // Live data is written to the local snapshot cache at most this often
+  cache: {
+    saveIntervalMs: 5000
+  },
+  // Per-pair funding, mid price and basis history behind the table's sparklines and charts
+  history: {
+    // At most one point per pair this often
+    sampleIntervalMs: 60000,
+    // Points newer than this keep every sample; older ones are thinned to one per coarseIntervalMs
+    fullResolutionMs: 24 * 60 * 60 * 1000,
+    coarseIntervalMs: 15 * 60 * 1000,
+    retentionMs: 7 * 24 * 60 * 60 * 1000,
+    saveIntervalMs: 60000
+  },
+  tabs: {
+    // Followers re-announce their topics this often; the leader drops tabs silent for expireAfterMs
+    announceIntervalMs: 10000,
+    expireAfterMs: 30000
+  },
+  // Per-venue health from exchange_status reports
+  exchanges: {
+    // A venue whose last quote is older than this is flagged even if its connections are up
+    quoteStaleAfterMs: 30000,
+    // Warn once this share of a venue's rate-limit window is used
+    rateLimitWarnRatio: 0.8
+  },
+  // Arbitrage data is pushed about once a minute, so allow for one missed update
+  staleAfterMs: readMs(process.env.NEXT_PUBLIC_WS_STALE_AFTER_MS, 150000)
+};
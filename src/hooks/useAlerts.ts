@@ -0,0 +1,150 @@
+'use client';
+
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import { getAlerts, getServerAlerts, pushAlerts, subscribeAlerts } from '../lib/alerts/alertFeed';
+import { playAlertSound, showNotification } from '../lib/alerts/notifications';
+import { createRuleEngine, type RuleContext } from '../lib/alerts/ruleEngine';
+import { alertForChange, diffSnapshots } from '../lib/alerts/snapshotDiff';
+import { alertRulesStore, alertSnoozesStore } from '../lib/settings/alertRules';
+import { opportunityAlertsStore } from '../lib/settings/opportunityAlerts';
+import type { ArbitrageData, ArbitragePair, Position } from '../lib/websocket/protocol';
+import { useConnectionSettings } from './useConnectionSettings';
+import { usePersistentStore } from './usePersistentStore';
+import {
+  useActivePositions,
+  useArbitrageData,
+  useArbitragePairs,
+  useCachedAt,
+  useConnectionStatus,
+  useExchangeStatus,
+  useReplayStatus,
+  useTopic,
+  useWebSocketSelector
+} from './useWebSocket';
+
+// How often alert rules are checked; connection rules need a clock, not just new data
+const RULE_CHECK_INTERVAL_MS = 1000;
+
+const NO_PAIRS: ArbitragePair[] = [];
+const NO_POSITIONS: Position[] = [];
+
+export type { AlertEntry, AlertKind } from '../lib/alerts/alertFeed';
+export { clearAlerts, dismissAlert } from '../lib/alerts/alertFeed';
+
+export function useAlertFeed() {
+  return useSyncExternalStore(subscribeAlerts, getAlerts, getServerAlerts);
+}
+
+/**
+ * Diffs each arbitrage snapshot against the one before it and adds listings, removals and funding
+ * threshold crossings to the alert feed. Mount once, high in the tree.
+ */
+export function useOpportunityAlerts(): void {
+  const data = useArbitrageData();
+  const cachedAt = useCachedAt('data');
+  const replay = useReplayStatus();
+  const settings = usePersistentStore(opportunityAlertsStore);
+  const profileId = useConnectionSettings().id;
+  useTopic('arbitrage_data');
+  const previous = useRef<{ data: ArbitrageData; pairs: ArbitragePair[]; profileId: string } | null>(null);
+
+  useEffect(() => {
+    // Cached snapshots and replays are not news, and neither is the first snapshot after the feed
+    // was cleared or another backend was chosen; the next live snapshot starts a fresh baseline
+    const live = data !== null && cachedAt === null && !replay;
+    if (!live || previous.current?.profileId !== profileId) {
+      previous.current = null;
+    }
+    if (!live) return;
+
+    const pairs = settings.bybitAvailableOnly ? data.pairs.filter(pair => pair.bybit.available) : data.pairs;
+    // A settings change re-runs this for the same snapshot; only new snapshots are compared
+    if (previous.current && previous.current.data !== data) {
+      const at = Date.now();
+      const changes = diffSnapshots(previous.current.pairs, pairs, settings.fundingThresholdsPct)
+        .filter(change => (change.kind === 'added' ? settings.newPairs : change.kind === 'removed' ? settings.removedPairs : true));
+      if (changes.length > 0) {
+        console.log(`🔔 Alerts: ${changes.length} change(s) since the last snapshot`);
+        pushAlerts(changes.map(change => alertForChange(change, at)));
+      }
+    }
+    previous.current = { data, pairs, profileId };
+  }, [data, cachedAt, replay, settings, profileId]);
+}
+
+/**
+ * Checks the user's alert rules every second against the latest live pairs, positions and
+ * connection states. Every firing goes to the in-app feed if the rule asks for it; notifications
+ * and sounds only come from the leader tab so a desk with several tabs open hears each alert once.
+ * Mount once, high in the tree.
+ */
+export function useAlertRules(): void {
+  const rules = usePersistentStore(alertRulesStore);
+  const snoozes = usePersistentStore(alertSnoozesStore);
+  const pairs = useArbitragePairs();
+  const positions = useActivePositions();
+  const pairsCachedAt = useCachedAt('data');
+  const positionsCachedAt = useCachedAt('activePositions');
+  const replay = useReplayStatus();
+  const { isConnected } = useConnectionStatus();
+  const exchangeStatus = useExchangeStatus();
+  const tabRole = useWebSocketSelector(state => state.tabRole);
+  const hasRules = rules.rules.some(rule => rule.enabled);
+  useTopic('arbitrage_data');
+  useTopic('active_positions');
+  useTopic('exchange_status');
+
+  const engine = useRef(createRuleEngine());
+  const latest = useRef({ rules, snoozes, tabRole, context: null as RuleContext | null });
+  // Cached snapshots and replays describe the past; rules only look at live data
+  latest.current = {
+    rules,
+    snoozes,
+    tabRole,
+    context: {
+      pairs: pairsCachedAt !== null || replay ? NO_PAIRS : pairs,
+      positions: positionsCachedAt !== null || replay ? NO_POSITIONS : positions,
+      backendConnected: isConnected,
+      exchangeStatus
+    }
+  };
+
+  useEffect(() => {
+    if (!hasRules) return;
+    const ruleEngine = engine.current;
+
+    const check = () => {
+      const { rules: { rules: current }, snoozes: snoozed, tabRole: role, context } = latest.current;
+      if (!context) return;
+      const at = Date.now();
+      const firings = ruleEngine.evaluate(current, snoozed, context, at);
+      if (firings.length === 0) return;
+
+      console.log(`🔔 Alerts: ${firings.length} rule firing(s)`);
+      pushAlerts(firings.filter(firing => firing.rule.outputs.inApp).map(firing => ({
+        kind: 'rule_fired' as const,
+        at,
+        pair: firing.rule.scope === 'connection' ? null : firing.subject,
+        title: firing.title,
+        detail: firing.detail,
+        tone: firing.rule.severity === 'opportunity' ? 'positive' as const : 'negative' as const
+      })));
+
+      if (role !== 'leader') return;
+      firings.filter(firing => firing.rule.outputs.notification).forEach(firing => {
+        showNotification(firing.title, firing.detail, `${firing.rule.id}:${firing.subject}`);
+      });
+      if (firings.some(firing => firing.rule.outputs.sound)) {
+        playAlertSound();
+      }
+    };
+
+    check();
+    const timer = setInterval(check, RULE_CHECK_INTERVAL_MS);
+    return () => {
+      clearInterval(timer);
+      // Turning every rule off forgets outages and cooldowns; turning them back on starts fresh
+      ruleEngine.reset();
+    };
+  }, [hasRules]);
+}
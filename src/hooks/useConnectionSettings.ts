@@ -0,0 +1,30 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  getConnectionProfiles,
+  getConnectionSettings,
+  getServerConnectionProfiles,
+  getServerConnectionSettings,
+  subscribeConnectionSettings,
+  type ConnectionProfile,
+  type ConnectionProfiles
+} from '../lib/settings/connectionSettings';
+
+export type {
+  ConnectionProfile,
+  ConnectionProfiles,
+  ConnectionSettings,
+  ConnectionSettingsErrors,
+  ProfileEnvironment
+} from '../lib/settings/connectionSettings';
+
+// The active connection profile; re-renders when it is edited or switched here or in another tab
+export function useConnectionSettings(): ConnectionProfile {
+  return useSyncExternalStore(subscribeConnectionSettings, getConnectionSettings, getServerConnectionSettings);
+}
+
+// Every saved profile and which one is active
+export function useConnectionProfiles(): ConnectionProfiles {
+  return useSyncExternalStore(subscribeConnectionSettings, getConnectionProfiles, getServerConnectionProfiles);
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import {
+  getServerVaultState,
+  getVaultState,
+  subscribeVault,
+  type VaultState
+} from '../lib/settings/credentialVault';
+
+export type { ExchangeCredentials, VaultState, VaultStatus } from '../lib/settings/credentialVault';
+
+// Vault status for this tab, plus the decrypted credentials while it is unlocked
+export function useCredentialVault(): VaultState {
+  return useSyncExternalStore(subscribeVault, getVaultState, getServerVaultState);
+}
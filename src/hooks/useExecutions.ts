@@ -0,0 +1,20 @@
+'use client';
+
+import { useMemo } from 'react';
+import { buildExecutions } from '../lib/trading/executions';
+import { usePendingOrders } from './usePendingOrders';
+import { useExecutionUpdates, useTopic } from './useWebSocket';
+
+export type { Execution, ExecutionState, ExecutionTransition, LegEvent } from '../lib/trading/executions';
+
+/**
+ * Open/close lifecycles from this tab's requests and the backend's per-leg execution updates.
+ * Subscribes to the executions topic while mounted.
+ */
+export function useExecutions() {
+  const orders = usePendingOrders();
+  const updates = useExecutionUpdates();
+  useTopic('executions');
+
+  return useMemo(() => buildExecutions(orders, updates), [orders, updates]);
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useCallback, useSyncExternalStore } from 'react';
+import { getPairHistory, getServerPairHistory, subscribePairHistory } from '../lib/websocket/pairHistory';
+
+export type { HistoryPoint } from '../lib/websocket/pairHistory';
+export { historyInRange } from '../lib/websocket/pairHistory';
+
+/**
+ * Sampled history for one pair, e.g. "BTC/USDT", oldest first. Only re-renders when that pair
+ * gets a new point.
+ */
+export function usePairHistory(pair: string) {
+  const getSnapshot = useCallback(() => getPairHistory(pair), [pair]);
+  return useSyncExternalStore(subscribePairHistory, getSnapshot, getServerPairHistory);
+}
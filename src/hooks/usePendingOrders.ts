@@ -0,0 +1,35 @@
+'use client';
+
+import { useEffect, useSyncExternalStore } from 'react';
+import {
+  getPendingOrders,
+  getServerPendingOrders,
+  reconcileOrders,
+  subscribePendingOrders
+} from '../lib/trading/pendingOrders';
+import { useActivePositions, useCachedAt, useReplayStatus, useTopic, useWebSocketSelector } from './useWebSocket';
+
+export type { PendingOrder, OrderAction, OrderStatus } from '../lib/trading/pendingOrders';
+export { dismissOrder, lockedSymbols, symbolOf } from '../lib/trading/pendingOrders';
+
+export function usePendingOrders() {
+  return useSyncExternalStore(subscribePendingOrders, getPendingOrders, getServerPendingOrders);
+}
+
+/**
+ * Settles orders with unknown outcomes from live active_positions updates. Mount once, high in the tree.
+ */
+export function useOrderReconciliation(): void {
+  const positions = useActivePositions();
+  const receivedAt = useWebSocketSelector(state => state.activePositionsReceivedAt);
+  const cachedAt = useCachedAt('activePositions');
+  const replay = useReplayStatus();
+  useTopic('active_positions');
+
+  useEffect(() => {
+    // Only a live list says what the account holds now: not the empty list before the first message
+    // or after a clear, not the cached one, and not a replayed recording
+    if (receivedAt === null || cachedAt !== null || replay) return;
+    reconcileOrders(positions, receivedAt);
+  }, [positions, receivedAt, cachedAt, replay]);
+}
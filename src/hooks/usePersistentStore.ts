@@ -0,0 +1,9 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import type { PersistentStore } from '../lib/settings/persistentStore';
+
+// Current value of a persisted preference store, re-rendering when it changes here or in another tab
+export function usePersistentStore<T>(store: PersistentStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.get, store.getServer);
+}
@@ -2,16 +2,27 @@
 
 import { useCallback } from 'react';
 import { endpoints } from '../config/endpoints';
+import { tradingRequest } from '../lib/trading/tradingRequest';
+import { TradingError, asTradingError } from '../lib/trading/tradingErrors';
+import {
+  beginOrder,
+  getPendingOrders,
+  lockedSymbols,
+  resendOrder,
+  settleOrder,
+  symbolOf,
+  type OrderStatus,
+  type PendingOrder
+} from '../lib/trading/pendingOrders';
 
-// API base URL - in production this would come from environment variables
-const API_BASE_URL = endpoints.api.base;
+export { TradingError, describeTradingError } from '../lib/trading/tradingErrors';
+export type { TradingErrorKind, TradingLeg } from '../lib/trading/tradingErrors';
 
-export interface TradingResult {
-  success: boolean;
-  message: string;
-  error?: string;
-  position?: any;
-}
+// Opens and closes report failures as values so panels can show them by kind; reads throw instead,
+// so an unreachable backend is never mistaken for "no positions"
+export type TradingResult =
+  | { success: true; message: string; position?: any; realizedPnl?: number }
+  | { success: false; message: string; error: TradingError };
 
 export interface Position {
   symbol: string;
@@ -20,6 +31,7 @@ export interface Position {
   entry_time: string | null;
   exit_time: string | null;
   entry_funding_rate: number;
+  client_order_ids?: string[];
   bybit: {
     entry_price: number;
     exit_price: number;
@@ -48,150 +60,120 @@ export interface Position {
   };
 }
 
-// Trading API functions
-const executeTradeAPI = async (pair: string, amount: number): Promise<any> => {
-  const response = await fetch(`${API_BASE_URL}/trading/open`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({ pair, amount }),
-  });
-  
-  if (!response.ok) {
-    const errorData = await response.json().catch(() => ({}));
-    throw new Error(errorData.message || `HTTP error! status: ${response.status}`);
-  }
-  
-  return response.json();
-};
+// Trading API functions. Opens and closes carry the order's idempotency key, so sending the same
+// order twice never trades twice.
+const executeTradeAPI = (pair: string, amount: number, idempotencyKey: string, signal?: AbortSignal): Promise<any> =>
+  tradingRequest(`${endpoints.api.base}/trading/open`, { method: 'POST', body: { pair, amount }, idempotencyKey, signal });
 
-const closeTradeAPI = async (pair: string, percentage: number = 100): Promise<any> => {
-  try {
-    const response = await fetch(`${API_BASE_URL}/trading/close`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ 
-        pair,
-        percentage 
-      }),
-    });
-    
-    const data = await response.json();
-    
-    if (!response.ok) {
-      throw new Error(data.message || data.error || `Failed to close position (${response.status})`);
-    }
-    
-    return data;
-  } catch (error: any) {
-    if (error instanceof Error) {
-      throw error;
-    }
-    throw new Error('Failed to close position: Network error');
-  }
-};
+const closeTradeAPI = (pair: string, percentage: number, idempotencyKey: string, signal?: AbortSignal): Promise<any> =>
+  tradingRequest(`${endpoints.api.base}/trading/close`, { method: 'POST', body: { pair, percentage }, idempotencyKey, signal });
 
-const getActivePositionsAPI = async (): Promise<Position[]> => {
-  const response = await fetch(`${API_BASE_URL}/trading/positions/active`);
-  
-  if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
-  }
-  
-  const data = await response.json();
+// Setting leverage to a value is safe to repeat, so it goes without an idempotency key
+const setLeverageAPI = (pair: string, leverage: number, signal?: AbortSignal): Promise<any> =>
+  tradingRequest(`${endpoints.api.base}/trading/leverage`, { method: 'POST', body: { pair, leverage }, signal });
+
+const getActivePositionsAPI = async (signal?: AbortSignal): Promise<Position[]> => {
+  const data = await tradingRequest<any>(`${endpoints.api.base}/trading/positions/active`, { retry: true, signal });
   return data.active_positions || [];
 };
 
-const getClosedPositionsAPI = async (days: number = 7, limit: number = 50): Promise<Position[]> => {
-  const response = await fetch(`${API_BASE_URL}/trading/positions/closed?days=${days}&limit=${limit}`);
-  
-  if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
-  }
-  
-  const data = await response.json();
+const getClosedPositionsAPI = async (days: number = 7, limit: number = 50, signal?: AbortSignal): Promise<Position[]> => {
+  const data = await tradingRequest<any>(`${endpoints.api.base}/trading/positions/closed?days=${days}&limit=${limit}`, { retry: true, signal });
   return data.closed_positions || [];
 };
 
-const getTradingStatusAPI = async (): Promise<any> => {
-  const response = await fetch(`${API_BASE_URL}/trading/status`);
-  
-  if (!response.ok) {
-    throw new Error(`HTTP error! status: ${response.status}`);
+const getTradingStatusAPI = (signal?: AbortSignal): Promise<any> =>
+  tradingRequest(`${endpoints.api.base}/trading/status`, { retry: true, signal });
+
+const failure = (message: string, err: unknown): TradingResult => {
+  const error = asTradingError(err);
+  console.error(`❌ Trading API: ${message} (${error.kind}):`, error.message);
+  return { success: false, message, error };
+};
+
+const lockedFailure = (action: string, pair: string): TradingResult => failure(`Failed to ${action} position`, new TradingError(
+  'validation',
+  `${symbolOf(pair)} already has a request in flight or with an unknown outcome; wait for it to settle`,
+  null,
+  'PAIR_LOCKED'
+));
+
+// Whether an error leaves the order's outcome open. A cancelled request may already have reached the backend.
+const statusAfter = (error: TradingError): OrderStatus =>
+  error.kind === 'timeout' || error.kind === 'cancelled' || error.code === 'REQUEST_IN_PROGRESS' ? 'unknown' : 'failed';
+
+const submitOrder = async (order: PendingOrder, resolvedBy: 'response' | 'resend', signal?: AbortSignal): Promise<TradingResult> => {
+  const verb = order.action === 'open' ? 'open' : 'close';
+  try {
+    const result = order.action === 'open'
+      ? await executeTradeAPI(order.pair, order.amount, order.key, signal)
+      : await closeTradeAPI(order.pair, order.amount, order.key, signal);
+    settleOrder(order.key, 'done', null, resolvedBy);
+    // A replay means the first attempt went through; the backend did not trade again
+    const message = result.message || `Position ${verb === 'open' ? 'opened' : 'closed'} successfully`;
+    return {
+      success: true,
+      message: result.idempotent_replay ? `Already done: ${message}` : message,
+      position: result.position,
+      realizedPnl: typeof result.realized_pnl === 'number' ? result.realized_pnl : undefined
+    };
+  } catch (err) {
+    const error = asTradingError(err);
+    settleOrder(order.key, statusAfter(error), error, resolvedBy);
+    return failure(`Failed to ${verb} position`, error);
   }
-  
-  return response.json();
 };
 
 export const useTradingAPI = () => {
-  const openPosition = useCallback(async (pair: string, amount: number): Promise<TradingResult> => {
-    try {
-      const result = await executeTradeAPI(pair, amount);
-      return { 
-        success: true, 
-        message: result.message || 'Position opened successfully',
-        position: result.position 
-      };
-    } catch (error: any) {
-      return { 
-        success: false, 
-        message: 'Failed to open position', 
-        error: error.message 
-      };
-    }
+  const openPosition = useCallback(async (pair: string, amount: number, signal?: AbortSignal): Promise<TradingResult> => {
+    const order = beginOrder('open', pair, amount);
+    if (!order) return lockedFailure('open', pair);
+    return submitOrder(order, 'response', signal);
   }, []);
 
-  const closePosition = useCallback(async (pair: string, percentage: number = 100): Promise<TradingResult> => {
-    try {
-      const result = await closeTradeAPI(pair, percentage);
-      return { 
-        success: true, 
-        message: result.message || 'Position closed successfully' 
-      };
-    } catch (error: any) {
-      return { 
-        success: false, 
-        message: 'Failed to close position', 
-        error: error.message 
-      };
-    }
+  const closePosition = useCallback(async (pair: string, percentage: number = 100, signal?: AbortSignal): Promise<TradingResult> => {
+    const order = beginOrder('close', pair, percentage);
+    if (!order) return lockedFailure('close', pair);
+    return submitOrder(order, 'response', signal);
   }, []);
 
-  const getActivePositions = useCallback(async (): Promise<Position[]> => {
+  // Changes the HyperLiquid leg's leverage. Refused while an open or close for the pair hasn't settled,
+  // since the margin it would be checked against is not known yet.
+  const setLeverage = useCallback(async (pair: string, leverage: number, signal?: AbortSignal): Promise<TradingResult> => {
+    if (lockedSymbols(getPendingOrders()).has(symbolOf(pair))) return lockedFailure('modify', pair);
     try {
-      return await getActivePositionsAPI();
-    } catch (error) {
-      console.error('Failed to get active positions:', error);
-      return [];
+      const result = await setLeverageAPI(pair, leverage, signal);
+      return { success: true, message: result.message || `Leverage set to ${leverage}x`, position: result.position };
+    } catch (err) {
+      return failure('Failed to change leverage', err);
     }
   }, []);
 
-  const getClosedPositions = useCallback(async (days: number = 7, limit: number = 50): Promise<Position[]> => {
-    try {
-      return await getClosedPositionsAPI(days, limit);
-    } catch (error) {
-      console.error('Failed to get closed positions:', error);
-      return [];
-    }
+  // Sends an order whose outcome is unknown again under the same key: the backend either replays
+  // the original result or, if the first attempt never arrived, executes it now
+  const resolveOrder = useCallback(async (key: string, signal?: AbortSignal): Promise<TradingResult | null> => {
+    const order = resendOrder(key);
+    if (!order) return null;
+    return submitOrder(order, 'resend', signal);
   }, []);
 
-  const getTradingStatus = useCallback(async (): Promise<any> => {
-    try {
-      return await getTradingStatusAPI();
-    } catch (error) {
-      console.error('Failed to get trading status:', error);
-      return null;
-    }
-  }, []);
+  // Reads reject with a TradingError after retries are exhausted
+  const getActivePositions = useCallback((signal?: AbortSignal) => getActivePositionsAPI(signal), []);
+
+  const getClosedPositions = useCallback(
+    (days: number = 7, limit: number = 50, signal?: AbortSignal) => getClosedPositionsAPI(days, limit, signal),
+    []
+  );
+
+  const getTradingStatus = useCallback((signal?: AbortSignal) => getTradingStatusAPI(signal), []);
 
   return {
     openPosition,
     closePosition,
+    setLeverage,
+    resolveOrder,
     getActivePositions,
     getClosedPositions,
     getTradingStatus
   };
-}; 
\ No newline at end of file
+};
@@ -1,302 +1,888 @@
-/* eslint-disable @typescript-eslint/no-explicit-any */
-
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback, createContext, useContext, ReactNode } from 'react';
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  useSyncExternalStore,
+  createContext,
+  useContext,
+  ReactNode
+} from 'react';
 import { endpoints } from '../config/endpoints';
+import { websocketConfig } from '../config/websocket';
+import {
+  getConnectionSettings,
+  getServerConnectionSettings,
+  subscribeConnectionSettings
+} from '../lib/settings/connectionSettings';
+import { getReconnectDelay } from '../lib/websocket/backoff';
+import { applyArbitrageDelta } from '../lib/websocket/arbitrageDelta';
+import {
+  TopicRegistry,
+  subscribeFrame,
+  unsubscribeFrame,
+  type Topic,
+  type TopicParamsMap,
+} from '../lib/websocket/topics';
+import {
+  parseServerMessage,
+  validateServerMessage,
+  type ArbitrageData,
+  type ArbitragePair,
+  type ServerMessage,
+} from '../lib/websocket/protocol';
+import {
+  createTabCoordinator,
+  type SharedConnectionStatus,
+  type TabCoordinator,
+  type TabMessage,
+} from '../lib/websocket/tabCoordinator';
+import { loadCachedSnapshot, persistSnapshot, restoreCachedSnapshot } from '../lib/websocket/snapshotCache';
+import { recordPairHistory } from '../lib/websocket/pairHistory';
+import {
+  createReplayer,
+  createSessionRecorder,
+  type Replayer,
+  type ReplaySpeed,
+  type SessionRecorder,
+  type SessionRecording,
+} from '../lib/websocket/sessionRecording';
+import {
+  clearedFeedState,
+  createWebSocketStore,
+  indexPairs,
+  markLive,
+  mergeExecutionUpdates,
+  shallowEqual,
+  type CachedSection,
+  type WebSocketState,
+  type WebSocketStore,
+} from '../lib/websocket/store';
 
-export interface ArbitragePair {
-  pair: string;
-  funding_rate: number;
-  annual_funding_rate: number;
-  hyperliquid: {
-    bid: number;
-    ask: number;
-    volume: number;
-    bid_size?: number;
-    ask_size?: number;
-  };
-  bybit: {
-    bid: number;
-    ask: number;
-    volume: number;
-    available: boolean;
-  };
-}
+export type { Topic, TopicParamsMap } from '../lib/websocket/topics';
+export type { WebSocketState, CachedSection, ReplayStatus } from '../lib/websocket/store';
+export type { ReplaySpeed, SessionRecording } from '../lib/websocket/sessionRecording';
+export type { TabRole } from '../lib/websocket/tabCoordinator';
+export { shallowEqual };
+export type {
+  ArbitragePair,
+  ArbitrageData,
+  Position,
+  ClosedTrade,
+  AccountBalances,
+  ExchangeName,
+  ExchangeStatus,
+  ExecutionUpdate,
+  ServerMessage,
+} from '../lib/websocket/protocol';
 
-export interface ArbitrageData {
-  pairs: ArbitragePair[];
-  metadata: {
-    last_update: string;
-    hyperliquid_pairs_count: number;
-    bybit_pairs_count: number;
-    combined_pairs_count: number;
-  };
-}
+// Kept for existing imports; every inbound frame is now a validated ServerMessage
+export type WebSocketMessage = ServerMessage;
 
-export interface Position {
-  symbol: string;
-  usdt_amount: number;
-  status: string;
-  entry_time: string | null;
-  exit_time: string | null;
-  entry_funding_rate: number;
-  bybit: {
-    entry_price: number;
-    exit_price: number;
-    amount: number;
-    unrealized_pnl: number;
-    realized_pnl: number;
-    total_fees: number;
-  };
-  hyperliquid: {
-    entry_price: number;
-    exit_price: number;
-    size: number;
-    unrealized_pnl: number;
-    realized_pnl: number;
-    liquidation_price: number;
-    margin_used: number;
-    leverage: number;
-    total_fees: number;
-    liquidation_risk_pct: number;
-  };
-  total: {
-    unrealized_pnl: number;
-    realized_pnl: number;
-    funding_earned: number;
-    net_pnl: number;
-  };
+// Compatibility shape returned by useSharedWebSocket: the whole store state plus actions
+interface WebSocketContextType extends WebSocketState {
+  reconnect: () => void;
+  // Prefer useTopic; returns the release function for this subscriber
+  subscribeTopic: <T extends Topic>(topic: T, params: TopicParamsMap[T]) => () => void;
 }
 
-export interface WebSocketMessage {
-  type: string;
-  data?: any;
-  message?: string;
-  timestamp: string;
+interface SessionControls {
+  startRecording: () => void;
+  // Returns the finished recording, or null when nothing was being recorded
+  stopRecording: () => SessionRecording | null;
+  startReplay: (recording: SessionRecording, name: string, speed: ReplaySpeed) => void;
+  setReplaySpeed: (speed: ReplaySpeed) => void;
+  // Leaves replay mode and asks for fresh live data
+  stopReplay: () => void;
 }
 
-interface AccountBalances {
-  bybit: {
-    total: number;
-    free: number;
-    used: number;
-  };
-  hyperliquid: {
-    total: number;
-    free: number;
-    used: number;
-  };
+// The context itself only carries stable references; state is read through the store
+interface WebSocketContextValue extends SessionControls {
+  store: WebSocketStore;
+  reconnect: () => void;
+  subscribeTopic: <T extends Topic>(topic: T, params: TopicParamsMap[T]) => () => void;
 }
 
-interface WebSocketContextType {
-  data: ArbitrageData | null;
-  activePositions: Position[];
-  closedPositions: any[]; // Can be Position[] or TradeData[] depending on backend
-  balances: AccountBalances | null;
-  isConnected: boolean;
-  isLoading: boolean;
-  error: string | null;
-  reconnect: () => void;
+interface WebSocketProviderProps {
+  children: ReactNode;
+  staleAfterMs?: number;
 }
 
-const WebSocketContext = createContext<WebSocketContextType | undefined>(undefined);
+// How long to wait for a requested snapshot before asking again
+const RESYNC_TIMEOUT_MS = 5000;
+
+// Connection fields the leader tab mirrors to followers
+const selectConnectionStatus = ({ isConnected, error, reconnectAttempt }: WebSocketState): SharedConnectionStatus => ({
+  isConnected,
+  error,
+  reconnectAttempt
+});
 
-export function WebSocketProvider({ children }: { children: ReactNode }) {
-  const [data, setData] = useState<ArbitrageData | null>(null);
-  const [activePositions, setActivePositions] = useState<Position[]>([]);
-  const [closedPositions, setClosedPositions] = useState<any[]>([]); // Generic array for flexibility
-  const [balances, setBalances] = useState<AccountBalances | null>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+const WebSocketContext = createContext<WebSocketContextValue | undefined>(undefined);
+
+export function WebSocketProvider({ children, staleAfterMs = websocketConfig.staleAfterMs }: WebSocketProviderProps) {
+  const [store] = useState(() => createWebSocketStore());
   const [isClient, setIsClient] = useState(false);
+  // Caches and history are kept per profile, so data from one backend never shows under another
+  const activeProfileId = useSyncExternalStore(
+    subscribeConnectionSettings,
+    () => getConnectionSettings().id,
+    () => getServerConnectionSettings().id
+  );
+  const [topics] = useState(() => new TopicRegistry());
   const ws = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const isReconnecting = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const pongTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const staleTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const shouldReconnect = useRef(true);
   const hasInitialFetched = useRef(false);
+  // Sequence number of the snapshot in the store; the next delta must carry seq + 1
+  const seqRef = useRef<number | null>(null);
+  const resyncRequestedAtRef = useRef<number | null>(null);
+  const coordinatorRef = useRef<TabCoordinator | null>(null);
+  // Topics held by follower tabs, registered on the leader's registry so they reach the socket
+  const remoteTabsRef = useRef(new Map<string, { releases: Array<() => void>; lastSeen: number }>());
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const replayerRef = useRef<Replayer | null>(null);
 
   useEffect(() => {
     setIsClient(true);
   }, []);
 
-  const connect = useCallback(() => {
-    if (!isClient || isReconnecting.current) return;
+  // (Re)arm the stale timer; called on every arbitrage_data and when a connection opens
+  const armStaleTimer = useCallback(() => {
+    if (staleTimeoutRef.current) {
+      clearTimeout(staleTimeoutRef.current);
+    }
+    staleTimeoutRef.current = setTimeout(() => {
+      console.warn(`⏱️ Shared: No arbitrage data for ${Math.round(staleAfterMs / 1000)}s, marking feed as stale`);
+      store.setState({ isStale: true });
+    }, staleAfterMs);
+  }, [store, staleAfterMs]);
 
-    try {
-      ws.current = new WebSocket(endpoints.ws.base);
-      
-      ws.current.onopen = async () => {
-        console.log('✅ Shared: WebSocket connection established');
-        setIsConnected(true);
-        setError(null);
-        isReconnecting.current = false;
-        
-        // Make single initial API fetch if not already done
-        if (!hasInitialFetched.current) {
-          console.log('🔄 Making initial API fetch...');
-          hasInitialFetched.current = true;
-          
-          try {
-            const response = await fetch(`${endpoints.api.base}${endpoints.api.positions}/fetch`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({
-                days: 7
-              })
-            });
-
-            if (response.ok) {
-              const result = await response.json();
-              console.log('✅ Initial API fetch successful');
-              
-              // Set the fetched data immediately
-              if (result.data) {
-                setActivePositions(result.data.active_positions || []);
-                setClosedPositions(result.data.closed_positions || []);
-                console.log(`📊 Loaded ${result.data.active_positions?.length || 0} active positions`);
-                console.log(`📄 Loaded ${result.data.closed_positions?.length || 0} closed positions`);
-                console.log('📊 DEBUG: Initial active positions:', result.data.active_positions);
-              }
-            } else {
-              console.error('❌ Initial API fetch failed:', response.status);
-            }
-          } catch (err) {
-            console.error('❌ Error in initial API fetch:', err);
-          }
+  // Followers hand frames to the leader tab, which owns the only socket
+  const sendFrame = useCallback((frame: Record<string, unknown>) => {
+    const { tabRole } = store.getState();
+    if (tabRole === 'follower') {
+      coordinatorRef.current?.post({ kind: 'send', frame });
+      return;
+    }
+
+    const socket = ws.current;
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  }, [store]);
+
+  const applySnapshot = useCallback((snapshot: ArbitrageData, seq: number | null) => {
+    seqRef.current = seq;
+    store.setState(state => ({
+      data: snapshot,
+      pairsBySymbol: indexPairs(snapshot.pairs),
+      isLoading: false, // Data received, no longer loading
+      lastDataAt: Date.now(),
+      isStale: false,
+      ...markLive(state, 'data')
+    }));
+    armStaleTimer();
+  }, [store, armStaleTimer]);
+
+  // Ask for a fresh snapshot; repeated gaps within the timeout reuse the pending request
+  const requestResync = useCallback(() => {
+    // Follower tabs see the leader's deltas even while nothing here watches quotes,
+    // and gaps in a replayed session are part of the recording, not something the backend can fix
+    if (!topics.has('arbitrage_data') || store.getState().replay) return;
+
+    const now = Date.now();
+    if (resyncRequestedAtRef.current && now - resyncRequestedAtRef.current < RESYNC_TIMEOUT_MS) return;
+
+    console.warn('🔁 Shared: Requesting full arbitrage snapshot, last seq', seqRef.current);
+    resyncRequestedAtRef.current = now;
+    sendFrame({ type: 'resync_arbitrage_data', last_seq: seqRef.current });
+  }, [store, topics, sendFrame]);
+
+  const handleMessage = useCallback((message: ServerMessage) => {
+    switch (message.type) {
+      case 'arbitrage_data':
+        console.log('📈 Shared: Received arbitrage data with', message.data.pairs.length, 'pairs');
+        resyncRequestedAtRef.current = null;
+        applySnapshot(message.data, message.seq ?? null);
+        break;
+      case 'arbitrage_delta': {
+        const result = applyArbitrageDelta(store.getState().data, seqRef.current, message);
+        if (result.status === 'applied') {
+          applySnapshot(result.data, result.seq);
+        } else if (result.status === 'gap') {
+          console.warn(`⚠️ Shared: Arbitrage delta gap, expected seq ${result.expected ?? 'snapshot'}, got ${result.received}`);
+          requestResync();
         }
-        
-        // Send subscription requests after connection is established
-        if (ws.current && ws.current.readyState === WebSocket.OPEN) {
-          // Subscribe to arbitrage data
-          ws.current.send(JSON.stringify({
-            type: 'subscribe_arbitrage_data'
-          }));
-          
-          // Request active positions (for real-time updates)
-          ws.current.send(JSON.stringify({
-            type: 'get_active_positions'
-          }));
-          
-          // Request closed positions (for real-time updates)
-          ws.current.send(JSON.stringify({
-            type: 'get_closed_positions',
-            days: 7
-            // Remove limit to get ALL trades from last 7 days
-          }));
-          
-          // Request account balances
-          ws.current.send(JSON.stringify({
-            type: 'get_account_balances'
-          }));
-          
-          console.log('📡 Shared: Sent subscription requests for real-time updates');
+        break;
+      }
+      case 'active_positions':
+        console.log('📊 Shared: Received active positions with', message.data.active_positions.length, 'positions');
+        store.setState(state => ({
+          activePositions: message.data.active_positions,
+          activePositionsReceivedAt: Date.now(),
+          ...markLive(state, 'activePositions')
+        }));
+        break;
+      case 'closed_positions':
+        console.log('📄 Shared: Received closed positions with', message.data.closed_positions.length, 'positions');
+        store.setState({ closedPositions: message.data.closed_positions });
+        break;
+      case 'account_balances':
+        console.log('💰 Shared: Received account balances');
+        store.setState(state => ({ balances: message.data.balances, ...markLive(state, 'balances') }));
+        break;
+      case 'exchange_status': {
+        const { data } = message;
+        // Reports repeat every few seconds; only log an error when it first shows up
+        if (data.error && data.error !== store.getState().exchangeStatus[data.exchange]?.error) {
+          console.warn(`⚠️ Shared: ${data.exchange} reported error:`, data.error);
         }
-      };
+        store.setState(state => ({ exchangeStatus: { ...state.exchangeStatus, [data.exchange]: data } }));
+        break;
+      }
+      case 'execution_updates':
+        console.log('🧾 Shared: Received', message.data.updates.length, 'execution updates');
+        store.setState(state => ({ executionUpdates: mergeExecutionUpdates(state.executionUpdates, message.data.updates) }));
+        break;
+      case 'connection':
+        console.log('🤝 Shared connection established:', message.message || 'Ready');
+        break;
+      case 'error':
+        console.error('❌ Shared: WebSocket error:', message.message);
+        store.setState({ error: message.message });
+        break;
+      case 'pong':
+        // Liveness is tracked for every frame in onmessage
+        break;
+    }
+  }, [store, applySnapshot, requestResync]);
+
+  const rejectFrame = useCallback((reason: string) => {
+    console.warn('⚠️ Shared: Rejected WebSocket frame:', reason);
+    store.setState(state => ({
+      protocolErrorCount: state.protocolErrorCount + 1,
+      lastProtocolError: reason
+    }));
+  }, [store]);
+
+  // Raw socket text or an already decoded object, e.g. from the initial REST fetch
+  const ingest = useCallback((payload: unknown) => {
+    // A malformed frame is dropped on its own; state from earlier frames stays intact
+    const result = typeof payload === 'string' ? parseServerMessage(payload) : validateServerMessage(payload);
+    if (!result.ok) {
+      rejectFrame(result.type ? `${result.type}: ${result.error}` : result.error);
+      return;
+    }
+    handleMessage(result.message);
+  }, [handleMessage, rejectFrame]);
+
+  // Entry point for live frames: recorded if a recording runs, set aside while a replay owns the state
+  const receive = useCallback((payload: unknown) => {
+    const recorder = recorderRef.current;
+    if (recorder) {
+      recorder.record(payload);
+      store.setState({ recordedFrameCount: recorder.frameCount() });
+    }
+    if (store.getState().replay) return;
+    ingest(payload);
+  }, [store, ingest]);
+
+  // Leader only: apply a frame locally and fan it out to follower tabs
+  const deliver = useCallback((payload: unknown) => {
+    coordinatorRef.current?.post({ kind: 'frame', payload });
+    receive(payload);
+  }, [receive]);
+
+  const stopHeartbeat = useCallback(() => {
+    if (heartbeatIntervalRef.current) {
+      clearInterval(heartbeatIntervalRef.current);
+      heartbeatIntervalRef.current = null;
+    }
+    if (pongTimeoutRef.current) {
+      clearTimeout(pongTimeoutRef.current);
+      pongTimeoutRef.current = null;
+    }
+  }, []);
+
+  const clearReconnectTimer = useCallback(() => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+  }, []);
+
+  // Holds the latest connect so scheduled reconnects and heartbeat drops don't close over a stale one
+  const connectRef = useRef<() => void>(() => {});
+
+  const scheduleReconnect = useCallback(() => {
+    if (!shouldReconnect.current || reconnectTimeoutRef.current) return;
+
+    const attempt = reconnectAttemptRef.current;
+    const delay = getReconnectDelay(attempt, websocketConfig.reconnect);
+    reconnectAttemptRef.current = attempt + 1;
+    store.setState({ reconnectAttempt: attempt + 1 });
+
+    console.log(`🔄 Shared: Reconnecting in ${(delay / 1000).toFixed(1)}s (attempt ${attempt + 1})`);
+    reconnectTimeoutRef.current = setTimeout(() => {
+      reconnectTimeoutRef.current = null;
+      connectRef.current();
+    }, delay);
+  }, [store]);
+
+  // Abandon a socket without waiting for the close handshake, which never completes on a dead link
+  const dropSocket = useCallback((socket: WebSocket, reason: string) => {
+    if (ws.current !== socket) return;
+
+    console.warn('💔 Shared: Dropping WebSocket connection:', reason);
+    ws.current = null;
+    seqRef.current = null;
+    stopHeartbeat();
+    socket.onopen = null;
+    socket.onmessage = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.close(4000, reason);
+    store.setState({ isConnected: false });
+    scheduleReconnect();
+  }, [store, stopHeartbeat, scheduleReconnect]);
+
+  const startHeartbeat = useCallback((socket: WebSocket) => {
+    stopHeartbeat();
+    heartbeatIntervalRef.current = setInterval(() => {
+      if (socket.readyState !== WebSocket.OPEN || pongTimeoutRef.current) return;
+
+      socket.send(JSON.stringify({ type: 'ping', timestamp: new Date().toISOString() }));
+      pongTimeoutRef.current = setTimeout(() => {
+        pongTimeoutRef.current = null;
+        dropSocket(socket, 'Heartbeat timeout');
+      }, websocketConfig.heartbeat.timeoutMs);
+    }, websocketConfig.heartbeat.intervalMs);
+  }, [stopHeartbeat, dropSocket]);
+
+  const connect = useCallback(() => {
+    if (!isClient || ws.current || store.getState().tabRole !== 'leader') return;
+
+    clearReconnectTimer();
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(endpoints.ws.base);
+    } catch (err) {
+      console.error('❌ Shared: Failed to create WebSocket:', err);
+      store.setState({ error: 'Failed to create WebSocket connection' });
+      scheduleReconnect();
+      return;
+    }
+    ws.current = socket;
+
+    socket.onopen = async () => {
+      console.log('✅ Shared: WebSocket connection established');
+      reconnectAttemptRef.current = 0;
+      store.setState({ isConnected: true, error: null, reconnectAttempt: 0 });
+      startHeartbeat(socket);
+      if (topics.has('arbitrage_data')) {
+        armStaleTimer();
+      }
+
+      // Make single initial API fetch if not already done
+      if (!hasInitialFetched.current) {
+        console.log('🔄 Making initial API fetch...');
+        hasInitialFetched.current = true;
 
-      ws.current.onmessage = (event) => {
         try {
-          const message = JSON.parse(event.data);
-          
-          if (message.type === 'arbitrage_data') {
-            console.log('📈 Shared: Received arbitrage data with', message.data.pairs?.length, 'pairs');
-            setData(message.data);
-            setIsLoading(false); // Data received, no longer loading
-          } else if (message.type === 'active_positions') {
-            console.log('📊 Shared: Received active positions with', message.data.active_positions?.length, 'positions');
-            console.log('📊 DEBUG: Active positions data:', message.data);
-            setActivePositions(message.data.active_positions || []);
-          } else if (message.type === 'closed_positions') {
-            console.log('📄 Shared: Received closed positions with', message.data.closed_positions?.length, 'positions');
-            setClosedPositions(message.data.closed_positions || []);
-          } else if (message.type === 'account_balances') {
-            console.log('💰 Shared: Received account balances');
-            console.log('💰 DEBUG: Account balances data:', message.data);
-            setBalances(message.data.balances || null);
-          } else if (message.type === 'connection') {
-            console.log('🤝 Shared connection established:', message.message || 'Ready');
-          } else if (message.type === 'error') {
-            console.error('❌ Shared: WebSocket error:', message.message);
-            setError(message.message);
+          const response = await fetch(`${endpoints.api.base}${endpoints.api.positions}/fetch`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              days: 7
+            })
+          });
+
+          if (response.ok) {
+            const result = await response.json();
+            console.log('✅ Initial API fetch successful');
+
+            // Run the fetched data through the same validation as socket frames, and share it with other tabs
+            if (result.data) {
+              deliver({
+                type: 'active_positions',
+                data: { active_positions: result.data.active_positions || [] }
+              });
+              deliver({
+                type: 'closed_positions',
+                data: { closed_positions: result.data.closed_positions || [] }
+              });
+            }
+          } else {
+            console.error('❌ Initial API fetch failed:', response.status);
           }
         } catch (err) {
-          console.error('❌ Shared: Error parsing WebSocket message:', err);
-          setError('Failed to parse WebSocket message');
+          console.error('❌ Error in initial API fetch:', err);
         }
-      };
-
-      ws.current.onclose = (event) => {
-        console.log('🔌 Shared: WebSocket connection closed', event.code, event.reason);
-        setIsConnected(false);
-        
-        if (!isReconnecting.current && event.code !== 1000) {
-          isReconnecting.current = true;
-          reconnectTimeoutRef.current = setTimeout(() => {
-            console.log('🔄 Shared: Attempting to reconnect...');
-            connect();
-          }, 3000);
+      }
+
+      // Replay whatever components are subscribed to; a fresh socket has no subscriptions server-side
+      if (socket.readyState === WebSocket.OPEN) {
+        const subscriptions = topics.active();
+        subscriptions.forEach(({ topic, params }) => {
+          socket.send(JSON.stringify(subscribeFrame(topic, params)));
+        });
+        console.log(`📡 Shared: Subscribed to ${subscriptions.map(s => s.topic).join(', ') || 'no topics'}`);
+      }
+    };
+
+    socket.onmessage = (event) => {
+      // Any frame proves the link is alive, not just pong
+      if (pongTimeoutRef.current) {
+        clearTimeout(pongTimeoutRef.current);
+        pongTimeoutRef.current = null;
+      }
+
+      deliver(event.data);
+    };
+
+    socket.onclose = (event) => {
+      if (ws.current !== socket) return;
+
+      console.log('🔌 Shared: WebSocket connection closed', event.code, event.reason);
+      ws.current = null;
+      seqRef.current = null;
+      stopHeartbeat();
+      store.setState({ isConnected: false });
+
+      if (event.code !== 1000) {
+        scheduleReconnect();
+      }
+    };
+
+    socket.onerror = (error) => {
+      console.error('❌ Shared: WebSocket error:', error);
+      store.setState({ error: 'WebSocket connection failed' });
+    };
+  }, [isClient, store, topics, deliver, armStaleTimer, startHeartbeat, stopHeartbeat, scheduleReconnect, clearReconnectTimer]);
+
+  // Forward subscription changes from mounting/unmounting components to the live socket
+  useEffect(() => {
+    return topics.onChange((change) => {
+      // A follower's topics live on the leader's registry; it just re-announces its full set
+      if (store.getState().tabRole === 'follower') {
+        coordinatorRef.current?.post({ kind: 'topics', topics: topics.active() });
+      } else if (change.kind === 'subscribe') {
+        console.log('📡 Shared: Subscribing to', change.topic, change.params);
+        sendFrame(subscribeFrame(change.topic, change.params));
+      } else {
+        console.log('📴 Shared: Unsubscribing from', change.topic);
+        sendFrame(unsubscribeFrame(change.topic));
+      }
+
+      if (change.topic !== 'arbitrage_data') return;
+
+      if (change.kind === 'subscribe') {
+        if (store.getState().isConnected) {
+          armStaleTimer();
+        }
+      } else {
+        // Nobody is watching quotes, so their absence isn't a stale feed; the next subscribe starts from a snapshot
+        if (staleTimeoutRef.current) {
+          clearTimeout(staleTimeoutRef.current);
+          staleTimeoutRef.current = null;
         }
-      };
+        store.setState({ isStale: false });
+        seqRef.current = null;
+        resyncRequestedAtRef.current = null;
+      }
+    });
+  }, [store, topics, sendFrame, armStaleTimer]);
 
-      ws.current.onerror = (error) => {
-        console.error('❌ Shared: WebSocket error:', error);
-        setError('WebSocket connection failed');
-        setIsConnected(false);
-      };
+  const subscribeTopic = useCallback(<T extends Topic>(topic: T, params: TopicParamsMap[T]) => {
+    return topics.add(topic, params);
+  }, [topics]);
 
-    } catch (err) {
-      console.error('❌ Shared: Failed to create WebSocket:', err);
-      setError('Failed to create WebSocket connection');
-    }
-  }, [isClient]);
+  useEffect(() => {
+    connectRef.current = connect;
+  }, [connect]);
 
+  // Manual reconnect skips the backoff and starts counting attempts from scratch
   const reconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
+    if (store.getState().tabRole === 'follower') {
+      coordinatorRef.current?.post({ kind: 'reconnect' });
+      return;
     }
-    
-    if (ws.current) {
-      ws.current.close();
+
+    clearReconnectTimer();
+    reconnectAttemptRef.current = 0;
+    store.setState({ reconnectAttempt: 0 });
+
+    const socket = ws.current;
+    if (socket) {
+      ws.current = null;
+      stopHeartbeat();
+      socket.close(1000, 'Manual reconnect');
+      store.setState({ isConnected: false });
     }
-    
-    isReconnecting.current = false;
+
     connect();
-  }, [connect]);
+  }, [store, connect, clearReconnectTimer, stopHeartbeat]);
 
+  // Switching profiles or saving new endpoints takes effect right away: data from the previous backend is
+  // dropped and the leader rebuilds its connection. Every tab hears about the change, including ones that didn't make it.
   useEffect(() => {
-    if (isClient) {
-      connect();
+    if (!isClient) return;
+
+    const connectionKey = () => `${getConnectionSettings().id} ${endpoints.ws.base} ${endpoints.api.base}`;
+    let current = connectionKey();
+    return subscribeConnectionSettings(() => {
+      const next = connectionKey();
+      if (next === current) return;
+      current = next;
+
+      console.log(`🔀 Shared: Connection profile "${getConnectionSettings().name}" applied, switching to`, endpoints.ws.base);
+      seqRef.current = null;
+      resyncRequestedAtRef.current = null;
+      if (!store.getState().replay) {
+        store.setState({ ...clearedFeedState, isLoading: true, error: null });
+      }
+
+      if (store.getState().tabRole === 'leader') {
+        // The initial REST fetch belongs to the backend we are about to connect to
+        hasInitialFetched.current = false;
+        reconnect();
+      }
+    });
+  }, [isClient, store, reconnect]);
+
+  const startRecording = useCallback(() => {
+    console.log('⏺️ Shared: Recording inbound frames');
+    recorderRef.current = createSessionRecorder();
+    store.setState({ recordedFrameCount: 0 });
+  }, [store]);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    store.setState({ recordedFrameCount: null });
+    if (!recorder) return null;
+
+    console.log(`⏹️ Shared: Recorded ${recorder.frameCount()} frames`);
+    return recorder.finish();
+  }, [store]);
+
+  const startReplay = useCallback((recording: SessionRecording, name: string, speed: ReplaySpeed) => {
+    replayerRef.current?.stop();
+    console.log(`▶️ Shared: Replaying ${recording.frames.length} frames from ${name} at ${speed === 'max' ? 'max' : `${speed}x`} speed`);
+
+    // The replay starts from an empty dashboard so its frames alone decide what is shown
+    seqRef.current = null;
+    resyncRequestedAtRef.current = null;
+    store.setState({
+      ...clearedFeedState,
+      replay: { name, speed, position: 0, total: recording.frames.length, finished: false }
+    });
+
+    replayerRef.current = createReplayer(recording, {
+      speed,
+      onFrame: ingest,
+      onProgress: (position) => {
+        store.setState(state => (state.replay ? { replay: { ...state.replay, position } } : {}));
+      },
+      onDone: () => {
+        console.log('⏏️ Shared: Replay finished');
+        store.setState(state => (state.replay ? { replay: { ...state.replay, finished: true } } : {}));
+      }
+    });
+  }, [store, ingest]);
+
+  const setReplaySpeed = useCallback((speed: ReplaySpeed) => {
+    replayerRef.current?.setSpeed(speed);
+    store.setState(state => (state.replay ? { replay: { ...state.replay, speed } } : {}));
+  }, [store]);
+
+  const stopReplay = useCallback(() => {
+    const replayer = replayerRef.current;
+    replayerRef.current = null;
+    replayer?.stop();
+    if (!store.getState().replay) return;
+
+    console.log('⏹️ Shared: Leaving replay mode');
+    seqRef.current = null;
+    resyncRequestedAtRef.current = null;
+    store.setState({ ...clearedFeedState, replay: null, isLoading: true });
+
+    // Subscribing again makes the backend send fresh snapshots of everything we watch
+    if (store.getState().tabRole === 'follower') {
+      coordinatorRef.current?.post({ kind: 'hello' });
+    }
+    topics.active().forEach(({ topic, params }) => sendFrame(subscribeFrame(topic, params)));
+  }, [store, topics, sendFrame]);
+
+  // Leader only: drop a follower's subscriptions once it says goodbye or goes silent
+  const releaseRemoteTab = useCallback((tabId: string) => {
+    const tab = remoteTabsRef.current.get(tabId);
+    if (!tab) return;
+    remoteTabsRef.current.delete(tabId);
+    tab.releases.forEach(release => release());
+  }, []);
+
+  // Follower only: (re)introduce this tab to whichever tab currently leads
+  const announceToLeader = useCallback(() => {
+    coordinatorRef.current?.post({ kind: 'hello' });
+    coordinatorRef.current?.post({ kind: 'topics', topics: topics.active() });
+  }, [topics]);
+
+  const applyLeaderStatus = useCallback((status: SharedConnectionStatus) => {
+    const wasConnected = store.getState().isConnected;
+    store.setState(status);
+    if (!status.isConnected) {
+      // The leader's next connection starts a new sequence
+      seqRef.current = null;
+    } else if (!wasConnected && topics.has('arbitrage_data')) {
+      armStaleTimer();
+    }
+  }, [store, topics, armStaleTimer]);
+
+  const handleTabMessage = useCallback((message: TabMessage, from: string) => {
+    const { tabRole } = store.getState();
+
+    if (tabRole === 'leader') {
+      const remote = remoteTabsRef.current.get(from);
+      if (remote) {
+        remote.lastSeen = Date.now();
+      }
+
+      switch (message.kind) {
+        case 'hello': {
+          const state = store.getState();
+          // Replayed data isn't live; the follower picks up live frames again once the replay ends
+          if (state.replay) break;
+          coordinatorRef.current?.post({
+            kind: 'snapshot',
+            snapshot: {
+              data: state.data,
+              seq: seqRef.current,
+              activePositions: state.activePositions,
+              activePositionsReceivedAt: state.activePositionsReceivedAt,
+              closedPositions: state.closedPositions,
+              balances: state.balances,
+              exchangeStatus: state.exchangeStatus,
+              executionUpdates: state.executionUpdates,
+              lastDataAt: state.lastDataAt,
+              cachedAt: state.cachedAt
+            },
+            status: selectConnectionStatus(state)
+          }, from);
+          break;
+        }
+        case 'topics': {
+          // Register the new set before releasing the old one so unchanged topics aren't resubscribed
+          const releases = message.topics.map(({ topic, params }) => topics.add(topic, params));
+          remote?.releases.forEach(release => release());
+          remoteTabsRef.current.set(from, { releases, lastSeen: Date.now() });
+          break;
+        }
+        case 'send':
+          sendFrame(message.frame);
+          break;
+        case 'reconnect':
+          reconnect();
+          break;
+        case 'bye':
+          releaseRemoteTab(from);
+          break;
+      }
+      return;
     }
 
+    if (tabRole !== 'follower') return;
+
+    switch (message.kind) {
+      case 'leader':
+        // A new tab took over the socket and knows nothing about our subscriptions yet
+        console.log('👑 Shared: Another tab took over the WebSocket connection');
+        announceToLeader();
+        break;
+      case 'frame':
+        receive(message.payload);
+        break;
+      case 'status':
+        applyLeaderStatus(message.status);
+        break;
+      case 'snapshot': {
+        const { snapshot } = message;
+        if (snapshot.data) {
+          seqRef.current = snapshot.seq;
+          store.setState({
+            data: snapshot.data,
+            pairsBySymbol: indexPairs(snapshot.data.pairs),
+            isLoading: false,
+            lastDataAt: snapshot.lastDataAt,
+            isStale: false
+          });
+        }
+        store.setState({
+          activePositions: snapshot.activePositions,
+          activePositionsReceivedAt: snapshot.activePositionsReceivedAt,
+          closedPositions: snapshot.closedPositions,
+          balances: snapshot.balances,
+          exchangeStatus: snapshot.exchangeStatus,
+          executionUpdates: snapshot.executionUpdates,
+          cachedAt: snapshot.cachedAt
+        });
+        applyLeaderStatus(message.status);
+        if (snapshot.data && message.status.isConnected && topics.has('arbitrage_data')) {
+          armStaleTimer();
+        }
+        break;
+      }
+    }
+  }, [store, topics, sendFrame, reconnect, releaseRemoteTab, announceToLeader, applyLeaderStatus, receive, armStaleTimer]);
+
+  const handleTabMessageRef = useRef(handleTabMessage);
+  useEffect(() => {
+    handleTabMessageRef.current = handleTabMessage;
+  }, [handleTabMessage]);
+
+  // Keep the last known snapshot in IndexedDB for the next page load
+  useEffect(() => {
+    if (!isClient) return;
+    return persistSnapshot(store, websocketConfig.cache.saveIntervalMs, activeProfileId);
+  }, [isClient, store, activeProfileId]);
+
+  // Sample live pairs into the rolling history behind the funding table's charts
+  useEffect(() => {
+    if (!isClient) return;
+    return recordPairHistory(store, activeProfileId);
+  }, [isClient, store, activeProfileId]);
+
+  // Join the per-browser leader election; only the winning tab opens a socket
+  useEffect(() => {
+    if (!isClient) return;
+
+    shouldReconnect.current = true;
+    const remoteTabs = remoteTabsRef.current;
+    let announceInterval: NodeJS.Timeout | null = null;
+    let pruneInterval: NodeJS.Timeout | null = null;
+    let stopStatusBroadcast: (() => void) | null = null;
+
+    const lead = () => {
+      console.log('👑 Shared: This tab owns the WebSocket connection');
+      if (announceInterval) {
+        clearInterval(announceInterval);
+        announceInterval = null;
+      }
+      coordinatorRef.current?.post({ kind: 'leader' });
+
+      let lastStatus = selectConnectionStatus(store.getState());
+      stopStatusBroadcast = store.subscribe(() => {
+        const status = selectConnectionStatus(store.getState());
+        if (shallowEqual(status, lastStatus)) return;
+        lastStatus = status;
+        coordinatorRef.current?.post({ kind: 'status', status });
+      });
+
+      pruneInterval = setInterval(() => {
+        const cutoff = Date.now() - websocketConfig.tabs.expireAfterMs;
+        remoteTabs.forEach((tab, tabId) => {
+          if (tab.lastSeen < cutoff) {
+            console.log('🧹 Shared: Dropping subscriptions of unresponsive tab', tabId);
+            releaseRemoteTab(tabId);
+          }
+        });
+      }, websocketConfig.tabs.announceIntervalMs);
+
+      connectRef.current();
+    };
+
+    const follow = () => {
+      console.log('🔗 Shared: Using the WebSocket connection of another tab');
+      // The leader already made the initial positions fetch for this browser
+      hasInitialFetched.current = true;
+      announceToLeader();
+      announceInterval = setInterval(() => {
+        coordinatorRef.current?.post({ kind: 'topics', topics: topics.active() });
+      }, websocketConfig.tabs.announceIntervalMs);
+    };
+
+    // Show the cached snapshot first, then start connecting; IndexedDB answers well before any socket would
+    let cancelled = false;
+    loadCachedSnapshot(getConnectionSettings().id)
+      .then((cached) => {
+        if (cancelled) return;
+        const restored = restoreCachedSnapshot(store.getState(), cached);
+        if (restored.cachedAt) {
+          console.log('📦 Shared: Restored cached snapshot for', Object.keys(restored.cachedAt).join(', '));
+        }
+        store.setState(restored);
+      })
+      .catch((err) => {
+        console.warn('⚠️ Shared: Could not read the snapshot cache:', err);
+      })
+      .finally(() => {
+        if (cancelled) return;
+        coordinatorRef.current = createTabCoordinator({
+          onRoleChange: (role) => {
+            store.setState({ tabRole: role });
+            if (role === 'leader') {
+              lead();
+            } else if (role === 'follower') {
+              follow();
+            }
+          },
+          onMessage: (message, from) => handleTabMessageRef.current(message, from)
+        });
+      });
+
     return () => {
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
+      cancelled = true;
+      shouldReconnect.current = false;
+      if (announceInterval) clearInterval(announceInterval);
+      if (pruneInterval) clearInterval(pruneInterval);
+      stopStatusBroadcast?.();
+
+      const coordinator = coordinatorRef.current;
+      if (coordinator?.getRole() === 'follower') {
+        coordinator.post({ kind: 'bye' });
+      }
+      Array.from(remoteTabs.keys()).forEach(releaseRemoteTab);
+      // Closing releases the leader lock, so a waiting tab takes over the socket
+      coordinator?.close();
+      coordinatorRef.current = null;
+
+      replayerRef.current?.stop();
+      replayerRef.current = null;
+      clearReconnectTimer();
+      stopHeartbeat();
+      if (staleTimeoutRef.current) {
+        clearTimeout(staleTimeoutRef.current);
       }
-      
-      if (ws.current) {
-        isReconnecting.current = true;
-        ws.current.close(1000, 'Component unmounting');
+
+      const socket = ws.current;
+      if (socket) {
+        ws.current = null;
+        socket.close(1000, 'Component unmounting');
       }
+      store.setState({ tabRole: 'pending', isConnected: false });
     };
-  }, [isClient, connect]);
-
-  const value: WebSocketContextType = {
-    data,
-    activePositions,
-    closedPositions,
-    balances,
-    isConnected,
-    isLoading,
-    error,
-    reconnect
-  };
+  }, [isClient, store, topics, releaseRemoteTab, announceToLeader, clearReconnectTimer, stopHeartbeat]);
+
+  const value = useMemo<WebSocketContextValue>(
+    () => ({ store, reconnect, subscribeTopic, startRecording, stopRecording, startReplay, setReplaySpeed, stopReplay }),
+    [store, reconnect, subscribeTopic, startRecording, stopRecording, startReplay, setReplaySpeed, stopReplay]
+  );
 
   return React.createElement(WebSocketContext.Provider, { value }, children);
 }
 
-export function useWebSocketContext(): WebSocketContextType {
+export function useWebSocketContext(): WebSocketContextValue {
   const context = useContext(WebSocketContext);
   if (context === undefined) {
     throw new Error('useWebSocketContext must be used within a WebSocketProvider');
@@ -309,7 +895,91 @@ export function useWebSocket(): WebSocketContextType {
   return useSharedWebSocket();
 }
 
-// Simplified shared WebSocket hook
+/**
+ * Subscribes to a slice of the shared socket state. The component only re-renders when
+ * `isEqual` reports the selected value changed, so pick the narrowest slice you need.
+ */
+export function useWebSocketSelector<T>(
+  selector: (state: WebSocketState) => T,
+  isEqual: (a: T, b: T) => boolean = Object.is
+): T {
+  const { store } = useWebSocketContext();
+  const cache = useRef<{ value: T } | null>(null);
+
+  const getSnapshot = () => {
+    const next = selector(store.getState());
+    if (cache.current && isEqual(cache.current.value, next)) {
+      return cache.current.value;
+    }
+    cache.current = { value: next };
+    return next;
+  };
+
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+const NO_PAIRS: ArbitragePair[] = [];
+
+export const useArbitrageData = () => useWebSocketSelector(state => state.data);
+
+export const useArbitragePairs = () => useWebSocketSelector(state => state.data?.pairs ?? NO_PAIRS);
+
+export const usePair = (symbol: string) => useWebSocketSelector(state => state.pairsBySymbol.get(symbol) ?? null);
+
+export const useBalances = () => useWebSocketSelector(state => state.balances);
+
+export const useActivePositions = () => useWebSocketSelector(state => state.activePositions);
+
+export const useClosedPositions = () => useWebSocketSelector(state => state.closedPositions);
+
+export const useExchangeStatus = () => useWebSocketSelector(state => state.exchangeStatus);
+
+export const useExecutionUpdates = () => useWebSocketSelector(state => state.executionUpdates);
+
+// When the section is still showing the locally cached snapshot, the time it was saved; null once live data arrived
+export const useCachedAt = (section: CachedSection) => useWebSocketSelector(state => state.cachedAt[section] ?? null);
+
+export const useConnectionStatus = () => useWebSocketSelector(state => ({
+  isConnected: state.isConnected,
+  isLoading: state.isLoading,
+  error: state.error,
+  isStale: state.isStale,
+  lastDataAt: state.lastDataAt,
+  reconnectAttempt: state.reconnectAttempt
+}), shallowEqual);
+
+export const useWebSocketActions = () => {
+  const { reconnect, subscribeTopic } = useWebSocketContext();
+  return { reconnect, subscribeTopic };
+};
+
+export const useReplayStatus = () => useWebSocketSelector(state => state.replay);
+
+export const useRecordedFrameCount = () => useWebSocketSelector(state => state.recordedFrameCount);
+
+export const useSessionControls = (): SessionControls => {
+  const { startRecording, stopRecording, startReplay, setReplaySpeed, stopReplay } = useWebSocketContext();
+  return { startRecording, stopRecording, startReplay, setReplaySpeed, stopReplay };
+};
+
+/**
+ * Keeps `topic` subscribed on the shared socket while the calling component is mounted.
+ * Subscriptions are reference counted across components and replayed after reconnects.
+ */
+export function useTopic<T extends Topic>(topic: T, params?: TopicParamsMap[T]): void {
+  const { subscribeTopic } = useWebSocketContext();
+  // Serialized so callers can pass inline objects without resubscribing every render
+  const paramsKey = JSON.stringify(params ?? {});
+
+  useEffect(() => {
+    return subscribeTopic(topic, JSON.parse(paramsKey) as TopicParamsMap[T]);
+  }, [subscribeTopic, topic, paramsKey]);
+}
+
+// Whole-state hook kept for compatibility; re-renders on every update, so prefer the selector hooks above
 export const useSharedWebSocket = (): WebSocketContextType => {
-  return useWebSocketContext();
-}; 
\ No newline at end of file
+  const { store, reconnect, subscribeTopic } = useWebSocketContext();
+  const state = useSyncExternalStore(store.subscribe, store.getState, store.getState);
+
+  return useMemo(() => ({ ...state, reconnect, subscribeTopic }), [state, reconnect, subscribeTopic]);
+};
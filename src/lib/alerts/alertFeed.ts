@@ -0,0 +1,58 @@
+// In-app alert feed: timestamped entries that stay until dismissed. Kept in memory for this tab;
+// the newest entries are kept when it overflows.
+
+export type AlertKind = 'pair_added' | 'pair_removed' | 'threshold_crossed' | 'rule_fired';
+
+export interface AlertEntry {
+  id: string;
+  kind: AlertKind;
+  at: number;
+  // Pair or position the alert is about, e.g. "BTC/USDT"
+  pair: string | null;
+  title: string;
+  detail: string | null;
+  tone: 'positive' | 'negative' | 'neutral';
+}
+
+const MAX_ALERTS = 200;
+
+const NO_ALERTS: AlertEntry[] = [];
+
+let alerts: AlertEntry[] = NO_ALERTS;
+let nextId = 0;
+const listeners = new Set<() => void>();
+
+const setAlerts = (next: AlertEntry[]) => {
+  alerts = next;
+  listeners.forEach(listener => listener());
+};
+
+export function getAlerts(): AlertEntry[] {
+  return alerts;
+}
+
+export function getServerAlerts(): AlertEntry[] {
+  return NO_ALERTS;
+}
+
+export function subscribeAlerts(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Adds entries newest first
+export function pushAlerts(entries: Omit<AlertEntry, 'id'>[]): void {
+  if (entries.length === 0) return;
+  const added = entries.map(entry => ({ ...entry, id: `alert-${++nextId}` })).reverse();
+  setAlerts([...added, ...alerts].slice(0, MAX_ALERTS));
+}
+
+export function dismissAlert(id: string): void {
+  setAlerts(alerts.filter(alert => alert.id !== id));
+}
+
+export function clearAlerts(): void {
+  setAlerts(NO_ALERTS);
+}
@@ -0,0 +1,53 @@
+// Browser notifications and the alert chime. Both are best effort: a browser without the
+// Notification API, a denied permission or a blocked audio context just means no popup or sound.
+
+export type NotificationPermissionState = NotificationPermission | 'unsupported';
+
+export function notificationPermission(): NotificationPermissionState {
+  if (typeof window === 'undefined' || !('Notification' in window)) return 'unsupported';
+  return Notification.permission;
+}
+
+export async function requestNotificationPermission(): Promise<NotificationPermissionState> {
+  if (notificationPermission() === 'unsupported') return 'unsupported';
+  try {
+    return await Notification.requestPermission();
+  } catch (error) {
+    console.error('❌ Notifications: Permission request failed:', error);
+    return notificationPermission();
+  }
+}
+
+// `tag` replaces an earlier notification with the same tag instead of stacking another one
+export function showNotification(title: string, body: string, tag: string): void {
+  if (notificationPermission() !== 'granted') return;
+  try {
+    new Notification(title, { body, tag });
+  } catch (error) {
+    // Some mobile browsers only allow notifications from a service worker
+    console.error('❌ Notifications: Could not show notification:', error);
+  }
+}
+
+let audioContext: AudioContext | null = null;
+
+// Two short beeps, synthesized so there is no audio file to ship
+export function playAlertSound(): void {
+  if (typeof window === 'undefined' || typeof window.AudioContext === 'undefined') return;
+  try {
+    audioContext ??= new AudioContext();
+    const start = audioContext.currentTime;
+    [0, 0.2].forEach(offset => {
+      const oscillator = audioContext!.createOscillator();
+      const gain = audioContext!.createGain();
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.2, start + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + offset + 0.15);
+      oscillator.connect(gain).connect(audioContext!.destination);
+      oscillator.start(start + offset);
+      oscillator.stop(start + offset + 0.15);
+    });
+  } catch (error) {
+    console.error('❌ Notifications: Could not play alert sound:', error);
+  }
+}
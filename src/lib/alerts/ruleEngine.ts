@@ -0,0 +1,207 @@
+import type { AlertRule, Comparator, ConnectionSubject, RuleCondition } from '../settings/alertRules';
+import type { ArbitragePair, ExchangeName, ExchangeStatus, Position } from '../websocket/protocol';
+import { EXCHANGE_LABELS } from '../websocket/exchangeStatus';
+
+// Evaluates alert rules against the latest pairs, positions and connection states. Rules are
+// level-triggered: a rule fires for every pair, position or connection that currently matches,
+// and the cooldown keeps it from firing for the same one again too soon.
+
+export interface RuleField<T> {
+  label: string;
+  unit: string;
+  read: (subject: T) => number | null;
+}
+
+const mid = (quote: { bid: number; ask: number }) => (quote.bid > 0 && quote.ask > 0 ? (quote.bid + quote.ask) / 2 : null);
+
+const spreadPct = (quote: { bid: number; ask: number }) =>
+  quote.bid > 0 && quote.ask > 0 ? ((quote.ask - quote.bid) / quote.bid) * 100 : null;
+
+// Percentages use the units the funding table shows
+export const PAIR_FIELDS: Record<string, RuleField<ArbitragePair>> = {
+  funding_rate: { label: 'HL 8h funding rate', unit: '%', read: pair => pair.funding_rate * 100 },
+  annual_funding_rate: { label: 'Annual funding rate', unit: '%', read: pair => pair.annual_funding_rate },
+  bybit_spread: { label: 'Bybit spread', unit: '%', read: pair => (pair.bybit.available ? spreadPct(pair.bybit) : null) },
+  hyperliquid_spread: { label: 'HL spread', unit: '%', read: pair => spreadPct(pair.hyperliquid) },
+  basis: {
+    label: 'Basis (HL vs Bybit mid)',
+    unit: '%',
+    read: pair => {
+      const perp = mid(pair.hyperliquid);
+      const spot = pair.bybit.available ? mid(pair.bybit) : null;
+      return perp !== null && spot !== null ? ((perp - spot) / spot) * 100 : null;
+    }
+  },
+  hyperliquid_volume: { label: 'HL 24h volume', unit: 'USD', read: pair => pair.hyperliquid.volume },
+  bybit_volume: { label: 'Bybit 24h volume', unit: 'USD', read: pair => (pair.bybit.available ? pair.bybit.volume : null) }
+};
+
+export const POSITION_FIELDS: Record<string, RuleField<Position>> = {
+  liquidation_risk_pct: { label: 'Liquidation risk', unit: '%', read: position => position.hyperliquid.liquidation_risk_pct },
+  net_pnl: { label: 'Net PnL', unit: 'USDT', read: position => position.total.net_pnl },
+  unrealized_pnl: { label: 'Unrealized PnL', unit: 'USDT', read: position => position.total.unrealized_pnl },
+  funding_earned: { label: 'Funding earned', unit: 'USDT', read: position => position.total.funding_earned },
+  leverage: { label: 'HL leverage', unit: 'x', read: position => position.hyperliquid.leverage },
+  usdt_amount: { label: 'Position size', unit: 'USDT', read: position => position.usdt_amount }
+};
+
+export const CONNECTION_LABELS: Record<ConnectionSubject, string> = {
+  any: 'Any connection',
+  backend: 'Backend',
+  ...EXCHANGE_LABELS
+};
+
+const fieldsFor = (rule: AlertRule): Record<string, RuleField<never>> =>
+  rule.scope === 'position' ? POSITION_FIELDS : PAIR_FIELDS;
+
+const compare = (actual: number, comparator: Comparator, expected: number) => {
+  switch (comparator) {
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+  }
+};
+
+const formatValue = (value: number, unit: string) => {
+  if (unit === '%') return `${value.toFixed(Math.abs(value) < 1 ? 4 : 2)}%`;
+  if (unit === 'x') return `${value}x`;
+  return `${value.toLocaleString('en-US', { maximumFractionDigits: 2 })} ${unit}`;
+};
+
+export function describeCondition(rule: AlertRule, condition: RuleCondition): string {
+  const field = fieldsFor(rule)[condition.field];
+  if (!field) return `${condition.field} (unknown field)`;
+  return `${field.label} ${condition.comparator} ${formatValue(condition.value, field.unit)}`;
+}
+
+// One-line summary for the rules list, e.g. "Annual funding rate > 40.00% and Bybit spread < 0.0500%"
+export function describeRule(rule: AlertRule): string {
+  if (rule.scope === 'connection') {
+    const { subject, disconnectedForSec } = rule.connection;
+    return `${CONNECTION_LABELS[subject]} disconnected for ${disconnectedForSec}s`;
+  }
+  if (rule.conditions.length === 0) return 'No conditions yet';
+  const conditions = rule.conditions.map(condition => describeCondition(rule, condition)).join(' and ');
+  return `${conditions} on any ${rule.scope}`;
+}
+
+// Readings for the conditions that matched, or null when any condition doesn't hold
+const matchConditions = <T>(rule: AlertRule, subject: T): string[] | null => {
+  if (rule.conditions.length === 0) return null;
+  const fields = fieldsFor(rule) as Record<string, RuleField<T>>;
+  const readings: string[] = [];
+  for (const condition of rule.conditions) {
+    const field = fields[condition.field];
+    const actual = field?.read(subject) ?? null;
+    if (actual === null || !Number.isFinite(actual) || !compare(actual, condition.comparator, condition.value)) return null;
+    readings.push(`${field.label} ${formatValue(actual, field.unit)}`);
+  }
+  return readings;
+};
+
+export interface RuleContext {
+  pairs: ArbitragePair[];
+  positions: Position[];
+  backendConnected: boolean;
+  exchangeStatus: Partial<Record<ExchangeName, ExchangeStatus>>;
+}
+
+export interface RuleFiring {
+  rule: AlertRule;
+  // Pair, position symbol or connection the rule fired for
+  subject: string;
+  title: string;
+  detail: string;
+}
+
+export interface RuleEngine {
+  evaluate(rules: AlertRule[], snoozes: Record<string, number>, context: RuleContext, now: number): RuleFiring[];
+  reset(): void;
+}
+
+const VENUES: ExchangeName[] = ['hyperliquid', 'bybit'];
+
+/**
+ * Creates an engine that remembers when each rule last fired for each subject and how long each
+ * connection has been down. A venue counts as disconnected while its REST or WebSocket link is
+ * down; while the backend itself is down the venues' state is unknown and left as it was.
+ */
+export function createRuleEngine(): RuleEngine {
+  const lastFired = new Map<string, number>();
+  const downSince = new Map<Exclude<ConnectionSubject, 'any'>, number>();
+
+  const trackConnections = (context: RuleContext, now: number) => {
+    const mark = (subject: Exclude<ConnectionSubject, 'any'>, down: boolean) => {
+      if (!down) {
+        downSince.delete(subject);
+      } else if (!downSince.has(subject)) {
+        downSince.set(subject, now);
+      }
+    };
+    mark('backend', !context.backendConnected);
+    if (!context.backendConnected) return;
+    VENUES.forEach(venue => {
+      const status = context.exchangeStatus[venue];
+      mark(venue, status !== undefined && (!status.rest.connected || !status.websocket.connected));
+    });
+  };
+
+  const matchesFor = (rule: AlertRule, context: RuleContext, now: number) => {
+    const matches: { subject: string; readings: string[] }[] = [];
+    if (rule.scope === 'pair') {
+      context.pairs.forEach(pair => {
+        const readings = matchConditions(rule, pair);
+        if (readings) matches.push({ subject: pair.pair, readings });
+      });
+    } else if (rule.scope === 'position') {
+      context.positions.forEach(position => {
+        const readings = matchConditions(rule, position);
+        if (readings) matches.push({ subject: position.symbol, readings });
+      });
+    } else {
+      const { subject, disconnectedForSec } = rule.connection;
+      const subjects = subject === 'any' ? (['backend', ...VENUES] as const) : [subject];
+      subjects.forEach(candidate => {
+        const since = downSince.get(candidate);
+        if (since !== undefined && now - since >= disconnectedForSec * 1000) {
+          matches.push({
+            subject: CONNECTION_LABELS[candidate],
+            readings: [`Disconnected for ${Math.round((now - since) / 1000)}s`]
+          });
+        }
+      });
+    }
+    return matches;
+  };
+
+  return {
+    evaluate(rules, snoozes, context, now) {
+      trackConnections(context, now);
+      const firings: RuleFiring[] = [];
+
+      rules.forEach(rule => {
+        if (!rule.enabled || (snoozes[rule.id] ?? 0) > now) return;
+        matchesFor(rule, context, now).forEach(({ subject, readings }) => {
+          const key = `${rule.id}:${subject}`;
+          const last = lastFired.get(key);
+          if (last !== undefined && now - last < rule.cooldownSec * 1000) return;
+          lastFired.set(key, now);
+          firings.push({
+            rule,
+            subject,
+            title: `${rule.name || 'Alert rule'}: ${subject}`,
+            detail: readings.join(' · ')
+          });
+        });
+      });
+
+      return firings;
+    },
+
+    reset() {
+      lastFired.clear();
+      downSince.clear();
+    }
+  };
+}
@@ -0,0 +1,72 @@
+import type { ArbitragePair } from '../websocket/protocol';
+import type { AlertEntry } from './alertFeed';
+
+// Changes between two consecutive arbitrage snapshots. Funding thresholds are in percent, the
+// unit the table shows, and a pair crosses one when the rate moves from one side of it to the other.
+
+export type PairChange =
+  | { kind: 'added'; pair: string; fundingRate: number }
+  | { kind: 'removed'; pair: string; fundingRate: number }
+  | {
+    kind: 'crossed';
+    pair: string;
+    thresholdPct: number;
+    direction: 'above' | 'below';
+    fundingRate: number;
+    previousRate: number;
+  };
+
+export const toPercent = (fundingRate: number) => fundingRate * 100;
+
+export function diffSnapshots(previous: ArbitragePair[], next: ArbitragePair[], thresholdsPct: number[]): PairChange[] {
+  const before = new Map(previous.map(pair => [pair.pair, pair]));
+  const after = new Map(next.map(pair => [pair.pair, pair]));
+  const changes: PairChange[] = [];
+
+  next.forEach(pair => {
+    const old = before.get(pair.pair);
+    if (!old) {
+      changes.push({ kind: 'added', pair: pair.pair, fundingRate: pair.funding_rate });
+      return;
+    }
+
+    const from = toPercent(old.funding_rate);
+    const to = toPercent(pair.funding_rate);
+    thresholdsPct.forEach(threshold => {
+      if (from < threshold && to >= threshold) {
+        changes.push({ kind: 'crossed', pair: pair.pair, thresholdPct: threshold, direction: 'above', fundingRate: pair.funding_rate, previousRate: old.funding_rate });
+      } else if (from >= threshold && to < threshold) {
+        changes.push({ kind: 'crossed', pair: pair.pair, thresholdPct: threshold, direction: 'below', fundingRate: pair.funding_rate, previousRate: old.funding_rate });
+      }
+    });
+  });
+
+  previous.forEach(pair => {
+    if (!after.has(pair.pair)) {
+      changes.push({ kind: 'removed', pair: pair.pair, fundingRate: pair.funding_rate });
+    }
+  });
+
+  return changes;
+}
+
+const formatRate = (fundingRate: number) => `${toPercent(fundingRate).toFixed(4)}%`;
+
+// Feed entry for a change, as shown in the alert feed
+export function alertForChange(change: PairChange, at: number): Omit<AlertEntry, 'id'> {
+  switch (change.kind) {
+    case 'added':
+      return { kind: 'pair_added', at, pair: change.pair, title: `${change.pair} listed`, detail: `Funding ${formatRate(change.fundingRate)}`, tone: 'positive' };
+    case 'removed':
+      return { kind: 'pair_removed', at, pair: change.pair, title: `${change.pair} dropped`, detail: `Last funding ${formatRate(change.fundingRate)}`, tone: 'negative' };
+    case 'crossed':
+      return {
+        kind: 'threshold_crossed',
+        at,
+        pair: change.pair,
+        title: `${change.pair} funding ${change.direction === 'above' ? 'rose above' : 'fell below'} ${change.thresholdPct}%`,
+        detail: `${formatRate(change.previousRate)} → ${formatRate(change.fundingRate)}`,
+        tone: change.direction === 'above' ? 'positive' : 'negative'
+      };
+  }
+}
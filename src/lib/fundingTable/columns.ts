@@ -0,0 +1,136 @@
+import { getPairHistory, historyInRange } from '../websocket/pairHistory';
+import type { ArbitragePair } from '../websocket/protocol';
+
+// Column model of the funding rates table. Every column has an accessor giving the value it sorts
+// by, so nested, derived and history-based columns sort the same way as top-level fields. How a
+// cell renders stays in the table component.
+
+export type FundingColumnId =
+  | 'pair'
+  | 'hyperliquid_bid'
+  | 'hyperliquid_bid_size'
+  | 'hyperliquid_ask'
+  | 'hyperliquid_ask_size'
+  | 'hyperliquid_volume'
+  | 'funding_rate'
+  | 'funding_history'
+  | 'annual_funding_rate'
+  | 'bybit_bid'
+  | 'bybit_ask'
+  | 'bybit_volume'
+  | 'bybit_spread'
+  | 'next_funding_time';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortKey {
+  field: FundingColumnId;
+  direction: SortDirection;
+}
+
+export interface FundingColumn {
+  id: FundingColumnId;
+  label: string;
+  // Venue the column belongs to; decides its header color
+  group: 'hyperliquid' | 'bybit' | 'other';
+  align: 'left' | 'right' | 'center';
+  // Shown as the header's tooltip when sorting by it isn't self-explanatory
+  sortHint?: string;
+  // Null when the pair has no value, e.g. Bybit columns for pairs not listed there; sorts last
+  accessor: (pair: ArbitragePair) => number | string | null;
+  // Direction a first click sorts in
+  defaultDirection: SortDirection;
+}
+
+export const FUNDING_HISTORY_RANGE_MS = 24 * 60 * 60 * 1000;
+
+const positive = (value: number | undefined | null) => (typeof value === 'number' && value > 0 ? value : null);
+
+const onBybit = (pair: ArbitragePair, value: number | undefined | null) => (pair.bybit.available ? positive(value) : null);
+
+export function bybitSpreadPct(pair: ArbitragePair): number | null {
+  return pair.bybit.available && pair.bybit.ask > 0 && pair.bybit.bid > 0
+    ? ((pair.bybit.ask - pair.bybit.bid) / pair.bybit.bid) * 100
+    : null;
+}
+
+// Average 8h funding rate (%) over the sparkline's window
+export function averageFundingPct(pair: string, now: number): number | null {
+  const points = historyInRange(getPairHistory(pair), FUNDING_HISTORY_RANGE_MS, now);
+  return points.length > 0 ? (points.reduce((sum, point) => sum + point.fundingRate, 0) / points.length) * 100 : null;
+}
+
+export const FUNDING_COLUMNS: FundingColumn[] = [
+  { id: 'pair', label: 'HyperLiquid Pair (USDT)', group: 'hyperliquid', align: 'left', accessor: pair => pair.pair, defaultDirection: 'asc' },
+  { id: 'hyperliquid_bid', label: 'HL Buy Price', group: 'hyperliquid', align: 'right', accessor: pair => positive(pair.hyperliquid.bid), defaultDirection: 'desc' },
+  { id: 'hyperliquid_bid_size', label: 'HL Size', group: 'hyperliquid', align: 'right', accessor: pair => positive(pair.hyperliquid.bid_size), defaultDirection: 'desc' },
+  { id: 'hyperliquid_ask', label: 'HL Sell Price', group: 'hyperliquid', align: 'right', accessor: pair => positive(pair.hyperliquid.ask), defaultDirection: 'desc' },
+  { id: 'hyperliquid_ask_size', label: 'HL Size', group: 'hyperliquid', align: 'right', accessor: pair => positive(pair.hyperliquid.ask_size), defaultDirection: 'desc' },
+  { id: 'hyperliquid_volume', label: 'HL 24h Volume', group: 'hyperliquid', align: 'right', accessor: pair => pair.hyperliquid.volume ?? null, defaultDirection: 'desc' },
+  { id: 'funding_rate', label: 'HL 8h Rate', group: 'hyperliquid', align: 'right', accessor: pair => pair.funding_rate, defaultDirection: 'desc' },
+  {
+    id: 'funding_history',
+    label: 'Funding 24h',
+    group: 'hyperliquid',
+    align: 'center',
+    sortHint: 'Sorts by the average 8h rate over the last 24 hours',
+    accessor: pair => averageFundingPct(pair.pair, Date.now()),
+    defaultDirection: 'desc'
+  },
+  { id: 'annual_funding_rate', label: 'HL Annual Rate', group: 'hyperliquid', align: 'right', accessor: pair => pair.annual_funding_rate ?? null, defaultDirection: 'desc' },
+  { id: 'bybit_bid', label: 'Bybit Buy Price', group: 'bybit', align: 'right', accessor: pair => onBybit(pair, pair.bybit.bid), defaultDirection: 'desc' },
+  { id: 'bybit_ask', label: 'Bybit Sell Price', group: 'bybit', align: 'right', accessor: pair => onBybit(pair, pair.bybit.ask), defaultDirection: 'desc' },
+  { id: 'bybit_volume', label: 'Bybit 24h Volume', group: 'bybit', align: 'right', accessor: pair => (pair.bybit.available ? pair.bybit.volume ?? null : null), defaultDirection: 'desc' },
+  { id: 'bybit_spread', label: 'Bybit Spread %', group: 'bybit', align: 'right', accessor: bybitSpreadPct, defaultDirection: 'asc' },
+  {
+    id: 'next_funding_time',
+    label: 'Next Funding',
+    group: 'other',
+    align: 'center',
+    accessor: pair => positive(pair.next_funding_time),
+    defaultDirection: 'asc'
+  }
+];
+
+export const FUNDING_COLUMN_IDS = FUNDING_COLUMNS.map(column => column.id);
+
+const COLUMNS_BY_ID = new Map(FUNDING_COLUMNS.map(column => [column.id, column]));
+
+export function getFundingColumn(id: FundingColumnId): FundingColumn {
+  return COLUMNS_BY_ID.get(id)!;
+}
+
+/**
+ * Comparator applying each sort key in turn; later keys only break ties. Pairs without a value
+ * for a key go after the ones with one, whichever the direction.
+ */
+export function compareByKeys(keys: SortKey[]): (a: ArbitragePair, b: ArbitragePair) => number {
+  // Accessors can be costly (history averages), so each pair's values are read once per sort
+  const cache = new Map<ArbitragePair, (number | string | null)[]>();
+  const valuesOf = (pair: ArbitragePair) => {
+    let values = cache.get(pair);
+    if (!values) {
+      values = keys.map(key => getFundingColumn(key.field).accessor(pair));
+      cache.set(pair, values);
+    }
+    return values;
+  };
+
+  return (a, b) => {
+    const aValues = valuesOf(a);
+    const bValues = valuesOf(b);
+    for (let i = 0; i < keys.length; i++) {
+      const aValue = aValues[i];
+      const bValue = bValues[i];
+      if (aValue === bValue) continue;
+      if (aValue === null) return 1;
+      if (bValue === null) return -1;
+      const direction = keys[i].direction === 'asc' ? 1 : -1;
+      const comparison = typeof aValue === 'number' && typeof bValue === 'number'
+        ? aValue - bValue
+        : String(aValue).localeCompare(String(bValue));
+      if (comparison !== 0) return comparison * direction;
+    }
+    return 0;
+  };
+}
@@ -0,0 +1,76 @@
+// Thin promise wrapper over the dashboard's IndexedDB database. Every object store is a plain
+// key/value store; callers own the shape of what they put in it.
+
+const DB_NAME = 'arbitrage-dashboard';
+const DB_VERSION = 2;
+
+// Add new object stores here and bump DB_VERSION
+const OBJECT_STORES = ['snapshot', 'history'] as const;
+
+export type ObjectStoreName = typeof OBJECT_STORES[number];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = () => typeof indexedDB !== 'undefined';
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        OBJECT_STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((err) => {
+      // Let the next call try again, e.g. after the user leaves private browsing
+      databasePromise = null;
+      throw err;
+    });
+  }
+  return databasePromise;
+}
+
+export async function getAllEntries<T>(storeName: ObjectStoreName): Promise<Map<string, T>> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  const [keys, values] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll())
+  ]);
+  return new Map(keys.map((key, i) => [String(key), values[i] as T]));
+}
+
+const transactionToPromise = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+export async function putEntries(storeName: ObjectStoreName, entries: Record<string, unknown>): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  Object.entries(entries).forEach(([key, value]) => store.put(value, key));
+  await transactionToPromise(transaction);
+}
+
+export async function deleteEntries(storeName: ObjectStoreName, keys: string[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  keys.forEach(key => store.delete(key));
+  await transactionToPromise(transaction);
+}
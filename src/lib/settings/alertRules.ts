@@ -0,0 +1,155 @@
+import { createPersistentStore, isRecord } from './persistentStore';
+
+// User-defined alert rules. A rule watches either every pair in the feed, every active position
+// or the connections, and fires for each pair/position/connection that matches all its conditions.
+// Snoozes are kept apart from the rules so exporting or importing rules never carries them along.
+
+export type AlertRuleScope = 'pair' | 'position' | 'connection';
+
+export type Comparator = '>' | '>=' | '<' | '<=';
+
+export type ConnectionSubject = 'any' | 'backend' | 'hyperliquid' | 'bybit';
+
+export interface RuleCondition {
+  // Key into PAIR_FIELDS or POSITION_FIELDS, depending on the rule's scope
+  field: string;
+  comparator: Comparator;
+  value: number;
+}
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  scope: AlertRuleScope;
+  // All must hold; used by pair and position rules
+  conditions: RuleCondition[];
+  // Used by connection rules: fires once `subject` has been disconnected this long
+  connection: { subject: ConnectionSubject; disconnectedForSec: number };
+  // Colors the in-app entry: an opportunity to act on or a danger to react to
+  severity: 'opportunity' | 'danger';
+  outputs: { notification: boolean; sound: boolean; inApp: boolean };
+  // Minimum time between two firings for the same pair, position or connection
+  cooldownSec: number;
+}
+
+export interface AlertRules {
+  rules: AlertRule[];
+}
+
+export const COMPARATORS: Comparator[] = ['>', '>=', '<', '<='];
+export const ALERT_RULE_SCOPES: AlertRuleScope[] = ['pair', 'position', 'connection'];
+export const CONNECTION_SUBJECTS: ConnectionSubject[] = ['any', 'backend', 'hyperliquid', 'bybit'];
+
+const MAX_RULES = 50;
+const MAX_CONDITIONS = 8;
+
+export const defaultAlertRules: AlertRules = { rules: [] };
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const normalizeCondition = (value: unknown): RuleCondition | null => {
+  if (!isRecord(value)) return null;
+  const { field, comparator } = value;
+  if (typeof field !== 'string' || !COMPARATORS.includes(comparator as Comparator) || !isNumber(value.value)) return null;
+  return { field, comparator: comparator as Comparator, value: value.value };
+};
+
+export const normalizeAlertRule = (value: unknown): AlertRule | null => {
+  if (!isRecord(value)) return null;
+  const { id, name, enabled, scope, conditions, connection, severity, outputs, cooldownSec } = value;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || typeof enabled !== 'boolean') return null;
+  if (!ALERT_RULE_SCOPES.includes(scope as AlertRuleScope)) return null;
+  if (!Array.isArray(conditions) || conditions.length > MAX_CONDITIONS) return null;
+  if (!isRecord(connection) || !CONNECTION_SUBJECTS.includes(connection.subject as ConnectionSubject) ||
+    !isNumber(connection.disconnectedForSec) || connection.disconnectedForSec < 0) return null;
+  if (severity !== 'opportunity' && severity !== 'danger') return null;
+  if (!isRecord(outputs) || typeof outputs.notification !== 'boolean' || typeof outputs.sound !== 'boolean' ||
+    typeof outputs.inApp !== 'boolean') return null;
+  if (!isNumber(cooldownSec) || cooldownSec < 0) return null;
+
+  const normalizedConditions = conditions.map(normalizeCondition);
+  if (normalizedConditions.some(condition => condition === null)) return null;
+
+  return {
+    id,
+    name,
+    enabled,
+    scope: scope as AlertRuleScope,
+    conditions: normalizedConditions as RuleCondition[],
+    connection: { subject: connection.subject as ConnectionSubject, disconnectedForSec: connection.disconnectedForSec },
+    severity,
+    outputs: { notification: outputs.notification, sound: outputs.sound, inApp: outputs.inApp },
+    cooldownSec
+  };
+};
+
+const normalizeAlertRules = (value: unknown): AlertRules | null => {
+  if (!isRecord(value) || !Array.isArray(value.rules) || value.rules.length > MAX_RULES) return null;
+  const rules = value.rules.map(normalizeAlertRule);
+  if (rules.some(rule => rule === null)) return null;
+  // Ids are what snoozes and cooldowns hang off, so duplicates can't be told apart
+  const ids = new Set(rules.map(rule => rule!.id));
+  return ids.size === rules.length ? { rules: rules as AlertRule[] } : null;
+};
+
+export const alertRulesStore = createPersistentStore<AlertRules>({
+  key: 'arbitrage-dashboard:alert-rules',
+  defaults: defaultAlertRules,
+  normalize: normalizeAlertRules
+});
+
+// Rule id to the time (ms) its snooze ends
+export type AlertSnoozes = Record<string, number>;
+
+const normalizeAlertSnoozes = (value: unknown): AlertSnoozes | null => {
+  if (!isRecord(value)) return null;
+  return Object.values(value).every(isNumber) ? value as AlertSnoozes : null;
+};
+
+export const alertSnoozesStore = createPersistentStore<AlertSnoozes>({
+  key: 'arbitrage-dashboard:alert-snoozes',
+  defaults: {},
+  normalize: normalizeAlertSnoozes
+});
+
+export function createAlertRule(scope: AlertRuleScope = 'pair'): AlertRule {
+  return {
+    id: `rule-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: '',
+    enabled: true,
+    scope,
+    conditions: [],
+    connection: { subject: 'any', disconnectedForSec: 30 },
+    severity: scope === 'pair' ? 'opportunity' : 'danger',
+    outputs: { notification: true, sound: false, inApp: true },
+    cooldownSec: 300
+  };
+}
+
+// Adds the rule, or replaces the one with the same id
+export function saveAlertRule(rule: AlertRule): void {
+  alertRulesStore.set(({ rules }) => ({
+    rules: rules.some(existing => existing.id === rule.id)
+      ? rules.map(existing => (existing.id === rule.id ? rule : existing))
+      : [...rules, rule]
+  }));
+}
+
+export function deleteAlertRule(id: string): void {
+  alertRulesStore.set(({ rules }) => ({ rules: rules.filter(rule => rule.id !== id) }));
+  snoozeAlertRule(id, null);
+}
+
+// Silences a rule until `until` (ms), or lifts the snooze with null
+export function snoozeAlertRule(id: string, until: number | null): void {
+  alertSnoozesStore.set(snoozes => {
+    const next = { ...snoozes };
+    if (until === null) {
+      delete next[id];
+    } else {
+      next[id] = until;
+    }
+    return next;
+  });
+}
@@ -0,0 +1,42 @@
+import { createPersistentStore, isRecord } from './persistentStore';
+
+// Thresholds for AutomationPanel. Whether automation is running is deliberately not persisted:
+// a reload or an imported config should never start trading on its own.
+export interface AutomationSettings {
+  minFundingRate: number;  // Minimum funding rate to open
+  closeFundingRate: number; // Funding rate to close
+  minSpreadPercent: number; // Minimum spread between exchanges
+  maxSpreadPercent: number; // Maximum spread between exchanges
+  positionSizeUSD: number;  // Position size in USD
+  maxDepositUsage: number;  // Maximum percentage of deposit to use
+}
+
+export const defaultAutomationSettings: AutomationSettings = {
+  minFundingRate: 0.01, // 1% minimum funding rate
+  closeFundingRate: 0.005, // 0.5% funding rate to close
+  minSpreadPercent: 0.1, // 0.1% minimum spread
+  maxSpreadPercent: 0.5, // 0.5% maximum spread
+  positionSizeUSD: 1000, // $1000 default position size
+  maxDepositUsage: 90, // 90% maximum deposit usage
+};
+
+const SETTING_KEYS = Object.keys(defaultAutomationSettings) as Array<keyof AutomationSettings>;
+
+const normalizeAutomationSettings = (value: unknown): AutomationSettings | null => {
+  if (!isRecord(value)) return null;
+  const settings = { ...defaultAutomationSettings };
+  for (const key of SETTING_KEYS) {
+    const field = value[key];
+    // A cleared input is NaN in memory and null once saved; it falls back to the default
+    if (field === undefined || field === null) continue;
+    if (typeof field !== 'number' || !Number.isFinite(field)) return null;
+    settings[key] = field;
+  }
+  return settings;
+};
+
+export const automationSettingsStore = createPersistentStore<AutomationSettings>({
+  key: 'arbitrage-dashboard:automation-settings',
+  defaults: defaultAutomationSettings,
+  normalize: normalizeAutomationSettings
+});
@@ -0,0 +1,210 @@
+import { alertRulesStore } from './alertRules';
+import { automationSettingsStore } from './automationSettings';
+import {
+  getConnectionProfiles,
+  normalizeConnectionProfiles,
+  replaceConnectionProfiles
+} from './connectionSettings';
+import { exportEncryptedVault, importEncryptedVault, normalizeStoredVault } from './credentialVault';
+import { opportunityAlertsStore } from './opportunityAlerts';
+import { isRecord, type PersistentStore } from './persistentStore';
+import { fundingTablePreferencesStore, fundingTableViewsStore } from './tablePreferences';
+import { watchlistStore } from './watchlist';
+
+// Versioned export/import of everything configurable in the dashboard, so a desk member can be set up
+// from a colleague's file. Each section below owns one piece of configuration; plain secrets are never
+// part of any section, and the credential vault only travels encrypted and only when asked for.
+
+const CONFIG_FORMAT = 'arbitrage-dashboard-config';
+const CONFIG_VERSION = 1;
+
+export interface ConfigFile {
+  format: typeof CONFIG_FORMAT;
+  version: number;
+  exportedAt: string;
+  sections: Record<string, unknown>;
+}
+
+interface ConfigSection {
+  key: string;
+  label: string;
+  // Left out of exports unless explicitly included
+  optional?: boolean;
+  read: () => unknown;
+  // Returns the value ready to apply, or null when it isn't valid for this section
+  normalize: (value: unknown) => unknown;
+  apply: (value: unknown) => void;
+  // What the diff preview compares, when the raw value isn't meaningful to read
+  preview?: (value: unknown) => unknown;
+}
+
+const storeSection = <T>(key: string, label: string, store: PersistentStore<T>): ConfigSection => ({
+  key,
+  label,
+  read: store.get,
+  normalize: store.normalize,
+  apply: (value) => store.set(value as T)
+});
+
+export const CONFIG_SECTIONS: ConfigSection[] = [
+  {
+    key: 'connectionProfiles',
+    label: 'Connection profiles',
+    read: getConnectionProfiles,
+    normalize: normalizeConnectionProfiles,
+    apply: (value) => replaceConnectionProfiles(value as ReturnType<typeof getConnectionProfiles>)
+  },
+  storeSection('automation', 'Automation settings', automationSettingsStore),
+  storeSection('fundingTable', 'Funding table preferences', fundingTablePreferencesStore),
+  storeSection('fundingTableViews', 'Funding table views', fundingTableViewsStore),
+  storeSection('watchlist', 'Watchlist', watchlistStore),
+  storeSection('opportunityAlerts', 'Opportunity alerts', opportunityAlertsStore),
+  storeSection('alertRules', 'Alert rules', alertRulesStore),
+  {
+    key: 'credentialVault',
+    label: 'Encrypted credential vault',
+    optional: true,
+    read: exportEncryptedVault,
+    normalize: normalizeStoredVault,
+    apply: (value) => importEncryptedVault(value as NonNullable<ReturnType<typeof normalizeStoredVault>>),
+    // Ciphertext is noise in a diff; a short fingerprint still shows whether it differs
+    preview: (value) => {
+      const vault = normalizeStoredVault(value);
+      return vault ? { encrypted: true, iterations: vault.kdf.iterations, fingerprint: `${vault.ciphertext.slice(0, 12)}…` } : null;
+    }
+  }
+];
+
+/**
+ * Builds the export file. Optional sections (the encrypted vault) are only included when listed
+ * in `include`; sections with nothing to export are skipped.
+ */
+export function exportConfig(include: string[] = []): ConfigFile {
+  const sections: Record<string, unknown> = {};
+  CONFIG_SECTIONS.forEach(section => {
+    if (section.optional && !include.includes(section.key)) return;
+    const value = section.read();
+    if (value !== null && value !== undefined) {
+      sections[section.key] = value;
+    }
+  });
+
+  return { format: CONFIG_FORMAT, version: CONFIG_VERSION, exportedAt: new Date().toISOString(), sections };
+}
+
+export interface ConfigChange {
+  path: string;
+  // JSON text of each side; undefined when the setting is only on one side
+  before?: string;
+  after?: string;
+}
+
+export interface SectionImport {
+  key: string;
+  label: string;
+  status: 'changed' | 'unchanged' | 'invalid';
+  error: string | null;
+  changes: ConfigChange[];
+  // Normalized value to apply; null for invalid sections
+  value: unknown;
+}
+
+export interface ConfigImport {
+  exportedAt: string;
+  sections: SectionImport[];
+  // Keys in the file this build doesn't know about
+  ignored: string[];
+}
+
+// Flattens to dotted paths. Arrays of objects are keyed by name or id so reordering reads as
+// "no change"; arrays of plain values are compared as a whole.
+const flatten = (value: unknown, path: string, out: Map<string, string>) => {
+  if (Array.isArray(value)) {
+    if (value.every(item => !isRecord(item))) {
+      out.set(path, JSON.stringify(value));
+      return;
+    }
+    value.forEach((item, index) => {
+      const label = isRecord(item) ? item.name ?? item.id ?? index : index;
+      flatten(item, `${path}[${String(label)}]`, out);
+    });
+    return;
+  }
+
+  if (isRecord(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      out.set(path, '{}');
+    }
+    entries.forEach(([key, child]) => flatten(child, path ? `${path}.${key}` : key, out));
+    return;
+  }
+
+  out.set(path, JSON.stringify(value));
+};
+
+export function diffConfigValues(before: unknown, after: unknown): ConfigChange[] {
+  const beforeFlat = new Map<string, string>();
+  const afterFlat = new Map<string, string>();
+  flatten(before, '', beforeFlat);
+  flatten(after, '', afterFlat);
+
+  const paths = Array.from(new Set([...beforeFlat.keys(), ...afterFlat.keys()])).sort();
+  return paths
+    .filter(path => beforeFlat.get(path) !== afterFlat.get(path))
+    .map(path => ({ path: path || '(value)', before: beforeFlat.get(path), after: afterFlat.get(path) }));
+}
+
+/**
+ * Parses an exported file and compares every section with what is configured now. Throws for
+ * files that aren't configuration exports at all; problems inside a section mark only that section invalid.
+ */
+export function prepareConfigImport(text: string): ConfigImport {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (!isRecord(parsed) || parsed.format !== CONFIG_FORMAT) {
+    throw new Error('File is not a dashboard configuration export');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > CONFIG_VERSION) {
+    throw new Error(`Configuration version ${String(parsed.version)} is newer than this dashboard supports (${CONFIG_VERSION})`);
+  }
+  if (!isRecord(parsed.sections)) {
+    throw new Error('Configuration file has no sections');
+  }
+
+  const fileSections = parsed.sections;
+  const sections = CONFIG_SECTIONS
+    .filter(section => section.key in fileSections)
+    .map((section): SectionImport => {
+      const value = section.normalize(fileSections[section.key]);
+      if (value === null) {
+        return { key: section.key, label: section.label, status: 'invalid', error: 'Missing fields or invalid values; this section cannot be imported', changes: [], value: null };
+      }
+
+      const preview = section.preview ?? ((v: unknown) => v);
+      const changes = diffConfigValues(preview(section.read()), preview(value));
+      return { key: section.key, label: section.label, status: changes.length > 0 ? 'changed' : 'unchanged', error: null, changes, value };
+    });
+
+  return {
+    exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : 'unknown',
+    sections,
+    ignored: Object.keys(fileSections).filter(key => !CONFIG_SECTIONS.some(section => section.key === key))
+  };
+}
+
+// Applies the chosen sections from a prepared import, replacing what is configured now
+export function applyConfigImport(prepared: ConfigImport, keys: string[]): void {
+  prepared.sections
+    .filter(section => keys.includes(section.key) && section.status === 'changed')
+    .forEach(section => {
+      const definition = CONFIG_SECTIONS.find(candidate => candidate.key === section.key);
+      definition?.apply(section.value);
+      console.log(`📥 Settings: Imported ${section.label.toLowerCase()}`);
+    });
+}
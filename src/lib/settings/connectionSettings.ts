@@ -0,0 +1,327 @@
+// Named connection profiles (e.g. local, testnet, production), each with its own backend endpoints and
+// exchange testnet flags, chosen in the Settings tab or the Sidebar. Profiles are persisted in localStorage
+// and applied at runtime: endpoints.ts reads the active profile on every request and WebSocketProvider
+// reconnects when it changes. Exchange secrets are deliberately not part of this.
+
+const STORAGE_KEY = 'arbitrage-dashboard:connection-profiles';
+// Single settings object saved before profiles existed; becomes the first profile
+const LEGACY_STORAGE_KEY = 'arbitrage-dashboard:connection-settings';
+
+export interface EndpointSettings {
+  host: string;
+  port: number;
+  // https/wss instead of http/ws
+  secure: boolean;
+  // Base path behind a reverse proxy, e.g. "/ws" or "/api"; empty when served from the root
+  path: string;
+}
+
+export interface ConnectionSettings {
+  websocket: EndpointSettings;
+  api: EndpointSettings;
+  bybit: { testnet: boolean };
+  hyperliquid: { testnet: boolean };
+}
+
+export type ProfileEnvironment = 'local' | 'testnet' | 'production';
+
+export const PROFILE_ENVIRONMENTS: { value: ProfileEnvironment; label: string }[] = [
+  { value: 'local', label: 'Local' },
+  { value: 'testnet', label: 'Testnet' },
+  { value: 'production', label: 'Production' }
+];
+
+export interface ConnectionProfile extends ConnectionSettings {
+  id: string;
+  name: string;
+  environment: ProfileEnvironment;
+}
+
+export interface ConnectionProfiles {
+  profiles: ConnectionProfile[];
+  activeProfileId: string;
+}
+
+export type ConnectionSettingsField =
+  | 'name'
+  | 'websocket.host'
+  | 'websocket.port'
+  | 'websocket.path'
+  | 'api.host'
+  | 'api.port'
+  | 'api.path';
+
+export type ConnectionSettingsErrors = Partial<Record<ConnectionSettingsField, string>>;
+
+// "/api/" and "/" become "/api" and "", so the URL builders can append to them
+const normalizePath = (path: string) => path.trim().replace(/\/+$/, '');
+
+const parseEndpoint = (url: string, protocols: [string, string]): EndpointSettings => {
+  const parsed = new URL(url);
+  if (!protocols.includes(parsed.protocol)) {
+    throw new Error(`expected ${protocols.join(' or ')}`);
+  }
+  const secure = parsed.protocol === protocols[1];
+  return {
+    host: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : secure ? 443 : 80,
+    secure,
+    path: normalizePath(parsed.pathname)
+  };
+};
+
+// A malformed env var falls back to the built-in endpoint instead of failing at module load
+const endpointFromEnv = (name: string, value: string | undefined, fallback: string, protocols: [string, string]) => {
+  if (value) {
+    try {
+      return parseEndpoint(value, protocols);
+    } catch (err) {
+      console.warn(`⚠️ Settings: Ignoring invalid ${name} "${value}", using ${fallback}:`, err);
+    }
+  }
+  return parseEndpoint(fallback, protocols);
+};
+
+// The env vars only seed the defaults; what the user saves in Settings wins
+export const defaultConnectionSettings: ConnectionSettings = {
+  websocket: endpointFromEnv('NEXT_PUBLIC_WS_URL', process.env.NEXT_PUBLIC_WS_URL, 'ws://localhost:8765', ['ws:', 'wss:']),
+  api: endpointFromEnv('NEXT_PUBLIC_API_URL', process.env.NEXT_PUBLIC_API_URL, 'http://localhost:8080', ['http:', 'https:']),
+  bybit: { testnet: false },
+  hyperliquid: { testnet: false }
+};
+
+// Hosts on this machine, the only ones plain http/ws is acceptable for when secrets are involved
+export const isLoopback = (host: string) => host === 'localhost' || host === '127.0.0.1' || host === '[::1]';
+
+const defaultProfile: ConnectionProfile = {
+  id: 'default',
+  name: isLoopback(defaultConnectionSettings.api.host) ? 'Local' : 'Default',
+  environment: isLoopback(defaultConnectionSettings.api.host) ? 'local' : 'production',
+  ...defaultConnectionSettings
+};
+
+const defaultProfiles: ConnectionProfiles = { profiles: [defaultProfile], activeProfileId: defaultProfile.id };
+
+// RFC 1123 hostnames (which covers "localhost"), IPv4 addresses, or bracketed IPv6
+const HOSTNAME = /^(?=.{1,253}$)([a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)(\.[a-zA-Z0-9]([a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+const IPV4 = /^((25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/;
+const IPV6 = /^\[[0-9a-fA-F:.]+\]$/;
+
+const hostError = (host: string) => {
+  const trimmed = host.trim();
+  if (!trimmed) return 'Host is required';
+  if (/^[a-z]+:\/\//i.test(trimmed)) return 'Enter the host only, without http:// or ws://';
+  if (/[/:?#]/.test(trimmed) && !IPV6.test(trimmed)) return 'Host must not contain a port or path';
+  if (/^[\d.]+$/.test(trimmed)) return IPV4.test(trimmed) ? null : 'Invalid IPv4 address';
+  if (HOSTNAME.test(trimmed) || IPV6.test(trimmed)) return null;
+  return 'Invalid host name';
+};
+
+const portError = (port: number) =>
+  Number.isInteger(port) && port >= 1 && port <= 65535 ? null : 'Port must be a whole number between 1 and 65535';
+
+const pathError = (path: string) => {
+  const trimmed = path.trim();
+  if (!trimmed) return null;
+  if (!trimmed.startsWith('/')) return 'Path must start with /';
+  if (/[\s?#]/.test(trimmed)) return 'Path must not contain spaces, a query or a fragment';
+  return null;
+};
+
+export function validateConnectionProfile(profile: ConnectionProfile): ConnectionSettingsErrors {
+  const errors: ConnectionSettingsErrors = {};
+  if (!profile.name.trim()) {
+    errors.name = 'Profile name is required';
+  }
+  (['websocket', 'api'] as const).forEach(section => {
+    const host = hostError(profile[section].host);
+    const port = portError(profile[section].port);
+    const path = pathError(profile[section].path);
+    if (host) errors[`${section}.host`] = host;
+    if (port) errors[`${section}.port`] = port;
+    if (path) errors[`${section}.path`] = path;
+  });
+  return errors;
+}
+
+export const apiBaseUrl = ({ api }: ConnectionSettings) =>
+  `${api.secure ? 'https' : 'http'}://${api.host.trim()}:${api.port}${normalizePath(api.path)}`;
+
+export const websocketUrl = ({ websocket }: ConnectionSettings) =>
+  `${websocket.secure ? 'wss' : 'ws'}://${websocket.host.trim()}:${websocket.port}${normalizePath(websocket.path)}`;
+
+let current: ConnectionProfiles | null = null;
+const listeners = new Set<() => void>();
+
+const createProfileId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `profile-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+const ENVIRONMENTS = PROFILE_ENVIRONMENTS.map(env => env.value);
+
+// Fills gaps from the defaults and drops anything that wouldn't pass the form's validation,
+// so a hand-edited or outdated entry can never point the socket somewhere odd
+const normalizeProfile = (stored: Partial<ConnectionProfile>): ConnectionProfile | null => {
+  const profile: ConnectionProfile = {
+    id: typeof stored.id === 'string' && stored.id ? stored.id : createProfileId(),
+    name: typeof stored.name === 'string' ? stored.name : defaultProfile.name,
+    environment: ENVIRONMENTS.includes(stored.environment as ProfileEnvironment)
+      ? stored.environment as ProfileEnvironment
+      : defaultProfile.environment,
+    websocket: { ...defaultConnectionSettings.websocket, ...stored.websocket },
+    api: { ...defaultConnectionSettings.api, ...stored.api },
+    bybit: { ...defaultConnectionSettings.bybit, ...stored.bybit },
+    hyperliquid: { ...defaultConnectionSettings.hyperliquid, ...stored.hyperliquid }
+  };
+  return Object.keys(validateConnectionProfile(profile)).length === 0 ? profile : null;
+};
+
+const readStored = (): ConnectionProfiles => {
+  if (typeof window === 'undefined') return defaultProfiles;
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) {
+      const legacy = window.localStorage.getItem(LEGACY_STORAGE_KEY);
+      const migrated = legacy ? normalizeProfile({ ...defaultProfile, ...JSON.parse(legacy) }) : null;
+      return migrated ? { profiles: [migrated], activeProfileId: migrated.id } : defaultProfiles;
+    }
+
+    const stored = JSON.parse(raw) as Partial<ConnectionProfiles>;
+    const profiles = (Array.isArray(stored.profiles) ? stored.profiles : [])
+      .map(normalizeProfile)
+      .filter((profile): profile is ConnectionProfile => profile !== null);
+    if (profiles.length === 0) return defaultProfiles;
+
+    const activeProfileId = profiles.some(profile => profile.id === stored.activeProfileId)
+      ? stored.activeProfileId as string
+      : profiles[0].id;
+    return { profiles, activeProfileId };
+  } catch {
+    return defaultProfiles;
+  }
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+const commit = (next: ConnectionProfiles) => {
+  current = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+    window.localStorage.removeItem(LEGACY_STORAGE_KEY);
+  } catch (err) {
+    console.warn('⚠️ Settings: Could not persist connection profiles:', err);
+  }
+  notify();
+};
+
+// Other tabs saving or switching profiles show up as storage events; their sockets follow along
+const handleStorage = (event: StorageEvent) => {
+  if (event.key !== STORAGE_KEY) return;
+  current = readStored();
+  notify();
+};
+
+export function getConnectionProfiles(): ConnectionProfiles {
+  if (!current) {
+    current = readStored();
+  }
+  return current;
+}
+
+export const getServerConnectionProfiles = () => defaultProfiles;
+
+// Settings of the active profile; what every request and the socket connect to
+export function getConnectionSettings(): ConnectionProfile {
+  const { profiles, activeProfileId } = getConnectionProfiles();
+  return profiles.find(profile => profile.id === activeProfileId) ?? profiles[0];
+}
+
+export const getServerConnectionSettings = () => defaultProfile;
+
+/**
+ * Validates and saves a new or edited profile. Returns the validation errors; nothing is saved
+ * unless the result is empty. Saving the active profile reconnects to its endpoints.
+ */
+export function saveConnectionProfile(profile: ConnectionProfile): ConnectionSettingsErrors {
+  const errors = validateConnectionProfile(profile);
+  if (Object.keys(errors).length > 0) return errors;
+
+  const saved: ConnectionProfile = {
+    ...profile,
+    name: profile.name.trim(),
+    websocket: { ...profile.websocket, host: profile.websocket.host.trim(), path: normalizePath(profile.websocket.path) },
+    api: { ...profile.api, host: profile.api.host.trim(), path: normalizePath(profile.api.path) }
+  };
+  const { profiles, activeProfileId } = getConnectionProfiles();
+  const exists = profiles.some(existing => existing.id === saved.id);
+  commit({
+    profiles: exists ? profiles.map(existing => (existing.id === saved.id ? saved : existing)) : [...profiles, saved],
+    activeProfileId
+  });
+  return errors;
+}
+
+// Unsaved copy of `source` under a new id, to be edited and then passed to saveConnectionProfile
+export function copyConnectionProfile(source: ConnectionProfile): ConnectionProfile {
+  return { ...source, id: createProfileId(), name: `${source.name} copy` };
+}
+
+// The last remaining profile cannot be deleted; deleting the active one activates the first left
+export function deleteConnectionProfile(id: string): void {
+  const { profiles, activeProfileId } = getConnectionProfiles();
+  const remaining = profiles.filter(profile => profile.id !== id);
+  if (remaining.length === 0 || remaining.length === profiles.length) return;
+
+  commit({
+    profiles: remaining,
+    activeProfileId: activeProfileId === id ? remaining[0].id : activeProfileId
+  });
+}
+
+export function setActiveConnectionProfile(id: string): void {
+  const state = getConnectionProfiles();
+  if (state.activeProfileId === id || !state.profiles.some(profile => profile.id === id)) return;
+
+  const profile = state.profiles.find(p => p.id === id) as ConnectionProfile;
+  console.log(`🔀 Settings: Switching to connection profile "${profile.name}"`);
+  commit({ ...state, activeProfileId: id });
+}
+
+/**
+ * Checks a full set of profiles, e.g. from an imported config file. Unlike loading from storage,
+ * a single invalid profile rejects the whole set instead of being dropped.
+ */
+export function normalizeConnectionProfiles(value: unknown): ConnectionProfiles | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const { profiles, activeProfileId } = value as Partial<ConnectionProfiles>;
+  if (!Array.isArray(profiles) || profiles.length === 0) return null;
+
+  const normalized = profiles.map(normalizeProfile);
+  if (normalized.some(profile => profile === null)) return null;
+
+  const valid = normalized as ConnectionProfile[];
+  return {
+    profiles: valid,
+    activeProfileId: valid.some(profile => profile.id === activeProfileId) ? activeProfileId as string : valid[0].id
+  };
+}
+
+// Replaces every profile at once; reconnects if the active endpoints change
+export function replaceConnectionProfiles(next: ConnectionProfiles): void {
+  commit(next);
+}
+
+export function subscribeConnectionSettings(listener: () => void): () => void {
+  if (listeners.size === 0 && typeof window !== 'undefined') {
+    window.addEventListener('storage', handleStorage);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && typeof window !== 'undefined') {
+      window.removeEventListener('storage', handleStorage);
+    }
+  };
+}
@@ -0,0 +1,155 @@
+import { parseServerMessage } from '../websocket/protocol';
+import {
+  apiBaseUrl,
+  validateConnectionProfile,
+  websocketUrl,
+  type ConnectionProfile,
+  type ConnectionSettings
+} from './connectionSettings';
+import { getVaultState, verifyCredentialsWithBackend, type CredentialCheckResult } from './credentialVault';
+
+// One-off checks behind the Settings tab's "Test connection". Each check uses its own request or
+// throwaway socket, so the live connection and its subscriptions are left alone.
+
+const CHECK_TIMEOUT_MS = 8000;
+
+export type ConnectionCheckId = 'api' | 'websocket' | 'bybit' | 'hyperliquid';
+
+export interface ConnectionCheck {
+  id: ConnectionCheckId;
+  label: string;
+  status: 'ok' | 'failed' | 'skipped';
+  latencyMs: number | null;
+  detail: string | null;
+}
+
+const errorText = (err: unknown) => {
+  if (err instanceof DOMException && (err.name === 'TimeoutError' || err.name === 'AbortError')) {
+    return `No response within ${CHECK_TIMEOUT_MS / 1000}s`;
+  }
+  // fetch reports unreachable hosts, refused connections and CORS failures all as TypeError
+  if (err instanceof TypeError) return `Could not reach the server (${err.message})`;
+  return err instanceof Error ? err.message : String(err);
+};
+
+async function checkApi(settings: ConnectionSettings): Promise<ConnectionCheck> {
+  const url = `${apiBaseUrl(settings)}/trading/status`;
+  const startedAt = performance.now();
+  try {
+    const response = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(CHECK_TIMEOUT_MS) });
+    const latencyMs = Math.round(performance.now() - startedAt);
+    if (!response.ok) {
+      return { id: 'api', label: 'REST API', status: 'failed', latencyMs, detail: `GET ${url} returned HTTP ${response.status}` };
+    }
+
+    const body = await response.json().catch(() => null);
+    const status = body && typeof body.status === 'string' ? `Backend ${body.status}` : 'Backend responded';
+    return { id: 'api', label: 'REST API', status: 'ok', latencyMs, detail: status };
+  } catch (err) {
+    return { id: 'api', label: 'REST API', status: 'failed', latencyMs: null, detail: errorText(err) };
+  }
+}
+
+// Times from opening the socket until the backend's `connection` greeting, then closes it again
+function checkWebSocket(settings: ConnectionSettings): Promise<ConnectionCheck> {
+  const url = websocketUrl(settings);
+  const result = (status: ConnectionCheck['status'], latencyMs: number | null, detail: string): ConnectionCheck =>
+    ({ id: 'websocket', label: 'WebSocket', status, latencyMs, detail });
+
+  return new Promise(resolve => {
+    const startedAt = performance.now();
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(url);
+    } catch (err) {
+      resolve(result('failed', null, errorText(err)));
+      return;
+    }
+
+    let settled = false;
+    const finish = (check: ConnectionCheck) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      if (socket.readyState === WebSocket.CONNECTING || socket.readyState === WebSocket.OPEN) {
+        socket.close(1000, 'Connection test finished');
+      }
+      resolve(check);
+    };
+
+    const timeout = setTimeout(() => {
+      finish(result('failed', null, socket.readyState === WebSocket.OPEN
+        ? `Socket opened but no connection message within ${CHECK_TIMEOUT_MS / 1000}s`
+        : `Could not connect to ${url} within ${CHECK_TIMEOUT_MS / 1000}s`));
+    }, CHECK_TIMEOUT_MS);
+
+    socket.onmessage = (event) => {
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) {
+        finish(result('failed', null, `Unexpected first frame: ${parsed.error}`));
+      } else if (parsed.message.type === 'connection') {
+        finish(result('ok', Math.round(performance.now() - startedAt), parsed.message.message || 'Handshake complete'));
+      } else if (parsed.message.type === 'error') {
+        finish(result('failed', null, parsed.message.message));
+      }
+    };
+    // Browsers hide the reason for failed sockets, so the close code is all there is to report
+    socket.onclose = (event) => {
+      finish(result('failed', null, `Connection to ${url} closed (code ${event.code}${event.reason ? `: ${event.reason}` : ''})`));
+    };
+    socket.onerror = () => {
+      finish(result('failed', null, `Could not connect to ${url}`));
+    };
+  });
+}
+
+const credentialCheck = (id: 'bybit' | 'hyperliquid', check: CredentialCheckResult | undefined): ConnectionCheck => ({
+  id,
+  label: id === 'bybit' ? 'Bybit credentials' : 'HyperLiquid credentials',
+  status: check?.valid ? 'ok' : 'failed',
+  latencyMs: typeof check?.latency_ms === 'number' ? Math.round(check.latency_ms) : null,
+  detail: check?.valid ? 'Accepted by exchange' : check?.error || 'Backend did not report a result'
+});
+
+async function checkCredentials(profile: ConnectionProfile, unsaved: boolean): Promise<ConnectionCheck[]> {
+  const skipped = (detail: string): ConnectionCheck[] => [
+    { id: 'bybit', label: 'Bybit credentials', status: 'skipped', latencyMs: null, detail },
+    { id: 'hyperliquid', label: 'HyperLiquid credentials', status: 'skipped', latencyMs: null, detail }
+  ];
+
+  // Catching host typos is what this test is for, so keys only go to endpoints that were saved
+  if (unsaved) {
+    return skipped('Save the profile to verify exchange keys against its backend');
+  }
+  if (Object.keys(validateConnectionProfile(profile)).length > 0) {
+    return skipped('Fix the profile\'s settings to verify exchange keys');
+  }
+  if (getVaultState().status !== 'unlocked') {
+    return skipped('Unlock the credential vault to verify exchange keys');
+  }
+
+  try {
+    const exchanges = await verifyCredentialsWithBackend(profile, AbortSignal.timeout(CHECK_TIMEOUT_MS));
+    return [credentialCheck('bybit', exchanges?.bybit), credentialCheck('hyperliquid', exchanges?.hyperliquid)];
+  } catch (err) {
+    const detail = errorText(err);
+    return skipped(detail).map(check => ({ ...check, status: 'failed' as const }));
+  }
+}
+
+/**
+ * Runs every check against `profile` in parallel. Never rejects; failures come back as checks with
+ * status 'failed' and a readable detail. Credentials are only checked for a saved, valid profile.
+ */
+export async function runConnectionTest(profile: ConnectionProfile, unsaved: boolean): Promise<ConnectionCheck[]> {
+  const [api, websocket, credentials] = await Promise.all([
+    checkApi(profile),
+    checkWebSocket(profile),
+    checkCredentials(profile, unsaved)
+  ]);
+  return [api, websocket, ...credentials];
+}
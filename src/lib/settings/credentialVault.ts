@@ -0,0 +1,337 @@
+import { vaultConfig } from '../../config/vault';
+import { apiBaseUrl, getConnectionSettings, isLoopback, type ConnectionSettings } from './connectionSettings';
+
+// Exchange secrets encrypted at rest with a passphrase (PBKDF2-SHA256 -> AES-GCM 256). The decrypted
+// credentials and the derived key only live in this module's memory while the vault is unlocked, and
+// nothing here logs them. They leave the browser only through postCredentials.
+
+const STORAGE_KEY = 'arbitrage-dashboard:credential-vault';
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+export interface ExchangeCredentials {
+  // Bearer token the backend requires before it accepts credentials
+  backend: { api_token: string };
+  bybit: { api_key: string; secret: string };
+  hyperliquid: { secret_key: string; account_address: string };
+}
+
+export const emptyCredentials: ExchangeCredentials = {
+  backend: { api_token: '' },
+  bybit: { api_key: '', secret: '' },
+  hyperliquid: { secret_key: '', account_address: '' }
+};
+
+export interface StoredVault {
+  version: 1;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: { name: 'AES-GCM'; iv: string };
+  ciphertext: string;
+}
+
+export type VaultStatus = 'unsupported' | 'empty' | 'locked' | 'unlocked';
+
+export interface VaultState {
+  status: VaultStatus;
+  credentials: ExchangeCredentials | null;
+  // When the vault will lock itself unless there is activity first; null unless unlocked
+  locksAt: number | null;
+}
+
+export interface BackendCredentialStatus {
+  bybit: { configured: boolean };
+  hyperliquid: { configured: boolean };
+}
+
+export interface CredentialCheckResult {
+  valid: boolean;
+  error?: string;
+  // Time the backend spent on the exchange's authenticated endpoint
+  latency_ms?: number;
+}
+
+export interface BackendCredentialVerification {
+  bybit: CredentialCheckResult;
+  hyperliquid: CredentialCheckResult;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const isSupported = () =>
+  typeof window !== 'undefined' && !!window.crypto?.subtle && typeof window.localStorage !== 'undefined';
+
+/**
+ * Checks the shape of an encrypted vault, e.g. one read from storage or an imported config file.
+ * Says nothing about the passphrase; that only shows when unlocking.
+ */
+export function normalizeStoredVault(value: unknown): StoredVault | null {
+  if (typeof value !== 'object' || value === null) return null;
+  const stored = value as StoredVault;
+  const valid =
+    stored.version === 1 &&
+    stored.kdf?.name === 'PBKDF2' &&
+    stored.kdf.hash === 'SHA-256' &&
+    Number.isInteger(stored.kdf.iterations) &&
+    stored.kdf.iterations >= vaultConfig.minPbkdf2Iterations &&
+    stored.kdf.iterations <= vaultConfig.maxPbkdf2Iterations &&
+    typeof stored.kdf.salt === 'string' &&
+    stored.cipher?.name === 'AES-GCM' &&
+    typeof stored.cipher.iv === 'string' &&
+    typeof stored.ciphertext === 'string';
+  return valid ? stored : null;
+}
+
+const readStoredVault = (): StoredVault | null => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? normalizeStoredVault(JSON.parse(raw)) : null;
+  } catch {
+    return null;
+  }
+};
+
+// The vault exactly as stored, still encrypted; null when there is none
+export function exportEncryptedVault(): StoredVault | null {
+  return isSupported() ? readStoredVault() : null;
+}
+
+// Replaces the vault with an encrypted one from elsewhere; it has to be unlocked with its own passphrase
+export function importEncryptedVault(stored: StoredVault): void {
+  lockVault();
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  setState({ status: 'locked', credentials: null, locksAt: null });
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: salt as BufferSource, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function seal(credentials: ExchangeCredentials, key: CryptoKey, kdf: StoredVault['kdf']): Promise<StoredVault> {
+  // A fresh IV for every write; reusing one with the same key breaks AES-GCM
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(credentials));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return {
+    version: 1,
+    kdf,
+    cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+    ciphertext: toBase64(new Uint8Array(ciphertext))
+  };
+}
+
+let state: VaultState | null = null;
+let session: { key: CryptoKey; kdf: StoredVault['kdf'] } | null = null;
+let lockTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<() => void>();
+
+const initialState = (): VaultState => {
+  if (!isSupported()) return { status: 'unsupported', credentials: null, locksAt: null };
+  return { status: readStoredVault() ? 'locked' : 'empty', credentials: null, locksAt: null };
+};
+
+const setState = (next: VaultState) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+const armLockTimer = () => {
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = setTimeout(() => {
+    console.log('🔒 Vault: Locked after inactivity');
+    lockVault();
+  }, vaultConfig.autoLockAfterMs);
+};
+
+// Activity pushes the deadline out; throttled since wheel and key events come in bursts
+let lastActivityAt = 0;
+const handleActivity = () => {
+  if (!session || !state || state.status !== 'unlocked') return;
+  const now = Date.now();
+  if (now - lastActivityAt < 1000) return;
+  lastActivityAt = now;
+  armLockTimer();
+  setState({ ...state, locksAt: now + vaultConfig.autoLockAfterMs });
+};
+
+const startSession = (key: CryptoKey, kdf: StoredVault['kdf'], credentials: ExchangeCredentials) => {
+  session = { key, kdf };
+  ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+  armLockTimer();
+  setState({ status: 'unlocked', credentials, locksAt: Date.now() + vaultConfig.autoLockAfterMs });
+};
+
+// Another tab created, replaced or forgot the vault; unlocking stays per tab. A replaced vault (edited
+// there, or imported) locks this tab too: saving from the old session would seal over it with the old key.
+const handleStorage = (event: StorageEvent) => {
+  if (event.key !== STORAGE_KEY) return;
+  if (!event.newValue) {
+    forgetVault();
+  } else if (state?.status === 'empty') {
+    setState({ status: 'locked', credentials: null, locksAt: null });
+  } else if (state?.status === 'unlocked' && event.newValue !== event.oldValue) {
+    console.log('🔒 Vault: Changed in another tab, locking');
+    lockVault();
+  }
+};
+
+export function getVaultState(): VaultState {
+  if (!state) {
+    state = initialState();
+  }
+  return state;
+}
+
+const serverVaultState: VaultState = { status: 'unsupported', credentials: null, locksAt: null };
+export const getServerVaultState = () => serverVaultState;
+
+export function subscribeVault(listener: () => void): () => void {
+  if (listeners.size === 0 && typeof window !== 'undefined') {
+    window.addEventListener('storage', handleStorage);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && typeof window !== 'undefined') {
+      window.removeEventListener('storage', handleStorage);
+    }
+  };
+}
+
+/**
+ * Encrypts the credentials under a new passphrase, replacing any existing vault, and leaves it unlocked.
+ */
+export async function createVault(passphrase: string, credentials: ExchangeCredentials): Promise<void> {
+  if (passphrase.length < vaultConfig.minPassphraseLength) {
+    throw new Error(`Passphrase must be at least ${vaultConfig.minPassphraseLength} characters`);
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const kdf: StoredVault['kdf'] = { name: 'PBKDF2', hash: 'SHA-256', iterations: vaultConfig.pbkdf2Iterations, salt: toBase64(salt) };
+  const key = await deriveKey(passphrase, salt, kdf.iterations);
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(await seal(credentials, key, kdf)));
+
+  console.log('🔐 Vault: Created');
+  startSession(key, kdf, credentials);
+}
+
+/**
+ * Decrypts the stored vault for this tab. A wrong passphrase fails AES-GCM authentication and
+ * surfaces as an error rather than garbage credentials.
+ */
+export async function unlockVault(passphrase: string): Promise<void> {
+  const stored = readStoredVault();
+  if (!stored) throw new Error('No credential vault has been created');
+
+  const key = await deriveKey(passphrase, fromBase64(stored.kdf.salt), stored.kdf.iterations);
+  let plaintext: ArrayBuffer;
+  try {
+    plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(stored.cipher.iv) as BufferSource },
+      key,
+      fromBase64(stored.ciphertext) as BufferSource
+    );
+  } catch {
+    throw new Error('Wrong passphrase');
+  }
+
+  const decoded = JSON.parse(new TextDecoder().decode(plaintext)) as Partial<ExchangeCredentials>;
+  console.log('🔓 Vault: Unlocked');
+  startSession(key, stored.kdf, {
+    backend: { ...emptyCredentials.backend, ...decoded.backend },
+    bybit: { ...emptyCredentials.bybit, ...decoded.bybit },
+    hyperliquid: { ...emptyCredentials.hyperliquid, ...decoded.hyperliquid }
+  });
+}
+
+// Re-encrypts edited credentials with the key from the current unlock
+export async function updateVault(credentials: ExchangeCredentials): Promise<void> {
+  if (!session || state?.status !== 'unlocked') throw new Error('Unlock the vault first');
+
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(await seal(credentials, session.key, session.kdf)));
+  console.log('🔐 Vault: Credentials updated');
+  armLockTimer();
+  setState({ status: 'unlocked', credentials, locksAt: Date.now() + vaultConfig.autoLockAfterMs });
+}
+
+export function lockVault(): void {
+  if (lockTimer) clearTimeout(lockTimer);
+  lockTimer = null;
+  session = null;
+  if (typeof window !== 'undefined') {
+    ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+  }
+  if (getVaultState().status === 'unlocked') {
+    setState({ status: 'locked', credentials: null, locksAt: null });
+  }
+}
+
+// Deletes the encrypted vault, e.g. after a forgotten passphrase
+export function forgetVault(): void {
+  lockVault();
+  window.localStorage.removeItem(STORAGE_KEY);
+  if (getVaultState().status !== 'unsupported') {
+    setState({ status: 'empty', credentials: null, locksAt: null });
+  }
+}
+
+// Every request carrying secrets goes through here: it needs an unlocked vault, a backend token and
+// TLS unless the backend runs on this machine, so secrets never go out unauthenticated or in the clear
+async function postCredentials(path: string, settings: ConnectionSettings, signal?: AbortSignal) {
+  const credentials = getVaultState().credentials;
+  if (!credentials) throw new Error('Unlock the vault first');
+
+  if (!settings.api.secure && !isLoopback(settings.api.host.trim())) {
+    throw new Error(`Refusing to send credentials to ${settings.api.host.trim()} without TLS; enable https for the API`);
+  }
+
+  const token = credentials.backend.api_token.trim();
+  if (!token) throw new Error('A backend access token is required to send credentials');
+
+  const response = await fetch(`${apiBaseUrl(settings)}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${token}`,
+    },
+    // The profile decides which network the keys are for
+    body: JSON.stringify({
+      bybit: { ...credentials.bybit, testnet: settings.bybit.testnet },
+      hyperliquid: { ...credentials.hyperliquid, testnet: settings.hyperliquid.testnet }
+    }),
+    credentials: 'omit',
+    cache: 'no-store',
+    signal,
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(result.message || `Backend rejected credentials (HTTP ${response.status})`);
+  }
+  return result;
+}
+
+/**
+ * Sends the unlocked credentials to the active profile's backend for trading. Together with
+ * verifyCredentialsWithBackend, this is the only way they leave the browser.
+ */
+export async function sendCredentialsToBackend(): Promise<BackendCredentialStatus> {
+  const result = await postCredentials('/credentials', getConnectionSettings());
+  return result.exchanges as BackendCredentialStatus;
+}
+
+// Asks the backend behind `settings` to try the unlocked credentials against each exchange, without storing them
+export async function verifyCredentialsWithBackend(
+  settings: ConnectionSettings,
+  signal?: AbortSignal
+): Promise<BackendCredentialVerification> {
+  const result = await postCredentials('/credentials/verify', settings, signal);
+  return result.exchanges as BackendCredentialVerification;
+}
@@ -0,0 +1,59 @@
+import { createPersistentStore, isRecord } from './persistentStore';
+
+// Which changes between consecutive arbitrage snapshots make it into the alert feed
+export interface OpportunityAlertSettings {
+  newPairs: boolean;
+  removedPairs: boolean;
+  // Funding rates in percent, as the table shows them; crossing one either way raises an alert
+  fundingThresholdsPct: number[];
+  // Ignore pairs that can't be hedged on Bybit spot
+  bybitAvailableOnly: boolean;
+}
+
+export const defaultOpportunityAlertSettings: OpportunityAlertSettings = {
+  newPairs: true,
+  removedPairs: true,
+  fundingThresholdsPct: [0.01],
+  bybitAvailableOnly: false
+};
+
+// More than this and every tick would cross something
+const MAX_THRESHOLDS = 10;
+
+const normalizeOpportunityAlertSettings = (value: unknown): OpportunityAlertSettings | null => {
+  if (!isRecord(value)) return null;
+  const settings = { ...defaultOpportunityAlertSettings, ...value };
+  const thresholds = settings.fundingThresholdsPct;
+  const valid =
+    typeof settings.newPairs === 'boolean' &&
+    typeof settings.removedPairs === 'boolean' &&
+    typeof settings.bybitAvailableOnly === 'boolean' &&
+    Array.isArray(thresholds) &&
+    thresholds.length <= MAX_THRESHOLDS &&
+    thresholds.every(threshold => typeof threshold === 'number' && Number.isFinite(threshold));
+  return valid
+    ? {
+      newPairs: settings.newPairs,
+      removedPairs: settings.removedPairs,
+      fundingThresholdsPct: Array.from(new Set(thresholds as number[])).sort((a, b) => a - b),
+      bybitAvailableOnly: settings.bybitAvailableOnly
+    }
+    : null;
+};
+
+export const opportunityAlertsStore = createPersistentStore<OpportunityAlertSettings>({
+  key: 'arbitrage-dashboard:opportunity-alerts',
+  defaults: defaultOpportunityAlertSettings,
+  normalize: normalizeOpportunityAlertSettings
+});
+
+/**
+ * Parses a comma-separated list of percentages from the settings input. Returns null when any
+ * entry isn't a number or there are too many.
+ */
+export function parseThresholds(text: string): number[] | null {
+  const parts = text.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length > MAX_THRESHOLDS) return null;
+  const values = parts.map(Number);
+  return values.every(Number.isFinite) ? values : null;
+}
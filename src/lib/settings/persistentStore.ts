@@ -0,0 +1,81 @@
+// Small localStorage-backed store for UI preferences, shaped for useSyncExternalStore. Values are
+// normalized on every read so an outdated or hand-edited entry falls back to the defaults instead
+// of breaking the component, and writes from other tabs arrive through storage events.
+
+export interface PersistentStore<T> {
+  get: () => T;
+  // Snapshot used during server rendering and hydration
+  getServer: () => T;
+  set: (update: T | ((current: T) => T)) => void;
+  subscribe: (listener: () => void) => () => void;
+  // Returns the value as this store would accept it, or null when it can't be used
+  normalize: (value: unknown) => T | null;
+}
+
+interface PersistentStoreOptions<T> {
+  key: string;
+  defaults: T;
+  normalize: (value: unknown) => T | null;
+}
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function createPersistentStore<T>({ key, defaults, normalize }: PersistentStoreOptions<T>): PersistentStore<T> {
+  let current: T | null = null;
+  const listeners = new Set<() => void>();
+
+  const read = (): T => {
+    if (typeof window === 'undefined') return defaults;
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? normalize(JSON.parse(raw)) ?? defaults : defaults;
+    } catch {
+      return defaults;
+    }
+  };
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key) return;
+    current = read();
+    listeners.forEach(listener => listener());
+  };
+
+  const get = () => {
+    if (current === null) {
+      current = read();
+    }
+    return current;
+  };
+
+  return {
+    get,
+    getServer: () => defaults,
+    set: (update) => {
+      const next = typeof update === 'function' ? (update as (current: T) => T)(get()) : update;
+      if (Object.is(next, current)) return;
+
+      current = next;
+      try {
+        window.localStorage.setItem(key, JSON.stringify(next));
+      } catch (err) {
+        console.warn(`⚠️ Settings: Could not persist ${key}:`, err);
+      }
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      if (listeners.size === 0 && typeof window !== 'undefined') {
+        window.addEventListener('storage', handleStorage);
+      }
+      listeners.add(listener);
+
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0 && typeof window !== 'undefined') {
+          window.removeEventListener('storage', handleStorage);
+        }
+      };
+    },
+    normalize
+  };
+}
@@ -0,0 +1,149 @@
+import { FUNDING_COLUMN_IDS, type FundingColumnId, type SortKey } from '../fundingTable/columns';
+import { createPersistentStore, isRecord } from './persistentStore';
+
+export type PairAvailabilityFilter = 'all' | 'available' | 'unavailable';
+
+export interface FundingTablePreferences {
+  // Visible columns, in display order; always includes the pair column
+  columns: FundingColumnId[];
+  sortField: SortKey['field'];
+  sortDirection: SortKey['direction'];
+  // Breaks ties in the primary sort; never the same column
+  secondarySort: SortKey | null;
+  filterBybitAvailable: PairAvailabilityFilter;
+  // 0 shows every pair on one page
+  pairsPerPage: number;
+  starredOnly: boolean;
+}
+
+export const defaultFundingTablePreferences: FundingTablePreferences = {
+  columns: FUNDING_COLUMN_IDS,
+  sortField: 'funding_rate',
+  sortDirection: 'desc',
+  secondarySort: null,
+  filterBybitAvailable: 'all',
+  pairsPerPage: 10,
+  starredOnly: false
+};
+
+const SORT_FIELDS = FUNDING_COLUMN_IDS;
+const PAGE_SIZES = [0, 10, 25, 50, 100];
+
+// Rows are identified by their pair, so that column can't be hidden
+export const REQUIRED_COLUMN: FundingColumnId = 'pair';
+
+// Drops unknown or repeated ids, e.g. columns a newer build added, and puts back the pair column
+const normalizeColumns = (value: unknown): FundingColumnId[] | null => {
+  if (!Array.isArray(value)) return null;
+  const columns = Array.from(new Set(value.filter((id): id is FundingColumnId => SORT_FIELDS.includes(id))));
+  return columns.includes(REQUIRED_COLUMN) ? columns : [REQUIRED_COLUMN, ...columns];
+};
+
+const isSortDirection = (value: unknown): value is SortKey['direction'] => value === 'asc' || value === 'desc';
+
+const normalizeSecondarySort = (value: unknown, primary: unknown): SortKey | null | undefined => {
+  if (value === null) return null;
+  if (!isRecord(value) || !SORT_FIELDS.includes(value.field as SortKey['field']) || !isSortDirection(value.direction)) {
+    return undefined;
+  }
+  // A secondary key on the primary column would never apply
+  return value.field === primary ? null : { field: value.field as SortKey['field'], direction: value.direction };
+};
+
+const normalizeFundingTablePreferences = (value: unknown): FundingTablePreferences | null => {
+  if (!isRecord(value)) return null;
+  // Preferences saved before secondary sorting or column choice existed get the defaults for those
+  const prefs = { ...defaultFundingTablePreferences, ...value };
+  const secondarySort = normalizeSecondarySort(prefs.secondarySort, prefs.sortField);
+  const columns = normalizeColumns(prefs.columns);
+  const valid =
+    columns !== null &&
+    SORT_FIELDS.includes(prefs.sortField) &&
+    isSortDirection(prefs.sortDirection) &&
+    secondarySort !== undefined &&
+    ['all', 'available', 'unavailable'].includes(prefs.filterBybitAvailable) &&
+    PAGE_SIZES.includes(prefs.pairsPerPage) &&
+    typeof prefs.starredOnly === 'boolean';
+  return valid
+    ? {
+      columns: columns!,
+      sortField: prefs.sortField,
+      sortDirection: prefs.sortDirection,
+      secondarySort: secondarySort ?? null,
+      filterBybitAvailable: prefs.filterBybitAvailable,
+      pairsPerPage: prefs.pairsPerPage,
+      starredOnly: prefs.starredOnly
+    }
+    : null;
+};
+
+export const fundingTablePreferencesStore = createPersistentStore<FundingTablePreferences>({
+  key: 'arbitrage-dashboard:funding-table-preferences',
+  defaults: defaultFundingTablePreferences,
+  normalize: normalizeFundingTablePreferences
+});
+
+// A named snapshot of the table's layout and controls, applied from the views dropdown
+export interface FundingTableView {
+  id: string;
+  name: string;
+  columns: FundingColumnId[];
+  searchTerm: string;
+  filterBybitAvailable: PairAvailabilityFilter;
+  sortField: SortKey['field'];
+  sortDirection: SortKey['direction'];
+  secondarySort: SortKey | null;
+  pairsPerPage: number;
+}
+
+export interface FundingTableViews {
+  views: FundingTableView[];
+}
+
+const MAX_VIEWS = 30;
+
+const normalizeFundingTableView = (value: unknown): FundingTableView | null => {
+  if (!isRecord(value)) return null;
+  const { id, name, searchTerm } = value;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name.trim() || typeof searchTerm !== 'string') return null;
+  // Views share every rule with the live preferences
+  const prefs = normalizeFundingTablePreferences({ ...value, starredOnly: false });
+  if (!prefs) return null;
+  return {
+    id,
+    name: name.trim(),
+    columns: prefs.columns,
+    searchTerm,
+    filterBybitAvailable: prefs.filterBybitAvailable,
+    sortField: prefs.sortField,
+    sortDirection: prefs.sortDirection,
+    secondarySort: prefs.secondarySort,
+    pairsPerPage: prefs.pairsPerPage
+  };
+};
+
+const normalizeFundingTableViews = (value: unknown): FundingTableViews | null => {
+  if (!isRecord(value) || !Array.isArray(value.views) || value.views.length > MAX_VIEWS) return null;
+  const views = value.views.map(normalizeFundingTableView);
+  if (views.some(view => view === null)) return null;
+  return new Set(views.map(view => view!.id)).size === views.length ? { views: views as FundingTableView[] } : null;
+};
+
+export const fundingTableViewsStore = createPersistentStore<FundingTableViews>({
+  key: 'arbitrage-dashboard:funding-table-views',
+  defaults: { views: [] },
+  normalize: normalizeFundingTableViews
+});
+
+// Adds the view, or replaces the one with the same id
+export function saveFundingTableView(view: FundingTableView): void {
+  fundingTableViewsStore.set(({ views }) => ({
+    views: views.some(existing => existing.id === view.id)
+      ? views.map(existing => (existing.id === view.id ? view : existing))
+      : [...views, view]
+  }));
+}
+
+export function deleteFundingTableView(id: string): void {
+  fundingTableViewsStore.set(({ views }) => ({ views: views.filter(view => view.id !== id) }));
+}
@@ -0,0 +1,24 @@
+import { createPersistentStore, isRecord } from './persistentStore';
+
+export interface Watchlist {
+  // Pair symbols as sent by the backend, e.g. "BTC/USDT"
+  starred: string[];
+}
+
+const normalizeWatchlist = (value: unknown): Watchlist | null => {
+  if (!isRecord(value) || !Array.isArray(value.starred)) return null;
+  if (!value.starred.every(pair => typeof pair === 'string')) return null;
+  return { starred: Array.from(new Set(value.starred as string[])) };
+};
+
+export const watchlistStore = createPersistentStore<Watchlist>({
+  key: 'arbitrage-dashboard:watchlist',
+  defaults: { starred: [] },
+  normalize: normalizeWatchlist
+});
+
+export function toggleStarredPair(pair: string): void {
+  watchlistStore.set(({ starred }) => ({
+    starred: starred.includes(pair) ? starred.filter(p => p !== pair) : [...starred, pair]
+  }));
+}
@@ -0,0 +1,26 @@
+/**
+ * Runs `task` for every item with at most `limit` running at once. Results keep the input order;
+ * `onSettled` fires as each one finishes, for progress. Tasks are expected to report failures as
+ * values (like TradingResult) rather than reject.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<R>,
+  onSettled?: (item: T, result: R) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      const result = await task(items[index]);
+      results[index] = result;
+      onSettled?.(items[index], result);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
@@ -0,0 +1,221 @@
+import type { ExchangeName, ExecutionUpdate } from '../websocket/protocol';
+import type { OrderAction, PendingOrder } from './pendingOrders';
+
+// Trade lifecycles for the Executions panel, derived from the requests this tab sent and the
+// per-leg updates the backend streams for every request (including ones sent elsewhere):
+//
+//   submitted → opening → active → closing → closed
+//                  ↘          ↘        ↘
+//                              failed
+//
+// A lifecycle starts with an open and collects the closes and adds for its symbol until it is closed. Closes
+// for positions opened before this page loaded start their own lifecycle at `closing`.
+
+export type ExecutionState = 'submitted' | 'opening' | 'active' | 'closing' | 'closed' | 'failed';
+
+export interface ExecutionTransition {
+  state: ExecutionState;
+  at: number;
+  detail: string | null;
+}
+
+export interface LegEvent {
+  requestKey: string;
+  action: OrderAction;
+  leg: ExchangeName;
+  side: 'buy' | 'sell';
+  status: ExecutionUpdate['status'];
+  price: number | null;
+  quantity: number | null;
+  fee: number | null;
+  error: string | null;
+  at: number;
+}
+
+export interface Execution {
+  // Key of the request that started the lifecycle
+  id: string;
+  symbol: string;
+  // USDT requested by the opening request; null when it started with a close
+  amount: number | null;
+  state: ExecutionState;
+  transitions: ExecutionTransition[];
+  legs: LegEvent[];
+  // Set while a request is still waiting for its outcome
+  awaiting: string | null;
+  updatedAt: number;
+}
+
+const LEGS: ExchangeName[] = ['bybit', 'hyperliquid'];
+const LEG_LABELS: Record<ExchangeName, string> = { bybit: 'Bybit', hyperliquid: 'HyperLiquid' };
+
+interface Request {
+  key: string;
+  action: OrderAction;
+  symbol: string;
+  amount: number | null;
+  submittedAt: number;
+  order: PendingOrder | null;
+  updates: LegEvent[];
+}
+
+const toLegEvent = (update: ExecutionUpdate): LegEvent => ({
+  requestKey: update.client_order_id,
+  action: update.action,
+  leg: update.leg,
+  side: update.side,
+  status: update.status,
+  price: update.price ?? null,
+  quantity: update.quantity ?? null,
+  fee: update.fee ?? null,
+  error: update.error ?? null,
+  at: Date.parse(update.time)
+});
+
+const collectRequests = (orders: PendingOrder[], updates: ExecutionUpdate[]): Request[] => {
+  const requests = new Map<string, Request>();
+  orders.forEach(order => {
+    requests.set(order.key, {
+      key: order.key,
+      action: order.action,
+      symbol: order.symbol,
+      amount: order.amount,
+      submittedAt: order.submittedAt,
+      order,
+      updates: []
+    });
+  });
+
+  updates.forEach(update => {
+    const event = toLegEvent(update);
+    let request = requests.get(update.client_order_id);
+    if (!request) {
+      // Sent from another tab or by automation; the backend's updates are all there is
+      request = {
+        key: update.client_order_id,
+        action: update.action,
+        symbol: update.symbol,
+        amount: update.requested ?? null,
+        submittedAt: event.at,
+        order: null,
+        updates: []
+      };
+      requests.set(request.key, request);
+    }
+    request.updates.push(event);
+  });
+
+  return Array.from(requests.values()).sort((a, b) => a.submittedAt - b.submittedAt);
+};
+
+const moveTo = (execution: Execution, state: ExecutionState, at: number, detail: string | null = null) => {
+  const last = execution.transitions[execution.transitions.length - 1];
+  if (last && last.state === state && last.detail === detail) return;
+  execution.transitions.push({ state, at, detail });
+  execution.state = state;
+  execution.updatedAt = Math.max(execution.updatedAt, at);
+};
+
+// Applies one request's leg updates and outcome to its lifecycle
+const applyRequest = (execution: Execution, request: Request) => {
+  const { order, updates } = request;
+  const isOpen = request.action === 'open';
+  execution.legs.push(...updates);
+  execution.awaiting = null;
+
+  if (updates.length > 0 && isOpen) {
+    moveTo(execution, 'opening', updates[0].at);
+  }
+
+  const finalByLeg = new Map(updates.filter(update => update.status !== 'submitted').map(update => [update.leg, update]));
+  const rejected = LEGS.map(leg => finalByLeg.get(leg)).find(update => update?.status === 'rejected');
+  const filled = LEGS.filter(leg => finalByLeg.get(leg)?.status === 'filled');
+  const lastAt = Math.max(request.submittedAt, ...updates.map(update => update.at));
+  const settledAt = order?.settledAt ?? lastAt;
+
+  if (rejected) {
+    const unhedged = filled.length > 0 ? `; ${LEG_LABELS[filled[0]]} leg filled and is unhedged` : '';
+    moveTo(execution, 'failed', rejected.at, `${LEG_LABELS[rejected.leg]} leg rejected: ${rejected.error ?? 'no reason given'}${unhedged}`);
+    return;
+  }
+
+  // A partial fill still leaves a hedged (smaller) position
+  const partial = order?.error?.kind === 'partial_fill' ? `Partially filled: ${order.error.message}` : null;
+  const succeeded = filled.length === LEGS.length || order?.status === 'done' || partial !== null;
+  if (succeeded) {
+    const at = filled.length === LEGS.length ? lastAt : settledAt;
+    if (isOpen) {
+      const added = execution.transitions.some(transition => transition.state === 'active') ? `Added ${request.amount} USDT` : null;
+      moveTo(execution, 'active', at, partial ?? added);
+    } else if ((request.amount ?? 100) >= 100) {
+      moveTo(execution, 'closed', at);
+    } else {
+      moveTo(execution, 'active', at, `Reduced by ${request.amount}%`);
+    }
+    return;
+  }
+
+  if (order?.status === 'failed') {
+    const reason = order.error?.message ?? 'Request failed';
+    // A close or add that never reached the exchanges leaves the position as it was
+    const hadPosition = execution.transitions.some(transition => transition.state === 'active');
+    const detail = !isOpen ? `Close failed: ${reason}` : hadPosition ? `Add failed: ${reason}` : reason;
+    moveTo(execution, hadPosition ? 'active' : 'failed', settledAt, detail);
+    return;
+  }
+
+  execution.awaiting = order?.status === 'unknown'
+    ? 'Outcome unknown; waiting for live positions'
+    : updates.length > 0 ? 'Waiting for fills' : 'Waiting for the backend';
+};
+
+/**
+ * Builds every lifecycle from scratch, newest activity first. Cheap enough to run on each update:
+ * both inputs are capped.
+ */
+export function buildExecutions(orders: PendingOrder[], updates: ExecutionUpdate[]): Execution[] {
+  const executions: Execution[] = [];
+  // Lifecycles per symbol that a close or add may still attach to
+  const open = new Map<string, Execution>();
+
+  collectRequests(orders, updates).forEach(request => {
+    const current = open.get(request.symbol);
+    // Closes and adds to an active position continue its lifecycle; anything else starts a new one
+    const adding = request.action === 'open' && current?.state === 'active';
+    let execution = request.action === 'close' || adding ? current : undefined;
+    if (!execution) {
+      execution = {
+        id: request.key,
+        symbol: request.symbol,
+        amount: request.action === 'open' ? request.amount : null,
+        state: 'submitted',
+        transitions: [],
+        legs: [],
+        awaiting: null,
+        updatedAt: request.submittedAt
+      };
+      executions.push(execution);
+      if (request.action === 'open') {
+        moveTo(execution, 'submitted', request.submittedAt);
+      }
+    }
+    if (request.action === 'close') {
+      moveTo(execution, 'closing', request.submittedAt);
+    } else if (adding) {
+      execution.amount = (execution.amount ?? 0) + (request.amount ?? 0);
+      moveTo(execution, 'opening', request.submittedAt);
+    }
+
+    applyRequest(execution, request);
+
+    const hasPosition = execution.state !== 'closed' &&
+      (execution.state !== 'failed' || execution.legs.some(leg => leg.status === 'filled'));
+    if (hasPosition) {
+      open.set(request.symbol, execution);
+    } else if (open.get(request.symbol) === execution) {
+      open.delete(request.symbol);
+    }
+  });
+
+  return executions.sort((a, b) => b.updatedAt - a.updatedAt);
+}
@@ -0,0 +1,158 @@
+import type { Position } from '../websocket/protocol';
+import type { TradingError } from './tradingErrors';
+
+// Opens and closes this dashboard has sent, keyed by the idempotency key that went with them. A pair
+// stays locked while one of its requests is in flight or has an unknown outcome (e.g. it timed out);
+// unknown requests are settled once an active_positions update lists their key, or by sending them
+// again with the same key, which the backend answers without trading twice.
+//
+// The list lives in this tab's memory only: a reload forgets it and other tabs never see it. A request
+// whose outcome was unknown at reload is no longer tracked or locked; its result still shows up in
+// the positions and the Executions panel, but nothing stops a second request for that pair.
+
+export type OrderAction = 'open' | 'close';
+
+export type OrderStatus = 'in_flight' | 'unknown' | 'done' | 'failed';
+
+export interface PendingOrder {
+  key: string;
+  action: OrderAction;
+  pair: string;
+  symbol: string;
+  // USDT for opens, percent of the position for closes
+  amount: number;
+  submittedAt: number;
+  status: OrderStatus;
+  settledAt: number | null;
+  error: TradingError | null;
+  // How the outcome became known
+  resolvedBy: 'response' | 'positions' | 'resend' | null;
+}
+
+// Settled orders kept around for display
+const MAX_SETTLED_ORDERS = 50;
+
+const NO_ORDERS: PendingOrder[] = [];
+
+let orders: PendingOrder[] = NO_ORDERS;
+const listeners = new Set<() => void>();
+
+const setOrders = (next: PendingOrder[]) => {
+  const settled = next.filter(order => order.status === 'done' || order.status === 'failed');
+  const dropped = new Set(settled.slice(0, Math.max(0, settled.length - MAX_SETTLED_ORDERS)).map(order => order.key));
+  orders = dropped.size > 0 ? next.filter(order => !dropped.has(order.key)) : next;
+  listeners.forEach(listener => listener());
+};
+
+const updateOrder = (key: string, update: (order: PendingOrder) => PendingOrder) => {
+  setOrders(orders.map(order => (order.key === key ? update(order) : order)));
+};
+
+export const symbolOf = (pair: string) => pair.split('/')[0];
+
+const isUnsettled = (order: PendingOrder) => order.status === 'in_flight' || order.status === 'unknown';
+
+/**
+ * A fresh idempotency key. Falls back to getRandomValues where randomUUID is missing, which
+ * browsers do for pages served over plain http from anywhere but localhost.
+ */
+export function createIdempotencyKey(): string {
+  if (typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function getPendingOrders(): PendingOrder[] {
+  return orders;
+}
+
+export function getServerPendingOrders(): PendingOrder[] {
+  return NO_ORDERS;
+}
+
+export function subscribePendingOrders(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Symbols with a request in flight or an unknown outcome; nothing new may be sent for them
+export function lockedSymbols(list: PendingOrder[]): Set<string> {
+  return new Set(list.filter(isUnsettled).map(order => order.symbol));
+}
+
+/**
+ * Registers a new request and returns it with its idempotency key, or null when the pair is
+ * locked by an earlier one.
+ */
+export function beginOrder(action: OrderAction, pair: string, amount: number): PendingOrder | null {
+  const symbol = symbolOf(pair);
+  if (lockedSymbols(orders).has(symbol)) return null;
+
+  const order: PendingOrder = {
+    key: createIdempotencyKey(),
+    action,
+    pair,
+    symbol,
+    amount,
+    submittedAt: Date.now(),
+    status: 'in_flight',
+    settledAt: null,
+    error: null,
+    resolvedBy: null
+  };
+  setOrders([...orders, order]);
+  return order;
+}
+
+// Marks an unknown order as in flight again before it is resent with the same key
+export function resendOrder(key: string): PendingOrder | null {
+  const order = orders.find(candidate => candidate.key === key);
+  if (!order || order.status !== 'unknown') return null;
+  updateOrder(key, current => ({ ...current, status: 'in_flight', error: null }));
+  return order;
+}
+
+export function settleOrder(
+  key: string,
+  status: OrderStatus,
+  error: TradingError | null,
+  resolvedBy: PendingOrder['resolvedBy']
+): void {
+  updateOrder(key, order => ({
+    ...order,
+    status,
+    error,
+    resolvedBy: status === 'unknown' ? null : resolvedBy,
+    settledAt: status === 'unknown' ? null : Date.now()
+  }));
+}
+
+/**
+ * Settles unknown orders against a live active_positions update received at `receivedAt`: a position
+ * listing the key means it went through, and a close whose position is gone went through as well.
+ * Orders sent after the update can't be reflected in it and are left alone.
+ */
+export function reconcileOrders(positions: Position[], receivedAt: number): void {
+  const unknown = orders.filter(order => order.status === 'unknown' && order.submittedAt <= receivedAt);
+  if (unknown.length === 0) return;
+
+  const seenKeys = new Set(positions.flatMap(position => position.client_order_ids ?? []));
+  const openSymbols = new Set(positions.map(position => position.symbol));
+  const done = unknown.filter(order =>
+    seenKeys.has(order.key) || (order.action === 'close' && !openSymbols.has(order.symbol))
+  );
+  if (done.length === 0) return;
+
+  const doneKeys = new Set(done.map(order => order.key));
+  done.forEach(order => console.log(`🧾 Orders: ${order.action} ${order.pair} (${order.key}) confirmed by active positions`));
+  setOrders(orders.map(order => (doneKeys.has(order.key)
+    ? { ...order, status: 'done', settledAt: Date.now(), resolvedBy: 'positions' }
+    : order)));
+}
+
+// Forgets an order, e.g. an unknown one the user has checked by hand; unlocks its pair
+export function dismissOrder(key: string): void {
+  setOrders(orders.filter(order => order.key !== key));
+}
@@ -0,0 +1,137 @@
+import { tradingConfig } from '../../config/trading';
+import type { ArbitragePair, Position } from '../websocket/protocol';
+
+// What a position would look like after a reduce, add or leverage change, for the modify dialog.
+// Prices come from the live quote when there is one (falling back to entry prices) and fees from
+// the configured estimates, so the numbers are a guide rather than what the exchanges will charge.
+
+export type PositionModification =
+  | { kind: 'reduce'; percentage: number }
+  | { kind: 'add'; amount: number }
+  | { kind: 'leverage'; leverage: number };
+
+export interface PositionFigures {
+  // Bybit spot quantity and HyperLiquid short size
+  bybitQty: number;
+  hyperliquidSize: number;
+  notional: number;
+  hyperliquidEntry: number;
+  leverage: number;
+  marginUsed: number;
+  liquidationPrice: number;
+  // How far the mark price can rise before the short is liquidated
+  liquidationDistancePct: number;
+}
+
+export interface ModificationPreview {
+  before: PositionFigures;
+  after: PositionFigures;
+  // Estimated trading fees for the change itself
+  fees: number;
+  // Estimated PnL realized by a reduce, after fees
+  realizedPnl: number | null;
+  // Why the change can't be sent as entered; null when it can
+  problem: string | null;
+}
+
+const { fees: FEES, hyperliquid: HL } = tradingConfig.estimates;
+
+// Isolated short: liquidated once the mark rises past entry by the margin less the maintenance requirement
+const liquidationPriceOf = (entry: number, leverage: number) =>
+  entry > 0 ? entry * (1 + 1 / leverage - HL.maintenanceMargin) : 0;
+
+const prices = (position: Position, quote: ArbitragePair | null) => ({
+  bybitBid: quote?.bybit.bid || position.bybit.entry_price,
+  bybitAsk: quote?.bybit.ask || position.bybit.entry_price,
+  hyperliquidBid: quote?.hyperliquid.bid || position.hyperliquid.entry_price,
+  // The mock and HyperLiquid both mark shorts against the ask side closely enough for a preview
+  hyperliquidMark: quote?.hyperliquid.ask || position.hyperliquid.entry_price
+});
+
+const figures = (bybitQty: number, bybitEntry: number, size: number, entry: number, leverage: number, mark: number): PositionFigures => {
+  const liquidationPrice = size > 0 ? liquidationPriceOf(entry, leverage) : 0;
+  return {
+    bybitQty,
+    hyperliquidSize: size,
+    notional: bybitQty * bybitEntry || size * entry,
+    hyperliquidEntry: entry,
+    leverage,
+    marginUsed: (size * mark) / leverage,
+    liquidationPrice,
+    liquidationDistancePct: liquidationPrice > 0 && mark > 0 ? ((liquidationPrice - mark) / mark) * 100 : 0
+  };
+};
+
+/**
+ * Converts a USDT amount to reduce by into the percentage the close endpoint takes, capped at 100.
+ */
+export function reducePercentageFor(position: Position, usdt: number): number {
+  if (!(position.usdt_amount > 0) || !(usdt > 0)) return 0;
+  return Math.min(100, (usdt / position.usdt_amount) * 100);
+}
+
+/**
+ * Estimated PnL from closing `percentage` of a position at the current quote, after fees.
+ */
+export function estimateRealizedPnl(position: Position, percentage: number, quote: ArbitragePair | null): { pnl: number; fees: number } {
+  const p = prices(position, quote);
+  const fraction = Math.min(100, Math.max(0, percentage)) / 100;
+  const qty = position.bybit.amount * fraction;
+  const size = position.hyperliquid.size * fraction;
+  const fees = qty * p.bybitBid * FEES.bybitSpot + size * p.hyperliquidMark * FEES.hyperliquidPerp;
+  const pnl = qty * (p.bybitBid - position.bybit.entry_price) + size * (position.hyperliquid.entry_price - p.hyperliquidMark);
+  return { pnl: pnl - fees, fees };
+}
+
+export function previewModification(
+  position: Position,
+  modification: PositionModification,
+  quote: ArbitragePair | null
+): ModificationPreview {
+  const p = prices(position, quote);
+  const { bybit, hyperliquid } = position;
+  const leverage = hyperliquid.leverage || 1;
+  const before = figures(bybit.amount, bybit.entry_price, hyperliquid.size, hyperliquid.entry_price, leverage, p.hyperliquidMark);
+
+  switch (modification.kind) {
+    case 'reduce': {
+      const { percentage } = modification;
+      const problem = !(percentage > 0) ? 'Enter how much to reduce by'
+        : percentage > 100 ? 'Cannot reduce by more than the whole position'
+        : null;
+      const keep = 1 - Math.min(100, Math.max(0, percentage)) / 100;
+      const { pnl, fees } = estimateRealizedPnl(position, percentage, quote);
+      return {
+        before,
+        after: figures(bybit.amount * keep, bybit.entry_price, hyperliquid.size * keep, hyperliquid.entry_price, leverage, p.hyperliquidMark),
+        fees,
+        realizedPnl: pnl,
+        problem
+      };
+    }
+
+    case 'add': {
+      const { amount } = modification;
+      const qty = amount > 0 ? amount / p.bybitAsk : 0;
+      const bybitEntry = bybit.amount + qty > 0 ? (bybit.entry_price * bybit.amount + p.bybitAsk * qty) / (bybit.amount + qty) : 0;
+      const entry = hyperliquid.size + qty > 0 ? (hyperliquid.entry_price * hyperliquid.size + p.hyperliquidBid * qty) / (hyperliquid.size + qty) : 0;
+      return {
+        before,
+        after: figures(bybit.amount + qty, bybitEntry, hyperliquid.size + qty, entry, leverage, p.hyperliquidMark),
+        fees: amount > 0 ? amount * FEES.bybitSpot + qty * p.hyperliquidBid * FEES.hyperliquidPerp : 0,
+        realizedPnl: null,
+        problem: amount > 0 ? null : 'Enter a USDT amount to add'
+      };
+    }
+
+    case 'leverage': {
+      const next = modification.leverage;
+      const after = figures(bybit.amount, bybit.entry_price, hyperliquid.size, hyperliquid.entry_price, next, p.hyperliquidMark);
+      const problem = !(next >= 1 && next <= HL.maxLeverage) ? `Leverage must be between 1 and ${HL.maxLeverage}`
+        : next === leverage ? 'Already at this leverage'
+        : after.liquidationPrice > 0 && after.liquidationPrice <= p.hyperliquidMark ? 'The short would be liquidated right away at this leverage'
+        : null;
+      return { before, after, fees: 0, realizedPnl: null, problem };
+    }
+  }
+}
@@ -0,0 +1,121 @@
+// Every way a trading request can fail, as one error type the panels can switch on. The backend
+// reports an `error` code with its failures; codes it doesn't document fall back to the HTTP status.
+
+export type TradingErrorKind =
+  // The backend couldn't be reached at all
+  | 'network'
+  // No response in time; for opens and closes the outcome is unknown
+  | 'timeout'
+  // Aborted by the caller, e.g. the component unmounted
+  | 'cancelled'
+  // The request itself was refused before anything was sent to an exchange
+  | 'validation'
+  // An exchange (or the backend on its behalf) refused the order; nothing was filled
+  | 'exchange_rejected'
+  // Both legs filled, but only part of the requested size
+  | 'partial_fill'
+  // One leg filled and the other didn't; the position is unhedged
+  | 'one_leg_failed'
+  // Anything else the backend reported, e.g. 5xx or auth failures
+  | 'backend';
+
+export type TradingLeg = 'bybit' | 'hyperliquid';
+
+export class TradingError extends Error {
+  constructor(
+    public kind: TradingErrorKind,
+    message: string,
+    public status: number | null = null,
+    public code: string | null = null,
+    public details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'TradingError';
+  }
+
+  get failedLeg(): TradingLeg | null {
+    return isLeg(this.details.failed_leg) ? this.details.failed_leg : null;
+  }
+
+  // Whether the same request may simply be sent again; only safe for reads
+  get retryable(): boolean {
+    return this.kind === 'network' || this.kind === 'timeout' || (this.kind === 'backend' && (this.status ?? 0) >= 500);
+  }
+}
+
+const isLeg = (value: unknown): value is TradingLeg => value === 'bybit' || value === 'hyperliquid';
+
+const CODE_KINDS: Record<string, TradingErrorKind> = {
+  INVALID_AMOUNT: 'validation',
+  INVALID_PERCENTAGE: 'validation',
+  UNKNOWN_PAIR: 'validation',
+  PAIR_NOT_ON_BYBIT: 'validation',
+  POSITION_NOT_FOUND: 'validation',
+  INVALID_LEVERAGE: 'validation',
+  LEVERAGE_TOO_HIGH: 'validation',
+  INSUFFICIENT_BALANCE: 'exchange_rejected',
+  EXCHANGE_REJECTED: 'exchange_rejected',
+  EXCHANGE_UNAVAILABLE: 'exchange_rejected',
+  PARTIAL_FILL: 'partial_fill',
+  ONE_LEG_FAILED: 'one_leg_failed',
+  IDEMPOTENCY_KEY_REUSED: 'validation'
+};
+
+/**
+ * Builds the error for a non-2xx response from its decoded body (or null when the body
+ * wasn't JSON).
+ */
+export function tradingErrorFromResponse(status: number, body: unknown): TradingError {
+  const details = typeof body === 'object' && body !== null && !Array.isArray(body) ? body as Record<string, unknown> : {};
+  const code = typeof details.error === 'string' ? details.error : null;
+  const message = typeof details.message === 'string' && details.message
+    ? details.message
+    : code ?? `Request failed with HTTP ${status}`;
+
+  const kind: TradingErrorKind = (code ? CODE_KINDS[code] : undefined)
+    ?? (status === 400 || status === 404 || status === 422 ? 'validation' : 'backend');
+  return new TradingError(kind, message, status, code, details);
+}
+
+export const asTradingError = (err: unknown): TradingError =>
+  err instanceof TradingError ? err : new TradingError('backend', err instanceof Error ? err.message : String(err));
+
+const LEG_LABELS: Record<TradingLeg, string> = { bybit: 'Bybit', hyperliquid: 'HyperLiquid' };
+
+export interface TradingErrorDescription {
+  title: string;
+  // What the user should do next, when there is something beyond reading the message
+  hint: string | null;
+  // 'warning' when something was filled and needs attention rather than nothing having happened
+  severity: 'error' | 'warning';
+}
+
+export function describeTradingError(error: TradingError): TradingErrorDescription {
+  switch (error.kind) {
+    case 'network':
+      return { title: 'Backend Unreachable', hint: 'Nothing was sent. Check the connection and try again.', severity: 'error' };
+    case 'timeout':
+      return { title: 'No Response', hint: 'The request may still have gone through. Check Active Positions before retrying.', severity: 'error' };
+    case 'cancelled':
+      return { title: 'Cancelled', hint: null, severity: 'error' };
+    case 'validation':
+      return { title: 'Request Rejected', hint: null, severity: 'error' };
+    case 'exchange_rejected':
+      return { title: 'Rejected by Exchange', hint: 'No orders were filled.', severity: 'error' };
+    case 'partial_fill':
+      return { title: 'Partially Filled', hint: 'Both legs hold the filled part; the rest was not executed.', severity: 'warning' };
+    case 'one_leg_failed': {
+      const failed = error.failedLeg;
+      const filled = failed === 'bybit' ? 'hyperliquid' : failed === 'hyperliquid' ? 'bybit' : null;
+      return {
+        title: failed ? `${LEG_LABELS[failed]} Leg Failed` : 'One Leg Failed',
+        hint: filled
+          ? `The ${LEG_LABELS[filled]} leg went through and is unhedged. Close it or rebalance from Active Positions.`
+          : 'The position is unhedged. Check Active Positions.',
+        severity: 'warning'
+      };
+    }
+    case 'backend':
+      return { title: 'Backend Error', hint: null, severity: 'error' };
+  }
+}
@@ -0,0 +1,97 @@
+import { tradingConfig } from '../../config/trading';
+import { getReconnectDelay } from '../websocket/backoff';
+import { TradingError, tradingErrorFromResponse } from './tradingErrors';
+
+// fetch for the trading REST API: every request gets a timeout, failures come back as TradingError,
+// and reads are retried with backoff. Writes are sent exactly once.
+
+interface TradingRequestOptions {
+  method?: 'GET' | 'POST';
+  body?: unknown;
+  // Sent as the Idempotency-Key header on opens and closes
+  idempotencyKey?: string;
+  timeoutMs?: number;
+  // Cancels the request (and any pending retry) from the caller's side
+  signal?: AbortSignal;
+  // Retry network errors, timeouts and 5xx; only for requests that are safe to repeat
+  retry?: boolean;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new TradingError('cancelled', 'Request was cancelled'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+async function sendOnce<T>(url: string, { method = 'GET', body, idempotencyKey, timeoutMs, signal }: TradingRequestOptions): Promise<T> {
+  const limit = timeoutMs ?? (method === 'GET' ? tradingConfig.timeouts.readMs : tradingConfig.timeouts.writeMs);
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, limit);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+  if (signal?.aborted) controller.abort();
+
+  try {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        ...(body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+        ...(idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : {})
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+      cache: 'no-store',
+      signal: controller.signal
+    });
+    const data = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw tradingErrorFromResponse(response.status, data);
+    }
+    if (data === null) {
+      throw new TradingError('backend', `${method} ${url} returned a response that is not JSON`, response.status);
+    }
+    return data as T;
+  } catch (err) {
+    if (err instanceof TradingError) throw err;
+    if (timedOut) {
+      throw new TradingError('timeout', `No response from the backend within ${Math.round(limit / 1000)}s`);
+    }
+    if (controller.signal.aborted) {
+      throw new TradingError('cancelled', 'Request was cancelled');
+    }
+    // fetch reports refused connections, DNS failures and CORS errors all as TypeError
+    throw new TradingError('network', `Could not reach the backend (${err instanceof Error ? err.message : String(err)})`);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Sends one trading API request. Resolves with the decoded JSON body; rejects with a TradingError.
+ */
+export async function tradingRequest<T>(url: string, options: TradingRequestOptions = {}): Promise<T> {
+  const attempts = options.retry ? tradingConfig.readRetry.attempts : 1;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await sendOnce<T>(url, options);
+    } catch (err) {
+      const error = err as TradingError;
+      if (!error.retryable || attempt + 1 >= attempts) throw error;
+
+      const wait = getReconnectDelay(attempt, tradingConfig.readRetry);
+      console.warn(`🔁 Trading API: ${error.message}, retrying ${url} in ${wait}ms (attempt ${attempt + 2}/${attempts})`);
+      await sleep(wait, options.signal);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import type { ArbitrageData, ArbitrageDeltaMessage, ArbitragePair } from './protocol';
+
+export type DeltaResult =
+  | { status: 'applied'; data: ArbitrageData; seq: number }
+  | { status: 'duplicate' }
+  | { status: 'gap'; expected: number | null; received: number };
+
+/**
+ * Applies an `arbitrage_delta` on top of the current snapshot. Pairs the delta does not touch
+ * keep their object identity, so memoized rows for them skip re-rendering.
+ */
+export function applyArbitrageDelta(
+  current: ArbitrageData | null,
+  currentSeq: number | null,
+  delta: ArbitrageDeltaMessage
+): DeltaResult {
+  if (!current || currentSeq === null) {
+    return { status: 'gap', expected: null, received: delta.seq };
+  }
+  if (delta.seq <= currentSeq) {
+    return { status: 'duplicate' };
+  }
+  if (delta.seq !== currentSeq + 1) {
+    return { status: 'gap', expected: currentSeq + 1, received: delta.seq };
+  }
+
+  const upserts = new Map<string, ArbitragePair>(delta.data.upserts.map(pair => [pair.pair, pair]));
+  const removals = new Set(delta.data.removals);
+
+  const pairs: ArbitragePair[] = [];
+  for (const pair of current.pairs) {
+    if (removals.has(pair.pair)) continue;
+
+    const updated = upserts.get(pair.pair);
+    if (updated) {
+      pairs.push(updated);
+      upserts.delete(pair.pair);
+    } else {
+      pairs.push(pair);
+    }
+  }
+  // Whatever is left in the map is new to this snapshot
+  pairs.push(...upserts.values());
+
+  return {
+    status: 'applied',
+    seq: delta.seq,
+    data: {
+      pairs,
+      metadata: delta.data.metadata ?? current.metadata
+    }
+  };
+}
@@ -0,0 +1,15 @@
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio: number;
+}
+
+/**
+ * Delay before reconnect attempt `attempt` (0-based): doubles from `baseDelayMs`, capped at
+ * `maxDelayMs`, then spread by +/- `jitterRatio` of itself.
+ */
+export function getReconnectDelay(attempt: number, options: BackoffOptions, random: () => number = Math.random): number {
+  const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** Math.max(0, attempt));
+  const jitter = exponential * options.jitterRatio * (random() * 2 - 1);
+  return Math.max(0, Math.round(exponential + jitter));
+}
@@ -0,0 +1,83 @@
+import { websocketConfig } from '../../config/websocket';
+import type { ExchangeName, ExchangeStatus } from './protocol';
+
+// Turns the backend's exchange_status reports into the one-line state and tooltip the sidebar shows.
+
+export const EXCHANGE_LABELS: Record<ExchangeName, string> = {
+  hyperliquid: 'HyperLiquid',
+  bybit: 'Bybit'
+};
+
+export type ExchangeHealth = 'connected' | 'degraded' | 'down' | 'unknown';
+
+export interface ExchangeStatusSummary {
+  health: ExchangeHealth;
+  text: string;
+  // One line per fact, joined into the tooltip
+  details: string[];
+}
+
+const formatAge = (ms: number) => {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return seconds < 120 ? `${seconds}s ago` : `${Math.round(seconds / 60)}m ago`;
+};
+
+const connectionLine = (label: string, connected: boolean, latencyMs?: number | null) =>
+  `${label}: ${connected ? 'connected' : 'disconnected'}${connected && typeof latencyMs === 'number' ? ` (${Math.round(latencyMs)} ms)` : ''}`;
+
+/**
+ * Summarizes one venue. `backendConnected` is the dashboard's own socket: without it the last
+ * report can't be trusted, so the venue is shown as unknown rather than as its last known state.
+ */
+export function summarizeExchangeStatus(
+  status: ExchangeStatus | undefined,
+  backendConnected: boolean,
+  now: number
+): ExchangeStatusSummary {
+  if (!backendConnected) {
+    return { health: 'unknown', text: 'Unknown', details: ['Backend connection is down; venue state unknown'] };
+  }
+  if (!status) {
+    return { health: 'unknown', text: 'Waiting...', details: ['The backend has not reported this venue yet'] };
+  }
+
+  const details = [
+    connectionLine('REST', status.rest.connected, status.rest.latency_ms),
+    connectionLine('WebSocket', status.websocket.connected)
+  ];
+
+  const lastQuoteAt = status.last_quote_at ? Date.parse(status.last_quote_at) : NaN;
+  const quoteAge = Number.isFinite(lastQuoteAt) ? now - lastQuoteAt : null;
+  details.push(`Last quote: ${quoteAge !== null ? formatAge(quoteAge) : 'none yet'}`);
+
+  const rateLimit = status.rate_limit;
+  const rateLimitRatio = rateLimit && rateLimit.limit > 0 ? rateLimit.used / rateLimit.limit : null;
+  if (rateLimit) {
+    const resetAt = rateLimit.reset_at ? Date.parse(rateLimit.reset_at) : NaN;
+    const reset = Number.isFinite(resetAt) ? `, resets in ${Math.max(0, Math.ceil((resetAt - now) / 1000))}s` : '';
+    details.push(`Rate limit: ${rateLimit.used}/${rateLimit.limit} used${reset}`);
+  }
+  if (status.error) {
+    details.push(`Error: ${status.error}`);
+  }
+
+  if (!status.rest.connected && !status.websocket.connected) {
+    return { health: 'down', text: 'Down', details };
+  }
+  if (!status.rest.connected) {
+    return { health: 'degraded', text: 'REST Down', details };
+  }
+  if (!status.websocket.connected) {
+    return { health: 'degraded', text: 'WS Down', details };
+  }
+  if (quoteAge === null || quoteAge > websocketConfig.exchanges.quoteStaleAfterMs) {
+    return { health: 'degraded', text: 'Stale Quotes', details };
+  }
+  if (rateLimitRatio !== null && rateLimitRatio >= websocketConfig.exchanges.rateLimitWarnRatio) {
+    return { health: 'degraded', text: `Rate Limit ${Math.round(rateLimitRatio * 100)}%`, details };
+  }
+  if (status.error) {
+    return { health: 'degraded', text: 'Errors', details };
+  }
+  return { health: 'connected', text: 'Connected', details };
+}
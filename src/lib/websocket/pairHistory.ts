@@ -0,0 +1,234 @@
+import { websocketConfig } from '../../config/websocket';
+import { deleteEntries, getAllEntries, isIndexedDbAvailable, putEntries } from '../persistence/indexedDb';
+import { getConnectionProfiles } from '../settings/connectionSettings';
+import type { ArbitragePair } from './protocol';
+import type { WebSocketStore } from './store';
+
+// Rolling per-pair history of funding rate, mid prices and basis, sampled from live arbitrage data.
+// Kept in memory for the sparklines and charts, and in IndexedDB so a reload keeps the last week.
+// Recent points keep full resolution; older ones are thinned so a week of history stays small.
+// Each connection profile has its own history, so series from different backends never mix.
+
+export interface HistoryPoint {
+  at: number;
+  // Same unit as ArbitragePair.funding_rate
+  fundingRate: number;
+  hyperliquidMid: number | null;
+  bybitMid: number | null;
+  // HyperLiquid mid over Bybit mid, in percent; null without a Bybit quote
+  basisPct: number | null;
+}
+
+const NO_POINTS: HistoryPoint[] = [];
+
+let series = new Map<string, HistoryPoint[]>();
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Stable until a point is added to this pair, so it can be used as a snapshot
+export function getPairHistory(pair: string): HistoryPoint[] {
+  return series.get(pair) ?? NO_POINTS;
+}
+
+export function getServerPairHistory(): HistoryPoint[] {
+  return NO_POINTS;
+}
+
+export function subscribePairHistory(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Points within the last `rangeMs`
+export function historyInRange(points: HistoryPoint[], rangeMs: number, now: number): HistoryPoint[] {
+  const from = now - rangeMs;
+  const start = points.findIndex(point => point.at >= from);
+  return start === -1 ? NO_POINTS : start === 0 ? points : points.slice(start);
+}
+
+const mid = (quote: { bid: number; ask: number }) => (quote.bid > 0 && quote.ask > 0 ? (quote.bid + quote.ask) / 2 : null);
+
+export function toHistoryPoint(pair: ArbitragePair, at: number): HistoryPoint {
+  const hyperliquidMid = mid(pair.hyperliquid);
+  const bybitMid = pair.bybit.available ? mid(pair.bybit) : null;
+  return {
+    at,
+    fundingRate: pair.funding_rate,
+    hyperliquidMid,
+    bybitMid,
+    basisPct: hyperliquidMid !== null && bybitMid !== null ? ((hyperliquidMid - bybitMid) / bybitMid) * 100 : null
+  };
+}
+
+// Drops points past retention and thins the ones past full resolution
+export function compactHistory(points: HistoryPoint[], now: number): HistoryPoint[] {
+  const { fullResolutionMs, coarseIntervalMs, retentionMs } = websocketConfig.history;
+  const keepFrom = now - retentionMs;
+  const fullFrom = now - fullResolutionMs;
+  const kept: HistoryPoint[] = [];
+  points.forEach(point => {
+    if (point.at < keepFrom) return;
+    const previous = kept[kept.length - 1];
+    if (point.at < fullFrom && previous && point.at - previous.at < coarseIntervalMs) return;
+    kept.push(point);
+  });
+  return kept.length === points.length ? points : kept;
+}
+
+// Stored as "<profile id>:<pair>"; entries from before profiles had their own history have no prefix
+const entryKey = (profileId: string, pair: string) => `${profileId}:${pair}`;
+
+// Entries of deleted profiles, and unscoped ones that can't be told apart by backend
+const orphanedKeys = (keys: string[]) => {
+  const profileIds = new Set(getConnectionProfiles().profiles.map(profile => profile.id));
+  return keys.filter(key => {
+    const separator = key.indexOf(':');
+    return separator === -1 || !profileIds.has(key.slice(0, separator));
+  });
+};
+
+const isNullableNumber = (value: unknown) => value === null || (typeof value === 'number' && Number.isFinite(value));
+
+// Stored history is written by earlier builds too; anything that doesn't look like points is skipped
+const isHistoryPoints = (value: unknown): value is HistoryPoint[] =>
+  Array.isArray(value) && value.every(point =>
+    typeof point === 'object' && point !== null &&
+    typeof point.at === 'number' && typeof point.fundingRate === 'number' &&
+    isNullableNumber(point.hyperliquidMid) && isNullableNumber(point.bybitMid) && isNullableNumber(point.basisPct));
+
+/**
+ * Loads the stored history of `profileId`, then samples every live arbitrage snapshot into it. Cached
+ * snapshots and replays are skipped: they would record old prices as if they were current. Only the
+ * leader tab writes to IndexedDB, at most once per save interval, and only the pairs that changed.
+ * Call again with the new profile on a switch; the returned cleanup saves what the old one recorded.
+ */
+export function recordPairHistory(store: WebSocketStore, profileId: string): () => void {
+  const { sampleIntervalMs, saveIntervalMs, coarseIntervalMs } = websocketConfig.history;
+  const canPersist = isIndexedDbAvailable();
+  const dirty = new Set<string>();
+  const emptied = new Set<string>();
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let lastCompactedAt = 0;
+  let previousData = store.getState().data;
+  let stopped = false;
+
+  // Whatever is in memory belongs to the previous profile
+  series = new Map();
+  notify();
+
+  const flush = () => {
+    saveTimer = null;
+    const entries: Record<string, HistoryPoint[]> = {};
+    dirty.forEach(pair => {
+      const points = series.get(pair);
+      if (points) entries[entryKey(profileId, pair)] = points;
+    });
+    const removed = Array.from(emptied, pair => entryKey(profileId, pair));
+    dirty.clear();
+    emptied.clear();
+
+    Promise.all([
+      Object.keys(entries).length > 0 ? putEntries('history', entries) : null,
+      removed.length > 0 ? deleteEntries('history', removed) : null
+    ]).catch((err) => {
+      console.warn('⚠️ Pair history: Failed to save history:', err);
+    });
+  };
+
+  const scheduleSave = () => {
+    if (!canPersist || saveTimer || store.getState().tabRole !== 'leader') return;
+    saveTimer = setTimeout(flush, saveIntervalMs);
+  };
+
+  // Thinning is cheap but touches every pair, so it runs about as often as old points become coarse
+  const compactAll = (now: number) => {
+    lastCompactedAt = now;
+    const next = new Map<string, HistoryPoint[]>();
+    series.forEach((points, pair) => {
+      const compacted = compactHistory(points, now);
+      if (compacted.length > 0) {
+        next.set(pair, compacted);
+      } else {
+        emptied.add(pair);
+      }
+      if (compacted !== points) dirty.add(pair);
+    });
+    series = next;
+  };
+
+  const sample = (pairs: ArbitragePair[], now: number) => {
+    let changed = false;
+    pairs.forEach(pair => {
+      const points = series.get(pair.pair) ?? NO_POINTS;
+      const last = points[points.length - 1];
+      if (last && now - last.at < sampleIntervalMs) return;
+      series.set(pair.pair, [...points, toHistoryPoint(pair, now)]);
+      dirty.add(pair.pair);
+      emptied.delete(pair.pair);
+      changed = true;
+    });
+    if (now - lastCompactedAt >= coarseIntervalMs) {
+      compactAll(now);
+      changed = true;
+    }
+    if (changed) {
+      notify();
+      scheduleSave();
+    }
+  };
+
+  const unsubscribe = store.subscribe(() => {
+    const state = store.getState();
+    if (state.data === previousData) return;
+    previousData = state.data;
+    if (!state.data || state.replay || state.cachedAt.data !== undefined) return;
+    sample(state.data.pairs, Date.now());
+  });
+
+  if (canPersist) {
+    getAllEntries<unknown>('history')
+      .then((stored) => {
+        if (stopped) return;
+        const prefix = entryKey(profileId, '');
+        let restored = 0;
+        // Points sampled while the database was opening are newer than anything stored
+        stored.forEach((points, key) => {
+          if (!key.startsWith(prefix)) return;
+          const pair = key.slice(prefix.length);
+          if (!isHistoryPoints(points)) {
+            console.warn(`⚠️ Pair history: Ignoring invalid stored history for ${pair}`);
+            return;
+          }
+          const live = series.get(pair) ?? NO_POINTS;
+          const firstLiveAt = live[0]?.at ?? Infinity;
+          series.set(pair, [...points.filter(point => point.at < firstLiveAt), ...live]);
+          restored++;
+        });
+        compactAll(Date.now());
+        console.log(`📈 Pair history: Restored history for ${restored} pair(s)`);
+        notify();
+
+        const orphaned = orphanedKeys(Array.from(stored.keys()));
+        if (orphaned.length > 0) {
+          deleteEntries('history', orphaned).catch((err) => {
+            console.warn('⚠️ Pair history: Failed to remove history of other backends:', err);
+          });
+        }
+      })
+      .catch((err) => {
+        console.warn('⚠️ Pair history: Could not read stored history:', err);
+      });
+  }
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+    if (saveTimer) {
+      clearTimeout(saveTimer);
+      flush();
+    }
+  };
+}
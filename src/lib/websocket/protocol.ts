@@ -0,0 +1,472 @@
+// Wire protocol for the shared dashboard WebSocket.
+// Every inbound frame goes through parseServerMessage before it can reach provider state,
+// so components can rely on the shapes below instead of defensive `any` access. Fields typed
+// `| null` may really be null; everywhere else the parser fills in missing values.
+
+export interface ArbitragePair {
+  pair: string;
+  funding_rate: number;
+  annual_funding_rate: number | null;
+  hyperliquid: {
+    bid: number;
+    ask: number;
+    volume: number | null;
+    bid_size?: number | null;
+    ask_size?: number | null;
+  };
+  bybit: {
+    bid: number;
+    ask: number;
+    volume: number | null;
+    available: boolean;
+  };
+  // Next HyperLiquid funding time (ms since epoch), when the backend knows it
+  next_funding_time?: number | null;
+}
+
+export interface ArbitrageData {
+  pairs: ArbitragePair[];
+  metadata: {
+    last_update: string;
+    hyperliquid_pairs_count: number;
+    bybit_pairs_count: number;
+    combined_pairs_count: number;
+  };
+}
+
+export interface Position {
+  symbol: string;
+  usdt_amount: number;
+  status: string;
+  entry_time: string | null;
+  exit_time: string | null;
+  entry_funding_rate: number;
+  // Idempotency keys of the dashboard requests that filled on this position, newest last
+  client_order_ids?: string[];
+  bybit: {
+    entry_price: number;
+    exit_price: number;
+    amount: number;
+    unrealized_pnl: number;
+    realized_pnl: number;
+    total_fees: number;
+  };
+  hyperliquid: {
+    entry_price: number;
+    exit_price: number;
+    size: number;
+    unrealized_pnl: number;
+    realized_pnl: number;
+    liquidation_price: number;
+    margin_used: number;
+    leverage: number;
+    total_fees: number;
+    liquidation_risk_pct: number;
+  };
+  total: {
+    unrealized_pnl: number;
+    realized_pnl: number;
+    funding_earned: number;
+    net_pnl: number;
+  };
+}
+
+// Individual fills as reported by the backend's closed positions feed
+export interface ClosedTrade {
+  symbol: string;
+  side: string;
+  price: number;
+  quantity: number;
+  fee: number;
+  execution_time: string;
+  order_id: string;
+  exchange: string;
+  pnl?: number | null;
+}
+
+export interface AccountBalances {
+  bybit: {
+    total: number;
+    free: number;
+    used: number;
+  };
+  hyperliquid: {
+    total: number;
+    free: number;
+    used: number;
+  };
+}
+
+export type ExchangeName = 'hyperliquid' | 'bybit';
+
+// One venue's health as the backend sees it
+export interface ExchangeStatus {
+  exchange: ExchangeName;
+  rest: { connected: boolean; latency_ms?: number | null };
+  websocket: { connected: boolean };
+  // When the backend last received a quote from this venue
+  last_quote_at?: string | null;
+  // Requests used in the exchange's current rate-limit window; null when the venue doesn't report it
+  rate_limit?: { used: number; limit: number; reset_at?: string | null } | null;
+  // Last error the backend hit talking to this venue, cleared once it recovers
+  error?: string | null;
+}
+
+// One leg of an open or close as the backend executes it. Every request produces a `submitted`
+// and then a `filled` or `rejected` update per leg.
+export interface ExecutionUpdate {
+  // Idempotency key of the request; the backend assigns one to requests sent without
+  client_order_id: string;
+  action: 'open' | 'close';
+  symbol: string;
+  // USDT for opens, percent of the position for closes
+  requested?: number | null;
+  leg: ExchangeName;
+  side: 'buy' | 'sell';
+  status: 'submitted' | 'filled' | 'rejected';
+  price?: number | null;
+  quantity?: number | null;
+  fee?: number | null;
+  error?: string | null;
+  time: string;
+}
+
+interface BaseMessage {
+  timestamp?: string;
+}
+
+// Full snapshot. `seq` is set when the backend also streams deltas; a delta is applied only
+// on top of the snapshot or delta immediately preceding it.
+export interface ArbitrageDataMessage extends BaseMessage {
+  type: 'arbitrage_data';
+  seq?: number;
+  data: ArbitrageData;
+}
+
+// Changed pairs only, keyed by `pair`. Upserts replace or append, removals drop pairs by name.
+export interface ArbitrageDeltaMessage extends BaseMessage {
+  type: 'arbitrage_delta';
+  seq: number;
+  data: {
+    upserts: ArbitragePair[];
+    removals: string[];
+    metadata?: ArbitrageData['metadata'];
+  };
+}
+
+export interface ActivePositionsMessage extends BaseMessage {
+  type: 'active_positions';
+  data: { active_positions: Position[] };
+}
+
+export interface ClosedPositionsMessage extends BaseMessage {
+  type: 'closed_positions';
+  data: { closed_positions: ClosedTrade[] };
+}
+
+export interface AccountBalancesMessage extends BaseMessage {
+  type: 'account_balances';
+  data: { balances: AccountBalances | null };
+}
+
+// Sent per venue whenever its health changes, and periodically while exchange_status is subscribed
+export interface ExchangeStatusMessage extends BaseMessage {
+  type: 'exchange_status';
+  data: ExchangeStatus;
+}
+
+// Recent history right after subscribing, then the new updates of each request as they happen
+export interface ExecutionUpdatesMessage extends BaseMessage {
+  type: 'execution_updates';
+  data: { updates: ExecutionUpdate[] };
+}
+
+export interface ConnectionMessage extends BaseMessage {
+  type: 'connection';
+  message?: string;
+}
+
+export interface ErrorMessage extends BaseMessage {
+  type: 'error';
+  message: string;
+}
+
+// Reply to a client `ping`; echoes the ping's timestamp when the backend supports it
+export interface PongMessage extends BaseMessage {
+  type: 'pong';
+}
+
+export type ServerMessage =
+  | ArbitrageDataMessage
+  | ArbitrageDeltaMessage
+  | ActivePositionsMessage
+  | ClosedPositionsMessage
+  | AccountBalancesMessage
+  | ExchangeStatusMessage
+  | ExecutionUpdatesMessage
+  | ConnectionMessage
+  | ErrorMessage
+  | PongMessage;
+
+export type ServerMessageType = ServerMessage['type'];
+
+export type ParseResult =
+  | { ok: true; message: ServerMessage }
+  | { ok: false; type: string | null; error: string };
+
+// Validators return a human readable issue, or null when the value is acceptable
+type Issue = string | null;
+type Validator = (value: unknown, path: string) => Issue;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const number: Validator = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? null : `${path} must be a finite number`;
+
+// Backend omits or nulls fields it could not compute. These pass them through as they are, for
+// fields typed `| null` or optional...
+const optionalNumber: Validator = (value, path) =>
+  value === undefined || value === null ? null : number(value, path);
+
+const string: Validator = (value, path) =>
+  typeof value === 'string' ? null : `${path} must be a string`;
+
+const optionalString: Validator = (value, path) =>
+  value === undefined || value === null ? null : string(value, path);
+
+// ...while these have `shape` replace a missing value with a fallback, so fields typed as plain
+// numbers and strings never carry null into formatting or arithmetic
+const fallbacks = new Map<Validator, unknown>();
+
+const withFallback = (validator: Validator, fallback: unknown): Validator => {
+  const defaulted: Validator = (value, path) =>
+    value === undefined || value === null ? null : validator(value, path);
+  fallbacks.set(defaulted, fallback);
+  return defaulted;
+};
+
+const numberOrZero = withFallback(number, 0);
+const numberOrNull = withFallback(number, null);
+const stringOrEmpty = withFallback(string, '');
+const stringOrNull = withFallback(string, null);
+
+// ISO 8601 or anything else Date.parse reads; execution history is sorted and timed by it
+const timestamp: Validator = (value, path) =>
+  typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : `${path} must be a valid timestamp`;
+
+const boolean: Validator = (value, path) =>
+  typeof value === 'boolean' ? null : `${path} must be a boolean`;
+
+const oneOf = (...values: string[]): Validator => (value, path) =>
+  typeof value === 'string' && values.includes(value) ? null : `${path} must be one of ${values.join(', ')}`;
+
+const nullable = (validator: Validator): Validator => (value, path) =>
+  value === null ? null : validator(value, path);
+
+const shape = (fields: Record<string, Validator>): Validator => (value, path) => {
+  if (!isRecord(value)) return `${path} must be an object`;
+  for (const [key, validator] of Object.entries(fields)) {
+    const issue = validator(value[key], `${path}.${key}`);
+    if (issue) return issue;
+    if ((value[key] === undefined || value[key] === null) && fallbacks.has(validator)) {
+      value[key] = fallbacks.get(validator);
+    }
+  }
+  return null;
+};
+
+const arrayOf = (validator: Validator): Validator => (value, path) => {
+  if (!Array.isArray(value)) return `${path} must be an array`;
+  for (let i = 0; i < value.length; i++) {
+    const issue = validator(value[i], `${path}[${i}]`);
+    if (issue) return issue;
+  }
+  return null;
+};
+
+const arbitragePair = shape({
+  pair: string,
+  funding_rate: number,
+  annual_funding_rate: numberOrNull,
+  hyperliquid: shape({
+    bid: number,
+    ask: number,
+    volume: numberOrNull,
+    bid_size: optionalNumber,
+    ask_size: optionalNumber,
+  }),
+  bybit: shape({
+    bid: number,
+    ask: number,
+    volume: numberOrNull,
+    available: boolean,
+  }),
+  next_funding_time: optionalNumber,
+});
+
+const arbitrageMetadata = shape({
+  last_update: stringOrEmpty,
+  hyperliquid_pairs_count: numberOrZero,
+  bybit_pairs_count: numberOrZero,
+  combined_pairs_count: numberOrZero,
+});
+
+const arbitrageData = shape({
+  pairs: arrayOf(arbitragePair),
+  metadata: arbitrageMetadata,
+});
+
+const sequence: Validator = (value, path) =>
+  Number.isInteger(value) && (value as number) >= 0 ? null : `${path} must be a non-negative integer`;
+
+const optional = (validator: Validator): Validator => (value, path) =>
+  value === undefined ? null : validator(value, path);
+
+const position = shape({
+  symbol: string,
+  usdt_amount: numberOrZero,
+  status: stringOrEmpty,
+  entry_time: stringOrNull,
+  exit_time: stringOrNull,
+  entry_funding_rate: numberOrZero,
+  client_order_ids: optional(arrayOf(string)),
+  bybit: shape({
+    entry_price: numberOrZero,
+    exit_price: numberOrZero,
+    amount: numberOrZero,
+    unrealized_pnl: numberOrZero,
+    realized_pnl: numberOrZero,
+    total_fees: numberOrZero,
+  }),
+  hyperliquid: shape({
+    entry_price: numberOrZero,
+    exit_price: numberOrZero,
+    size: numberOrZero,
+    unrealized_pnl: numberOrZero,
+    realized_pnl: numberOrZero,
+    liquidation_price: numberOrZero,
+    margin_used: numberOrZero,
+    leverage: numberOrZero,
+    total_fees: numberOrZero,
+    liquidation_risk_pct: numberOrZero,
+  }),
+  total: shape({
+    unrealized_pnl: numberOrZero,
+    realized_pnl: numberOrZero,
+    funding_earned: numberOrZero,
+    net_pnl: numberOrZero,
+  }),
+});
+
+const closedTrade = shape({
+  symbol: string,
+  side: string,
+  price: numberOrZero,
+  quantity: numberOrZero,
+  fee: numberOrZero,
+  execution_time: string,
+  order_id: stringOrEmpty,
+  exchange: string,
+  pnl: optionalNumber,
+});
+
+const balance = shape({
+  total: number,
+  free: number,
+  used: number,
+});
+
+const accountBalances = shape({
+  bybit: balance,
+  hyperliquid: balance,
+});
+
+const exchangeStatus = shape({
+  exchange: oneOf('hyperliquid', 'bybit'),
+  rest: shape({ connected: boolean, latency_ms: optionalNumber }),
+  websocket: shape({ connected: boolean }),
+  last_quote_at: optionalString,
+  rate_limit: optional(nullable(shape({ used: number, limit: number, reset_at: optionalString }))),
+  error: optionalString,
+});
+
+const executionUpdate = shape({
+  client_order_id: string,
+  action: oneOf('open', 'close'),
+  symbol: string,
+  requested: optionalNumber,
+  leg: oneOf('hyperliquid', 'bybit'),
+  side: oneOf('buy', 'sell'),
+  status: oneOf('submitted', 'filled', 'rejected'),
+  price: optionalNumber,
+  quantity: optionalNumber,
+  fee: optionalNumber,
+  error: optionalString,
+  time: timestamp,
+});
+
+// Payload validators per message type. Message types missing here are rejected as unknown.
+const messageValidators: Record<ServerMessageType, Validator> = {
+  arbitrage_data: shape({ seq: optional(sequence), data: arbitrageData }),
+  arbitrage_delta: shape({
+    seq: sequence,
+    data: shape({
+      upserts: arrayOf(arbitragePair),
+      removals: arrayOf(string),
+      metadata: optional(arbitrageMetadata),
+    }),
+  }),
+  active_positions: shape({ data: shape({ active_positions: arrayOf(position) }) }),
+  closed_positions: shape({ data: shape({ closed_positions: arrayOf(closedTrade) }) }),
+  account_balances: shape({ data: shape({ balances: nullable(accountBalances) }) }),
+  exchange_status: shape({ data: exchangeStatus }),
+  execution_updates: shape({ data: shape({ updates: arrayOf(executionUpdate) }) }),
+  connection: shape({ message: optionalString }),
+  error: shape({ message: string }),
+  pong: shape({}),
+};
+
+const isKnownType = (type: string): type is ServerMessageType =>
+  Object.prototype.hasOwnProperty.call(messageValidators, type);
+
+/**
+ * Validates an already decoded message object, filling in missing values in place. Used for
+ * frames and for REST payloads that are folded into the same state as socket messages.
+ */
+export function validateServerMessage(payload: unknown): ParseResult {
+  if (!isRecord(payload) || typeof payload.type !== 'string') {
+    return { ok: false, type: null, error: 'Frame has no message type' };
+  }
+
+  const { type } = payload;
+  if (!isKnownType(type)) {
+    return { ok: false, type, error: `Unknown message type "${type}"` };
+  }
+
+  const issue = optionalString(payload.timestamp, `${type}.timestamp`) || messageValidators[type](payload, type);
+  if (issue) {
+    return { ok: false, type, error: issue };
+  }
+
+  return { ok: true, message: payload as unknown as ServerMessage };
+}
+
+/**
+ * Parses and validates a raw WebSocket frame. Never throws: malformed frames come back
+ * as `{ ok: false }` so the caller can reject that single message and keep going.
+ */
+export function parseServerMessage(raw: unknown): ParseResult {
+  if (typeof raw !== 'string') {
+    return { ok: false, type: null, error: 'Frame is not a text message' };
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(raw);
+  } catch {
+    return { ok: false, type: null, error: 'Frame is not valid JSON' };
+  }
+
+  return validateServerMessage(payload);
+}
@@ -0,0 +1,146 @@
+// Recording and replay of inbound frames. A recording keeps each frame exactly as it arrived
+// (raw socket text, or the decoded REST payloads folded into the feed) so replaying it exercises
+// the same validation and handlers as the live connection, malformed frames included.
+
+const RECORDING_FORMAT = 'arbitrage-dashboard-session';
+const RECORDING_VERSION = 1;
+
+// At max speed frames are fed in batches, yielding between them so the UI can paint
+const MAX_SPEED_BATCH_SIZE = 200;
+
+export interface RecordedFrame {
+  // Milliseconds since the recording started
+  t: number;
+  data: unknown;
+}
+
+export interface SessionRecording {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  startedAt: string;
+  frames: RecordedFrame[];
+}
+
+export type ReplaySpeed = 1 | 5 | 'max';
+
+export interface SessionRecorder {
+  record: (data: unknown) => void;
+  frameCount: () => number;
+  finish: () => SessionRecording;
+}
+
+export function createSessionRecorder(): SessionRecorder {
+  const startedAt = Date.now();
+  const frames: RecordedFrame[] = [];
+
+  return {
+    record: (data) => {
+      frames.push({ t: Date.now() - startedAt, data });
+    },
+    frameCount: () => frames.length,
+    finish: () => ({
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      startedAt: new Date(startedAt).toISOString(),
+      frames: frames.slice()
+    })
+  };
+}
+
+/**
+ * Parses a downloaded recording. Throws with a readable message when the file isn't one;
+ * individual frames are not validated here, the replay rejects bad ones like live frames.
+ */
+export function parseSessionRecording(text: string): SessionRecording {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Recording is not valid JSON');
+  }
+
+  const recording = parsed as Partial<SessionRecording> | null;
+  if (!recording || recording.format !== RECORDING_FORMAT) {
+    throw new Error('File is not a dashboard session recording');
+  }
+  if (recording.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${String(recording.version)}`);
+  }
+  if (!Array.isArray(recording.frames) || recording.frames.some(frame => typeof frame?.t !== 'number')) {
+    throw new Error('Recording frames are malformed');
+  }
+  return recording as SessionRecording;
+}
+
+export interface Replayer {
+  setSpeed: (speed: ReplaySpeed) => void;
+  stop: () => void;
+}
+
+interface ReplayOptions {
+  speed: ReplaySpeed;
+  onFrame: (data: unknown) => void;
+  // Number of frames played so far
+  onProgress: (position: number) => void;
+  onDone: () => void;
+}
+
+/**
+ * Feeds the recorded frames to `onFrame`, keeping the recorded gaps between frames divided by
+ * the speed. Changing the speed takes effect from the next frame.
+ */
+export function createReplayer(recording: SessionRecording, { speed, onFrame, onProgress, onDone }: ReplayOptions): Replayer {
+  const { frames } = recording;
+  let index = 0;
+  let currentSpeed = speed;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const scheduleNext = () => {
+    timer = null;
+    if (stopped) return;
+    if (index >= frames.length) {
+      onDone();
+      return;
+    }
+
+    if (currentSpeed === 'max') {
+      timer = setTimeout(() => {
+        const end = Math.min(index + MAX_SPEED_BATCH_SIZE, frames.length);
+        for (; index < end; index++) {
+          onFrame(frames[index].data);
+        }
+        onProgress(index);
+        scheduleNext();
+      }, 0);
+      return;
+    }
+
+    const gap = index === 0 ? 0 : frames[index].t - frames[index - 1].t;
+    timer = setTimeout(() => {
+      onFrame(frames[index].data);
+      index++;
+      onProgress(index);
+      scheduleNext();
+    }, Math.max(0, gap / currentSpeed));
+  };
+
+  scheduleNext();
+
+  return {
+    setSpeed: (next) => {
+      currentSpeed = next;
+      if (timer) {
+        clearTimeout(timer);
+        scheduleNext();
+      }
+    },
+    stop: () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+    }
+  };
+}
@@ -0,0 +1,138 @@
+import { getAllEntries, isIndexedDbAvailable, putEntries } from '../persistence/indexedDb';
+import { validateServerMessage, type AccountBalances, type ArbitrageData, type Position } from './protocol';
+import { indexPairs, type CachedSection, type WebSocketState, type WebSocketStore } from './store';
+
+// Last known arbitrage data, positions and balances, kept in IndexedDB so a reload (or a backend
+// restart) shows what we hold right away instead of an empty dashboard. Each entry records the
+// connection profile it came from and is only restored under that profile.
+
+interface CacheEntry<T> {
+  value: T;
+  savedAt: number;
+  profileId: string;
+}
+
+export interface CachedSnapshot {
+  data?: CacheEntry<ArbitrageData>;
+  activePositions?: CacheEntry<Position[]>;
+  balances?: CacheEntry<AccountBalances>;
+}
+
+const CACHED_SECTIONS: CachedSection[] = ['data', 'activePositions', 'balances'];
+
+// Cached values go through the same validators as live messages, so a cache written by an
+// older build can't put malformed data into the store
+const asMessage: Record<CachedSection, (value: unknown) => unknown> = {
+  data: value => ({ type: 'arbitrage_data', data: value }),
+  activePositions: value => ({ type: 'active_positions', data: { active_positions: value } }),
+  balances: value => ({ type: 'account_balances', data: { balances: value } })
+};
+
+// Sections cached for `profileId`; entries from another profile, or from before entries had one, are skipped
+export async function loadCachedSnapshot(profileId: string): Promise<CachedSnapshot> {
+  if (!isIndexedDbAvailable()) return {};
+
+  const entries = await getAllEntries<CacheEntry<unknown>>('snapshot');
+  const snapshot: Record<string, CacheEntry<unknown>> = {};
+  CACHED_SECTIONS.forEach(section => {
+    const entry = entries.get(section);
+    if (!entry || entry.value === null || typeof entry.savedAt !== 'number') return;
+    if (entry.profileId !== profileId) return;
+
+    const result = validateServerMessage(asMessage[section](entry.value));
+    if (result.ok) {
+      snapshot[section] = entry;
+    } else {
+      console.warn(`⚠️ Snapshot cache: Ignoring invalid cached ${section}:`, result.error);
+    }
+  });
+  return snapshot as CachedSnapshot;
+}
+
+/**
+ * Partial state that shows the cached snapshot, limited to sections nothing live has filled yet.
+ */
+export function restoreCachedSnapshot(state: WebSocketState, cached: CachedSnapshot): Partial<WebSocketState> {
+  const update: Partial<WebSocketState> = {};
+  const cachedAt = { ...state.cachedAt };
+
+  if (cached.data && !state.data) {
+    update.data = cached.data.value;
+    update.pairsBySymbol = indexPairs(cached.data.value.pairs);
+    update.lastDataAt = cached.data.savedAt;
+    update.isLoading = false;
+    cachedAt.data = cached.data.savedAt;
+  }
+  if (cached.activePositions && state.activePositions.length === 0) {
+    update.activePositions = cached.activePositions.value;
+    cachedAt.activePositions = cached.activePositions.savedAt;
+  }
+  if (cached.balances && !state.balances) {
+    update.balances = cached.balances.value;
+    cachedAt.balances = cached.balances.savedAt;
+  }
+
+  return Object.keys(update).length > 0 ? { ...update, cachedAt } : {};
+}
+
+/**
+ * Writes sections to the cache as live data from `profileId`'s backend replaces them, at most once
+ * per interval. Only the leader tab writes; followers mirror the same data. Call again with the new
+ * profile on a switch; the returned cleanup saves what the old one had pending.
+ */
+export function persistSnapshot(store: WebSocketStore, intervalMs: number, profileId: string): () => void {
+  if (!isIndexedDbAvailable()) return () => {};
+
+  // Values are taken as they arrive, so a save after a profile switch can't pick up the next backend's
+  const pending = new Map<CachedSection, unknown>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let previous = store.getState();
+
+  const flush = () => {
+    timer = null;
+    const savedAt = Date.now();
+    const entries: Record<string, CacheEntry<unknown>> = {};
+    pending.forEach((value, section) => {
+      entries[section] = { value, savedAt, profileId };
+    });
+    pending.clear();
+
+    putEntries('snapshot', entries).catch((err) => {
+      console.warn('⚠️ Snapshot cache: Failed to save snapshot:', err);
+    });
+  };
+
+  const unsubscribe = store.subscribe(() => {
+    const state = store.getState();
+    CACHED_SECTIONS.forEach(section => {
+      // Restored sections are already in the cache; null means the backend had nothing to report,
+      // and positions without a live message are the empty list of a fresh or cleared feed
+      if (
+        state[section] !== previous[section] &&
+        state[section] !== null &&
+        state.cachedAt[section] === undefined &&
+        (section !== 'activePositions' || state.activePositionsReceivedAt !== null)
+      ) {
+        pending.set(section, state[section]);
+      }
+    });
+    previous = state;
+
+    // Replayed sessions must never overwrite the real snapshot
+    if (state.tabRole !== 'leader' || state.replay) {
+      pending.clear();
+      return;
+    }
+    if (pending.size > 0 && !timer) {
+      timer = setTimeout(flush, intervalMs);
+    }
+  });
+
+  return () => {
+    unsubscribe();
+    if (timer) {
+      clearTimeout(timer);
+      flush();
+    }
+  };
+}
@@ -0,0 +1,170 @@
+import type {
+  AccountBalances,
+  ArbitrageData,
+  ArbitragePair,
+  ClosedTrade,
+  ExchangeName,
+  ExchangeStatus,
+  ExecutionUpdate,
+  Position
+} from './protocol';
+import type { ReplaySpeed } from './sessionRecording';
+import type { TabRole } from './tabCoordinator';
+
+// Sections that are persisted locally and restored on the next page load
+export type CachedSection = 'data' | 'activePositions' | 'balances';
+
+export interface ReplayStatus {
+  name: string;
+  speed: ReplaySpeed;
+  // Frames played so far out of total
+  position: number;
+  total: number;
+  finished: boolean;
+}
+
+export interface WebSocketState {
+  data: ArbitrageData | null;
+  // Index over data.pairs so usePair(symbol) doesn't scan the list on every tick
+  pairsBySymbol: ReadonlyMap<string, ArbitragePair>;
+  activePositions: Position[];
+  // When the last active_positions message arrived; null until the first one after a load or a clear,
+  // so an empty initial, cleared or cached list is never taken for the account's actual positions
+  activePositionsReceivedAt: number | null;
+  closedPositions: ClosedTrade[];
+  balances: AccountBalances | null;
+  // Latest exchange_status per venue; a venue is missing until the backend first reports it
+  exchangeStatus: Partial<Record<ExchangeName, ExchangeStatus>>;
+  // Per-leg execution updates, oldest first and capped at MAX_EXECUTION_UPDATES
+  executionUpdates: ExecutionUpdate[];
+  isConnected: boolean;
+  isLoading: boolean;
+  error: string | null;
+  // True when no arbitrage_data has arrived within the stale window, even if the socket is open
+  isStale: boolean;
+  lastDataAt: number | null;
+  // Consecutive failed connection attempts; 0 while connected
+  reconnectAttempt: number;
+  // Frames rejected by protocol validation since the provider mounted
+  protocolErrorCount: number;
+  lastProtocolError: string | null;
+  // Only the leader tab holds the socket; followers mirror it over a BroadcastChannel
+  tabRole: TabRole;
+  // Save time of each section still showing data restored from the local cache; cleared once live data replaces it
+  cachedAt: Partial<Record<CachedSection, number>>;
+  // Frames captured by the running session recording; null when not recording
+  recordedFrameCount: number | null;
+  // Set while a recorded session is fed through the handlers instead of the live feed
+  replay: ReplayStatus | null;
+}
+
+type StateUpdate = Partial<WebSocketState> | ((state: WebSocketState) => Partial<WebSocketState>);
+
+export interface WebSocketStore {
+  getState: () => WebSocketState;
+  setState: (update: StateUpdate) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export const initialWebSocketState: WebSocketState = {
+  data: null,
+  pairsBySymbol: new Map(),
+  activePositions: [],
+  activePositionsReceivedAt: null,
+  closedPositions: [],
+  balances: null,
+  exchangeStatus: {},
+  executionUpdates: [],
+  isConnected: false,
+  isLoading: true,
+  error: null,
+  isStale: false,
+  lastDataAt: null,
+  reconnectAttempt: 0,
+  protocolErrorCount: 0,
+  lastProtocolError: null,
+  tabRole: 'pending',
+  cachedAt: {},
+  recordedFrameCount: null,
+  replay: null
+};
+
+// Drops all feed data, e.g. before a replay starts from an empty dashboard
+export const clearedFeedState: Partial<WebSocketState> = {
+  data: null,
+  pairsBySymbol: initialWebSocketState.pairsBySymbol,
+  activePositions: [],
+  activePositionsReceivedAt: null,
+  closedPositions: [],
+  balances: null,
+  exchangeStatus: {},
+  executionUpdates: [],
+  isStale: false,
+  lastDataAt: null,
+  cachedAt: {}
+};
+
+export function indexPairs(pairs: ArbitragePair[]): ReadonlyMap<string, ArbitragePair> {
+  return new Map(pairs.map(pair => [pair.pair, pair]));
+}
+
+const MAX_EXECUTION_UPDATES = 500;
+
+const executionUpdateKey = (update: ExecutionUpdate) =>
+  `${update.client_order_id}:${update.leg}:${update.status}:${update.time}`;
+
+// Adds updates not seen yet; the history sent on every (re)subscribe overlaps with what is already here
+export function mergeExecutionUpdates(current: ExecutionUpdate[], incoming: ExecutionUpdate[]): ExecutionUpdate[] {
+  const seen = new Set(current.map(executionUpdateKey));
+  const added = incoming.filter(update => !seen.has(executionUpdateKey(update)));
+  if (added.length === 0) return current;
+
+  return [...current, ...added]
+    .sort((a, b) => Date.parse(a.time) - Date.parse(b.time))
+    .slice(-MAX_EXECUTION_UPDATES);
+}
+
+// Partial update that drops the cached marker for a section that just received live data
+export function markLive(state: WebSocketState, section: CachedSection): Partial<WebSocketState> {
+  if (state.cachedAt[section] === undefined) return {};
+  const cachedAt = { ...state.cachedAt };
+  delete cachedAt[section];
+  return { cachedAt };
+}
+
+/**
+ * Minimal external store for useSyncExternalStore. Listeners only fire when an update
+ * actually changes a field, so redundant writes (e.g. isConnected=true twice) are free.
+ */
+export function createWebSocketStore(initial: WebSocketState = initialWebSocketState): WebSocketStore {
+  let state = initial;
+  const listeners = new Set<() => void>();
+
+  return {
+    getState: () => state,
+    setState: (update) => {
+      const partial = typeof update === 'function' ? update(state) : update;
+      const changed = (Object.keys(partial) as Array<keyof WebSocketState>)
+        .some(key => !Object.is(state[key], partial[key]));
+      if (!changed) return;
+
+      state = { ...state, ...partial };
+      listeners.forEach(listener => listener());
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    }
+  };
+}
+
+export function shallowEqual<T>(a: T, b: T): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  const aKeys = Object.keys(a) as Array<keyof T>;
+  const bKeys = Object.keys(b) as Array<keyof T>;
+  return aKeys.length === bKeys.length && aKeys.every(key => Object.is(a[key], b[key]));
+}
@@ -0,0 +1,148 @@
+import type { AccountBalances, ArbitrageData, ClosedTrade, ExchangeName, ExchangeStatus, ExecutionUpdate, Position } from './protocol';
+import type { WebSocketState } from './store';
+import type { Topic, TopicParamsMap } from './topics';
+
+// One tab per browser owns the WebSocket. Leadership is a Web Lock, so it moves to a waiting tab
+// as soon as the owner closes; messages between tabs go over a BroadcastChannel.
+
+const LOCK_NAME = 'arbitrage-dashboard:ws-leader';
+const CHANNEL_NAME = 'arbitrage-dashboard:ws';
+
+export type TabRole = 'pending' | 'leader' | 'follower';
+
+export interface SharedConnectionStatus {
+  isConnected: boolean;
+  error: string | null;
+  reconnectAttempt: number;
+}
+
+export interface SharedSnapshot {
+  data: ArbitrageData | null;
+  seq: number | null;
+  activePositions: Position[];
+  activePositionsReceivedAt: number | null;
+  closedPositions: ClosedTrade[];
+  balances: AccountBalances | null;
+  exchangeStatus: Partial<Record<ExchangeName, ExchangeStatus>>;
+  executionUpdates: ExecutionUpdate[];
+  lastDataAt: number | null;
+  cachedAt: WebSocketState['cachedAt'];
+}
+
+export type TabMessage =
+  // leader -> followers
+  | { kind: 'leader' }
+  | { kind: 'frame'; payload: unknown }
+  | { kind: 'status'; status: SharedConnectionStatus }
+  | { kind: 'snapshot'; snapshot: SharedSnapshot; status: SharedConnectionStatus }
+  // followers -> leader
+  | { kind: 'hello' }
+  | { kind: 'topics'; topics: Array<{ topic: Topic; params: TopicParamsMap[Topic] }> }
+  | { kind: 'send'; frame: Record<string, unknown> }
+  | { kind: 'reconnect' }
+  | { kind: 'bye' };
+
+export interface TabEnvelope {
+  from: string;
+  // Set when a message is meant for one tab only, e.g. a snapshot answering its hello
+  to?: string;
+  message: TabMessage;
+}
+
+export interface TabCoordinator {
+  tabId: string;
+  getRole: () => TabRole;
+  post: (message: TabMessage, to?: string) => void;
+  close: () => void;
+}
+
+interface TabCoordinatorOptions {
+  onRoleChange: (role: TabRole) => void;
+  onMessage: (message: TabMessage, from: string) => void;
+}
+
+const createTabId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `tab-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+/**
+ * Joins the leader election for this browser. Without Web Locks or BroadcastChannel support
+ * the tab simply leads on its own, which is the pre-sharing behaviour.
+ */
+export function createTabCoordinator({ onRoleChange, onMessage }: TabCoordinatorOptions): TabCoordinator {
+  const tabId = createTabId();
+  let role: TabRole = 'pending';
+  let closed = false;
+
+  const setRole = (next: TabRole) => {
+    if (closed || role === next) return;
+    role = next;
+    onRoleChange(next);
+  };
+
+  const supported = typeof BroadcastChannel !== 'undefined' && typeof navigator !== 'undefined' && !!navigator.locks;
+  if (!supported) {
+    setRole('leader');
+    return {
+      tabId,
+      getRole: () => role,
+      post: () => {},
+      close: () => {
+        closed = true;
+      }
+    };
+  }
+
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (event: MessageEvent<TabEnvelope>) => {
+    const envelope = event.data;
+    if (closed || !envelope || envelope.from === tabId) return;
+    if (envelope.to && envelope.to !== tabId) return;
+    onMessage(envelope.message, envelope.from);
+  };
+
+  // Resolving this releases the lock, which hands leadership to the next waiting tab
+  let releaseLock: () => void = () => {};
+  const held = new Promise<void>(resolve => {
+    releaseLock = resolve;
+  });
+  const abortWaiting = new AbortController();
+
+  const lead = () => {
+    setRole('leader');
+    return held;
+  };
+
+  navigator.locks.request(LOCK_NAME, { ifAvailable: true }, (lock) => {
+    if (lock) return lead();
+
+    setRole('follower');
+    navigator.locks
+      .request(LOCK_NAME, { signal: abortWaiting.signal }, lead)
+      .catch(() => {
+        // Aborted because this tab closed while still waiting
+      });
+    return undefined;
+  }).catch((err) => {
+    console.error('❌ Tab coordinator: leader election failed, leading alone:', err);
+    setRole('leader');
+  });
+
+  return {
+    tabId,
+    getRole: () => role,
+    post: (message, to) => {
+      if (closed) return;
+      const envelope: TabEnvelope = { from: tabId, to, message };
+      channel.postMessage(envelope);
+    },
+    close: () => {
+      if (closed) return;
+      closed = true;
+      abortWaiting.abort();
+      releaseLock();
+      channel.close();
+    }
+  };
+}
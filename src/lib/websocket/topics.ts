@@ -0,0 +1,148 @@
+// Topics components can subscribe to over the shared socket, and the frames that (un)subscribe them.
+// Several components may hold the same topic; the socket only sees the first subscribe and last unsubscribe.
+
+export interface TopicParamsMap {
+  arbitrage_data: Record<string, never>;
+  active_positions: Record<string, never>;
+  closed_positions: { days?: number };
+  account_balances: Record<string, never>;
+  exchange_status: Record<string, never>;
+  executions: Record<string, never>;
+}
+
+export type Topic = keyof TopicParamsMap;
+
+type ClientFrame = Record<string, unknown>;
+
+interface TopicDefinition<T extends Topic> {
+  subscribe: (params: TopicParamsMap[T]) => ClientFrame;
+  unsubscribe: ClientFrame;
+  // Combines the params of every subscriber into the single request sent to the backend
+  merge: (params: TopicParamsMap[T][]) => TopicParamsMap[T];
+}
+
+export const DEFAULT_CLOSED_POSITIONS_DAYS = 7;
+
+const noParams = () => ({});
+
+const topicDefinitions: { [T in Topic]: TopicDefinition<T> } = {
+  arbitrage_data: {
+    // `deltas` lets the backend stream arbitrage_delta after the first snapshot
+    subscribe: () => ({ type: 'subscribe_arbitrage_data', deltas: true }),
+    unsubscribe: { type: 'unsubscribe_arbitrage_data' },
+    merge: noParams
+  },
+  active_positions: {
+    subscribe: () => ({ type: 'get_active_positions' }),
+    unsubscribe: { type: 'unsubscribe_active_positions' },
+    merge: noParams
+  },
+  closed_positions: {
+    subscribe: ({ days }) => ({ type: 'get_closed_positions', days: days ?? DEFAULT_CLOSED_POSITIONS_DAYS }),
+    unsubscribe: { type: 'unsubscribe_closed_positions' },
+    // Request the widest window anyone needs; narrower subscribers filter client-side
+    merge: (params) => ({
+      days: Math.max(DEFAULT_CLOSED_POSITIONS_DAYS, ...params.map(p => p.days ?? DEFAULT_CLOSED_POSITIONS_DAYS))
+    })
+  },
+  account_balances: {
+    subscribe: () => ({ type: 'get_account_balances' }),
+    unsubscribe: { type: 'unsubscribe_account_balances' },
+    merge: noParams
+  },
+  exchange_status: {
+    subscribe: () => ({ type: 'subscribe_exchange_status' }),
+    unsubscribe: { type: 'unsubscribe_exchange_status' },
+    merge: noParams
+  },
+  executions: {
+    subscribe: () => ({ type: 'subscribe_executions' }),
+    unsubscribe: { type: 'unsubscribe_executions' },
+    merge: noParams
+  }
+};
+
+export function subscribeFrame<T extends Topic>(topic: T, params: TopicParamsMap[T]): ClientFrame {
+  return topicDefinitions[topic].subscribe(params);
+}
+
+export function unsubscribeFrame(topic: Topic): ClientFrame {
+  return topicDefinitions[topic].unsubscribe;
+}
+
+export type TopicChange =
+  | { topic: Topic; kind: 'subscribe'; params: TopicParamsMap[Topic] }
+  | { topic: Topic; kind: 'unsubscribe' };
+
+type TopicListener = (change: TopicChange) => void;
+
+/**
+ * Reference counts topic subscribers and reports when the effective subscription for a topic
+ * starts, stops, or needs different params.
+ */
+export class TopicRegistry {
+  private subscribers = new Map<Topic, Map<number, TopicParamsMap[Topic]>>();
+  private effective = new Map<Topic, string>();
+  private listeners = new Set<TopicListener>();
+  private nextId = 1;
+
+  add<T extends Topic>(topic: T, params: TopicParamsMap[T]): () => void {
+    const id = this.nextId++;
+    const entries = this.subscribers.get(topic) ?? new Map<number, TopicParamsMap[Topic]>();
+    entries.set(id, params);
+    this.subscribers.set(topic, entries);
+    this.update(topic);
+
+    return () => {
+      const current = this.subscribers.get(topic);
+      if (!current || !current.delete(id)) return;
+      if (current.size === 0) {
+        this.subscribers.delete(topic);
+      }
+      this.update(topic);
+    };
+  }
+
+  has(topic: Topic): boolean {
+    return this.subscribers.has(topic);
+  }
+
+  // Effective subscriptions, used to replay subscribe frames after a reconnect
+  active(): Array<{ topic: Topic; params: TopicParamsMap[Topic] }> {
+    return Array.from(this.subscribers.keys()).map(topic => ({ topic, params: this.mergedParams(topic) }));
+  }
+
+  onChange(listener: TopicListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private mergedParams<T extends Topic>(topic: T): TopicParamsMap[T] {
+    const params = Array.from(this.subscribers.get(topic)?.values() ?? []) as TopicParamsMap[T][];
+    return (topicDefinitions[topic] as TopicDefinition<T>).merge(params);
+  }
+
+  private update(topic: Topic) {
+    const previous = this.effective.get(topic);
+
+    if (!this.subscribers.has(topic)) {
+      if (previous === undefined) return;
+      this.effective.delete(topic);
+      this.emit({ topic, kind: 'unsubscribe' });
+      return;
+    }
+
+    const params = this.mergedParams(topic);
+    const key = JSON.stringify(params);
+    if (key === previous) return;
+
+    this.effective.set(topic, key);
+    this.emit({ topic, kind: 'subscribe', params });
+  }
+
+  private emit(change: TopicChange) {
+    this.listeners.forEach(listener => listener(change));
+  }
+}